@@ -29,7 +29,11 @@ export default [
         __dirname: 'readonly',
         __filename: 'readonly',
         NodeJS: 'readonly',
-        performance: 'readonly'
+        performance: 'readonly',
+        setTimeout: 'readonly',
+        clearTimeout: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly'
       }
     },
     plugins: {
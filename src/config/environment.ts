@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { readFileSync } from 'fs';
 import 'dotenv/config';
 
 /**
@@ -7,43 +8,115 @@ import 'dotenv/config';
  * Optional: Additional OpenAI configuration for advanced use cases
  */
 
+/**
+ * Declared capabilities for a model id; any field left out falls back to the
+ * built-in registry entry (or conservative defaults for unknown models)
+ */
+export const modelCapabilitiesSchema = z.object({
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive(),
+  supportsTools: z.boolean(),
+  supportsVision: z.boolean(),
+  supportsAudioInput: z.boolean(),
+  supportsJsonSchema: z.boolean(),
+  supportsTemperature: z.boolean(),
+  usesMaxCompletionTokens: z.boolean(),
+  supportsReasoningEffort: z.boolean(),
+  systemRole: z.enum(['system', 'developer', 'user']),
+}).partial();
+
+export const modelRegistrySchema = z.record(z.string(), modelCapabilitiesSchema);
+
+/**
+ * Azure OpenAI settings (used when provider is 'azure')
+ * Requests are routed to the deployment configured for each model: modelDeployments maps
+ * any model (fallback, sub-agent, reviewer) to its deployment, on top of the main and
+ * summarizer deployments. Authentication is an API key, a fixed bearer token, or an
+ * Entra ID token refreshed from a client secret (tenantId, clientId, clientSecret) or
+ * the managed identity (clientId selects a user-assigned one)
+ */
+export const azureOpenAIConfigSchema = z.object({
+  endpoint: z.string().url(),
+  apiVersion: z.string().min(1).default('2024-10-21'),
+  deployment: z.string().min(1),
+  summarizerDeployment: z.string().min(1).optional(),
+  modelDeployments: z.record(z.string(), z.string().min(1)).optional(),
+  apiKey: z.string().min(1).optional(),
+  adToken: z.string().min(1).optional(),
+  tenantId: z.string().min(1).optional(),
+  clientId: z.string().min(1).optional(),
+  clientSecret: z.string().min(1).optional(),
+  managedIdentity: z.boolean().optional(),
+});
+
+/**
+ * A model to fall back to when the one before it in the chain is rate limited, overloaded
+ * or failing, optionally on a secondary OpenAI-compatible endpoint
+ */
+export const fallbackModelSchema = z.object({
+  model: z.string().min(1),
+  baseURL: z.string().url().optional(),
+});
+
 export const openAIConfigSchema = z.object({
-  apiKey: z.string().min(1, 'OpenAI API key is required'),
-  model: z.enum([
-    'gpt-4o',
-    'gpt-4o-mini',
-    'gpt-4',
-    'gpt-4-turbo',
-    'gpt-4-turbo-preview',
-    'gpt-4-0125-preview',
-    'gpt-4-1106-preview',
-    'gpt-4-vision-preview',
-    'gpt-3.5-turbo',
-    'gpt-3.5-turbo-0125',
-    'gpt-3.5-turbo-1106',
-    'gpt-3.5-turbo-16k'
-  ]).default('gpt-4o'),
+  provider: z.enum(['openai', 'azure']).optional(),
+  apiKey: z.string(),
+  model: z.string().min(1, 'OpenAI model is required').default('gpt-4o'),
   temperature: z.number().min(0).max(2).default(0.7),
-  sessionMaxTokens: z.number().positive().default(4096),
+  /** Token budget for a whole session; unlimited when unset */
+  sessionMaxTokens: z.number().positive().optional(),
+  maxCompletionTokens: z.number().positive().optional(),
   organization: z.string().optional(),
   project: z.string().optional(),
   baseURL: z.string().url().optional(),
   timeout: z.number().positive().default(600000),
   maxRetries: z.number().min(0).default(2),
-  summarizerModel: z.enum([
-    'gpt-4o',
-    'gpt-4o-mini',
-    'gpt-4',
-    'gpt-4-turbo',
-    'gpt-4-turbo-preview',
-    'gpt-4-0125-preview',
-    'gpt-4-1106-preview',
-    'gpt-4-vision-preview',
-    'gpt-3.5-turbo',
-    'gpt-3.5-turbo-0125',
-    'gpt-3.5-turbo-1106',
-    'gpt-3.5-turbo-16k'
-  ]).optional(),
+  summarizerModel: z.string().min(1).optional(),
+  stream: z.boolean().optional(),
+  contextStrategy: z.enum(['truncate', 'drop', 'summarize']).optional(),
+  contextThreshold: z.number().gt(0).max(1).optional(),
+  reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+  azure: azureOpenAIConfigSchema.optional(),
+  models: modelRegistrySchema.optional(),
+  /** How audio messages are transcribed for models without audio input ('none' disables it) */
+  transcriptionProvider: z.enum(['openai', 'none']).optional(),
+  transcriptionModel: z.string().min(1).optional(),
+  /** OpenAI-compatible transcription endpoint, when not the chat endpoint */
+  transcriptionBaseURL: z.string().url().optional(),
+  /** Text-to-speech for agents with a speech profile ('stub' returns placeholder audio for tests) */
+  ttsProvider: z.enum(['openai', 'stub', 'none']).optional(),
+  ttsModel: z.string().min(1).optional(),
+  ttsBaseURL: z.string().url().optional(),
+  ttsVoice: z.string().min(1).optional(),
+  ttsFormat: z.enum(['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm']).optional(),
+  /** Ordered fallback chain tried after the requested model fails with 429, overloaded or 5xx errors */
+  fallbackModels: z.array(fallbackModelSchema).optional(),
+  /** Longest Retry-After (ms) worth waiting for once every model in the chain is unavailable */
+  fallbackMaxWait: z.number().int().min(0).optional(),
+  /** Client-side requests and estimated tokens per minute by model ('*' for any other model) */
+  rpmLimits: z.record(z.string(), z.number().int().positive()).optional(),
+  tpmLimits: z.record(z.string(), z.number().int().positive()).optional(),
+  /** Longest a call may queue for the rate limiter (ms), and how many calls may queue per model */
+  rateLimitMaxWait: z.number().int().positive().optional(),
+  rateLimitMaxQueue: z.number().int().min(0).optional(),
+}).superRefine((config, ctx) => {
+  if (config.provider !== 'azure') {
+    if (!config.apiKey) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKey'], message: 'OpenAI API key is required' });
+    }
+    return;
+  }
+  if (!config.azure) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['azure'], message: 'Azure OpenAI endpoint and deployment are required when provider is azure' });
+    return;
+  }
+  const { apiKey, adToken, tenantId, clientId, clientSecret, managedIdentity } = config.azure;
+  if (clientSecret && (!tenantId || !clientId)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['azure'], message: 'Azure client secret authentication requires AZURE_TENANT_ID and AZURE_CLIENT_ID' });
+  }
+  if (!apiKey && !adToken && !clientSecret && !managedIdentity && !config.apiKey) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['azure'], message: 'Azure OpenAI requires an API key or a bearer token (AZURE_OPENAI_AD_TOKEN, a client secret or the managed identity)' });
+  }
 });
 
 export const transportConfigSchema = z.object({
@@ -86,32 +159,285 @@ export const dispatchConfigSchema = z.object({
   sessionMaxIteration: z.number().positive().default(10),
   endpoint: z.string().default('/'),
   agentPort: z.number().positive().default(3000),
+  toolConcurrency: z.number().int().positive().optional(),
+  wrapUpOnMaxIteration: z.boolean().optional(),
+  wrapUpPrompt: z.string().min(1).optional(),
+  /** Tools (names or globs) whose transient failures are retried up to mcpMaxRetries times; others are not retried */
+  retryableTools: z.array(z.string().min(1)).optional(),
+  /** Per-tool retry counts, overriding retryableTools and mcpMaxRetries */
+  toolRetries: z.record(z.string(), z.number().int().min(0)).optional(),
+  /** Warn the model about repeated tool calls and loops (on unless false) */
+  loopDetection: z.boolean().optional(),
+  /** How long a session paused for approval can be resumed (ms) */
+  approvalTtl: z.number().int().positive().optional(),
+  approvalAdminPort: z.number().int().positive().optional(),
+  /** Interface the approval admin endpoint binds to (loopback when unset) */
+  approvalAdminHost: z.string().min(1).optional(),
+  approvalAdminToken: z.string().min(1).optional(),
+  /** Cache TTL (ms) per idempotent tool name or glob; unlisted tools are never cached */
+  toolCacheTtls: z.record(z.string(), z.number().int().min(0)).optional(),
+  toolCacheMaxEntries: z.number().int().positive().optional(),
+  /** Document attachments up to this many characters go into the prompt whole; larger ones are paged */
+  attachmentInlineChars: z.number().int().positive().optional(),
+  attachmentPageChars: z.number().int().positive().optional(),
+  /** Hosts (exact or "*.example.com") URL attachments and audio may be downloaded from; any public host when unset */
+  attachmentAllowedHosts: z.array(z.string().min(1)).optional(),
+  /** How deep sub-agents may delegate further (1: only the main agent delegates) */
+  subAgentMaxDepth: z.number().int().positive().optional(),
+});
+
+export const structuredOutputConfigSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Structured output name must be 1-64 letters, digits, _ or -').default('response'),
+  schema: z.record(z.string(), z.unknown()),
+  strict: z.boolean().default(true),
+  maxRepairAttempts: z.number().int().min(0).default(2),
+});
+
+/**
+ * Tool scoping for an agent: names or globs (* and ?) to allow or deny, a read-only mode
+ * that only exposes tools listed in readOnlyTools, and tools that need human approval. Deny wins over allow
+ */
+export const toolPolicySchema = z.object({
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional(),
+  readOnlyTools: z.array(z.string().min(1)).optional(),
+  readOnly: z.boolean().optional(),
+  /** Sensitive tools (deletes, payments, outbound messages) that pause the session for approval */
+  requireApproval: z.array(z.string().min(1)).optional(),
+  /** Sender ids allowed to approve or reject paused calls by message (never the requester) */
+  approvers: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * Spoken replies for voice channels: 'attach' adds audio to the text response, 'replace'
+ * returns audio instead. Voice and format fall back to TTS_VOICE and TTS_FORMAT
+ */
+export const speechConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  voice: z.string().min(1).optional(),
+  format: z.enum(['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm']).optional(),
+  mode: z.enum(['attach', 'replace']).default('attach'),
+});
+
+/**
+ * Plan-and-execute mode: the agent first writes a step plan, runs each step through the
+ * tool loop (up to stepMaxIterations, default DISPATCH_SESSION_MAX_ITERATION), and revises
+ * the remaining plan when a step fails, up to maxRevisions times
+ */
+export const planningConfigSchema = z.object({
+  maxSteps: z.number().int().positive().default(6),
+  maxRevisions: z.number().int().min(0).default(2),
+  stepMaxIterations: z.number().int().positive().optional(),
+});
+
+/**
+ * Self-critique before the final answer is returned: a reviewer model (default: the
+ * agent's model) checks the draft against the request and tool results, within its own
+ * completion cap, and either approves it or sends notes back for one more revision round
+ */
+export const reviewConfigSchema = z.object({
+  model: z.string().min(1).optional(),
+  maxTokens: z.number().int().positive().default(512),
+});
+
+/**
+ * Per-agent overrides keyed by Cubicler agent identifier ('*' applies to any agent without its own entry)
+ */
+export const agentProfileSchema = z.object({
+  structuredOutput: structuredOutputConfigSchema.optional(),
+  toolPolicy: toolPolicySchema.optional(),
+  speech: speechConfigSchema.optional(),
+  planning: planningConfigSchema.optional(),
+  review: reviewConfigSchema.optional(),
+});
+
+export const agentProfilesSchema = z.record(z.string(), agentProfileSchema);
+
+/**
+ * A sub-agent the main agent can delegate tasks to through delegate_to_agent: its own
+ * prompt, optional model and iteration budget, and the tools (names or globs) it may use
+ * out of those available to the delegating agent
+ */
+export const subAgentSchema = z.object({
+  description: z.string().min(1),
+  prompt: z.string().min(1),
+  model: z.string().min(1).optional(),
+  tools: z.array(z.string().min(1)).optional(),
+  maxIterations: z.number().int().positive().optional(),
 });
 
+export const subAgentsSchema = z.record(
+  z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Sub-agent name must be 1-64 letters, digits, _ or -'),
+  subAgentSchema
+);
+
 export const configSchema = z.object({
   openai: openAIConfigSchema,
   transport: transportConfigSchema,
   memory: memoryConfigSchema,
   dispatch: dispatchConfigSchema,
   jwt: jwtConfigSchema,
+  agents: agentProfilesSchema.optional(),
+  subAgents: subAgentsSchema.optional(),
 });
 
+/**
+ * Parse an optional integer environment variable, leaving it undefined when unset
+ */
+function parseOptionalInt(value: string | undefined): number | undefined {
+  return value ? parseInt(value) : undefined;
+}
+
+/**
+ * Parse an optional float environment variable, leaving it undefined when unset
+ */
+function parseOptionalFloat(value: string | undefined): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+/**
+ * Parse an optional boolean environment variable, leaving it undefined when unset
+ */
+function parseOptionalBoolean(value: string | undefined): boolean | undefined {
+  return value ? value === 'true' : undefined;
+}
+
+/**
+ * Parse an optional comma-separated list, leaving it undefined when unset
+ */
+function parseOptionalList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse an optional list of name=count pairs (e.g. "createOrder=0,search=5"), leaving it undefined when unset
+ */
+function parseOptionalCountMap(value: string | undefined): Record<string, number> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map((entry) => entry.split('=').map((part) => part.trim()))
+      .filter(([name, count]) => name && count)
+      .map(([name, count]) => [name, parseInt(count as string)])
+  );
+}
+
+/**
+ * Parse an optional list of name=value pairs (e.g. "gpt-4o-mini=mini-prod,o3-mini=o3"), leaving it undefined when unset
+ */
+function parseOptionalStringMap(value: string | undefined): Record<string, string> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map((entry) => entry.split('=').map((part) => part.trim()))
+      .filter(([name, mapped]) => name && mapped)
+      .map(([name, mapped]) => [name as string, mapped as string])
+  );
+}
+
+/**
+ * Parse an optional fallback chain of models, each optionally on another endpoint
+ * (e.g. "gpt-4o-mini,gpt-4o@https://backup.example.com/v1"), leaving it undefined when unset
+ */
+function parseOptionalFallbackModels(value: string | undefined): Array<{ model: string; baseURL?: string }> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('@');
+      return separator < 0
+        ? { model: entry }
+        : { model: entry.slice(0, separator).trim(), baseURL: entry.slice(separator + 1).trim() };
+    });
+}
+
+/**
+ * Read an optional JSON settings file (AGENT_PROFILES_PATH, OPENAI_MODELS_PATH, SUB_AGENTS_PATH)
+ */
+function loadJsonFile(path: string | undefined, label: string): unknown {
+  if (!path) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${label} from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Collect AZURE_OPENAI_* variables, leaving the section undefined when Azure is not configured
+ */
+function loadAzureConfig(): Record<string, unknown> | undefined {
+  const endpoint = process.env['AZURE_OPENAI_ENDPOINT'];
+  const deployment = process.env['AZURE_OPENAI_DEPLOYMENT'];
+  if (!endpoint && !deployment) {
+    return undefined;
+  }
+  return {
+    endpoint,
+    apiVersion: process.env['AZURE_OPENAI_API_VERSION'] || undefined,
+    deployment,
+    summarizerDeployment: process.env['AZURE_OPENAI_SUMMARIZER_DEPLOYMENT'] || undefined,
+    modelDeployments: parseOptionalStringMap(process.env['AZURE_OPENAI_MODEL_DEPLOYMENTS']),
+    apiKey: process.env['AZURE_OPENAI_API_KEY'] || undefined,
+    adToken: process.env['AZURE_OPENAI_AD_TOKEN'] || undefined,
+    tenantId: process.env['AZURE_TENANT_ID'] || undefined,
+    clientId: process.env['AZURE_CLIENT_ID'] || undefined,
+    clientSecret: process.env['AZURE_CLIENT_SECRET'] || undefined,
+    managedIdentity: parseOptionalBoolean(process.env['AZURE_OPENAI_MANAGED_IDENTITY']),
+  };
+}
+
 /**
  * Load and validate environment configuration
  */
 export function loadConfig() {
   const config = {
     openai: {
+      provider: process.env['OPENAI_PROVIDER'] || undefined,
       apiKey: process.env['OPENAI_API_KEY'] || '',
       model: process.env['OPENAI_MODEL'] || 'gpt-4o',
       temperature: parseFloat(process.env['OPENAI_TEMPERATURE'] || '0.7'),
-      sessionMaxTokens: parseInt(process.env['OPENAI_SESSION_MAX_TOKENS'] || '4096'),
+      sessionMaxTokens: parseOptionalInt(process.env['OPENAI_SESSION_MAX_TOKENS']),
+      maxCompletionTokens: parseOptionalInt(process.env['OPENAI_MAX_COMPLETION_TOKENS']),
       organization: process.env['OPENAI_ORG_ID'] || undefined,
       project: process.env['OPENAI_PROJECT_ID'] || undefined,
       baseURL: process.env['OPENAI_BASE_URL'] || undefined,
       timeout: parseInt(process.env['OPENAI_TIMEOUT'] || '600000'),
       maxRetries: parseInt(process.env['OPENAI_MAX_RETRIES'] || '2'),
       summarizerModel: process.env['OPENAI_SUMMARIZER_MODEL'] || undefined,
+      stream: process.env['OPENAI_STREAM'] === 'true',
+      contextStrategy: process.env['OPENAI_CONTEXT_STRATEGY'] || undefined,
+      contextThreshold: parseOptionalFloat(process.env['OPENAI_CONTEXT_THRESHOLD']),
+      reasoningEffort: process.env['OPENAI_REASONING_EFFORT'] || undefined,
+      azure: loadAzureConfig(),
+      models: loadJsonFile(process.env['OPENAI_MODELS_PATH'], 'model registry'),
+      transcriptionProvider: process.env['TRANSCRIPTION_PROVIDER'] || undefined,
+      transcriptionModel: process.env['TRANSCRIPTION_MODEL'] || undefined,
+      transcriptionBaseURL: process.env['TRANSCRIPTION_BASE_URL'] || undefined,
+      ttsProvider: process.env['TTS_PROVIDER'] || undefined,
+      ttsModel: process.env['TTS_MODEL'] || undefined,
+      ttsBaseURL: process.env['TTS_BASE_URL'] || undefined,
+      ttsVoice: process.env['TTS_VOICE'] || undefined,
+      ttsFormat: process.env['TTS_FORMAT'] || undefined,
+      fallbackModels: parseOptionalFallbackModels(process.env['OPENAI_FALLBACK_MODELS']),
+      fallbackMaxWait: parseOptionalInt(process.env['OPENAI_FALLBACK_MAX_WAIT']),
+      rpmLimits: parseOptionalCountMap(process.env['OPENAI_RPM_LIMITS']),
+      tpmLimits: parseOptionalCountMap(process.env['OPENAI_TPM_LIMITS']),
+      rateLimitMaxWait: parseOptionalInt(process.env['OPENAI_RATE_LIMIT_MAX_WAIT']),
+      rateLimitMaxQueue: parseOptionalInt(process.env['OPENAI_RATE_LIMIT_MAX_QUEUE']),
     },
     transport: {
       mode: (process.env['TRANSPORT_MODE'] as 'http' | 'stdio' | 'sse') || 'http',
@@ -133,6 +459,22 @@ export function loadConfig() {
       sessionMaxIteration: parseInt(process.env['DISPATCH_SESSION_MAX_ITERATION'] || '10'),
       endpoint: process.env['DISPATCH_ENDPOINT'] || '/',
       agentPort: parseInt(process.env['AGENT_PORT'] || '3000'),
+      toolConcurrency: parseOptionalInt(process.env['DISPATCH_TOOL_CONCURRENCY']),
+      wrapUpOnMaxIteration: parseOptionalBoolean(process.env['DISPATCH_WRAP_UP_ON_MAX_ITERATION']),
+      wrapUpPrompt: process.env['DISPATCH_WRAP_UP_PROMPT'] || undefined,
+      retryableTools: parseOptionalList(process.env['MCP_RETRYABLE_TOOLS']),
+      toolRetries: parseOptionalCountMap(process.env['MCP_TOOL_RETRIES']),
+      loopDetection: parseOptionalBoolean(process.env['DISPATCH_LOOP_DETECTION']),
+      approvalTtl: parseOptionalInt(process.env['DISPATCH_APPROVAL_TTL']),
+      approvalAdminPort: parseOptionalInt(process.env['APPROVAL_ADMIN_PORT']),
+      approvalAdminHost: process.env['APPROVAL_ADMIN_HOST'] || undefined,
+      approvalAdminToken: process.env['APPROVAL_ADMIN_TOKEN'] || undefined,
+      toolCacheTtls: parseOptionalCountMap(process.env['TOOL_CACHE_TTLS']),
+      toolCacheMaxEntries: parseOptionalInt(process.env['TOOL_CACHE_MAX_ENTRIES']),
+      attachmentInlineChars: parseOptionalInt(process.env['ATTACHMENT_INLINE_MAX_CHARS']),
+      attachmentPageChars: parseOptionalInt(process.env['ATTACHMENT_PAGE_CHARS']),
+      attachmentAllowedHosts: parseOptionalList(process.env['ATTACHMENT_ALLOWED_HOSTS']),
+      subAgentMaxDepth: parseOptionalInt(process.env['SUB_AGENT_MAX_DEPTH']),
     },
     jwt: {
       enabled: process.env['JWT_ENABLED'] === 'true',
@@ -153,7 +495,9 @@ export function loadConfig() {
       issuer: process.env['JWT_ISSUER'] || undefined,
       audience: process.env['JWT_AUDIENCE'] || undefined,
       ignoreExpiration: process.env['JWT_IGNORE_EXPIRATION'] === 'true',
-    }
+    },
+    agents: loadJsonFile(process.env['AGENT_PROFILES_PATH'], 'agent profiles'),
+    subAgents: loadJsonFile(process.env['SUB_AGENTS_PATH'], 'sub-agents'),
   };
 
   // Validate the configuration
@@ -162,7 +506,20 @@ export function loadConfig() {
 
 export type Config = z.infer<typeof configSchema>;
 export type OpenAIConfig = z.infer<typeof openAIConfigSchema>;
+export type AzureOpenAIConfig = z.infer<typeof azureOpenAIConfigSchema>;
+export type FallbackModelConfig = z.infer<typeof fallbackModelSchema>;
+export type ModelCapabilityOverrides = z.infer<typeof modelCapabilitiesSchema>;
+export type ModelRegistryOverrides = z.infer<typeof modelRegistrySchema>;
 export type TransportConfig = z.infer<typeof transportConfigSchema>;
 export type MemoryConfig = z.infer<typeof memoryConfigSchema>;
 export type DispatchConfig = z.infer<typeof dispatchConfigSchema>;
 export type JWTConfig = z.infer<typeof jwtConfigSchema>;
+export type StructuredOutputConfig = z.infer<typeof structuredOutputConfigSchema>;
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+export type SpeechConfig = z.infer<typeof speechConfigSchema>;
+export type PlanningConfig = z.infer<typeof planningConfigSchema>;
+export type ReviewConfig = z.infer<typeof reviewConfigSchema>;
+export type AgentProfile = z.infer<typeof agentProfileSchema>;
+export type AgentProfiles = z.infer<typeof agentProfilesSchema>;
+export type SubAgentConfig = z.infer<typeof subAgentSchema>;
+export type SubAgents = z.infer<typeof subAgentsSchema>;
@@ -0,0 +1,117 @@
+import type { ModelRegistryOverrides } from './environment.js';
+
+/**
+ * Model Registry
+ * Capabilities and parameter quirks per model id, used to shape each request.
+ * Unknown ids (fine-tunes, newer families, local models) are accepted: fine-tunes
+ * inherit their base model, dated snapshots their family, and anything else gets
+ * conservative defaults unless declared via OPENAI_MODELS_PATH.
+ */
+
+export interface ModelCapabilities {
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  /** Accepts input_audio message parts (otherwise audio is transcribed first) */
+  supportsAudioInput: boolean;
+  supportsJsonSchema: boolean;
+  supportsTemperature: boolean;
+  /** Reasoning models take max_completion_tokens instead of max_tokens */
+  usesMaxCompletionTokens: boolean;
+  supportsReasoningEffort: boolean;
+  /** Role used for system instructions ('developer' for reasoning models, 'user' where neither is accepted) */
+  systemRole: 'system' | 'developer' | 'user';
+}
+
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  contextWindow: 8192,
+  maxOutputTokens: 4096,
+  supportsTools: true,
+  supportsVision: false,
+  supportsAudioInput: false,
+  supportsJsonSchema: false,
+  supportsTemperature: true,
+  usesMaxCompletionTokens: false,
+  supportsReasoningEffort: false,
+  systemRole: 'system',
+};
+
+const REASONING_MODEL: ModelCapabilities = {
+  contextWindow: 200000,
+  maxOutputTokens: 100000,
+  supportsTools: true,
+  supportsVision: true,
+  supportsAudioInput: false,
+  supportsJsonSchema: true,
+  supportsTemperature: false,
+  usesMaxCompletionTokens: true,
+  supportsReasoningEffort: true,
+  systemRole: 'developer',
+};
+
+const CHAT_MODEL: ModelCapabilities = {
+  ...DEFAULT_MODEL_CAPABILITIES,
+  supportsVision: true,
+  supportsJsonSchema: true,
+};
+
+const KNOWN_MODELS: Record<string, ModelCapabilities> = {
+  'o1': REASONING_MODEL,
+  'o1-mini': { ...REASONING_MODEL, contextWindow: 128000, maxOutputTokens: 65536, supportsTools: false, supportsVision: false, supportsJsonSchema: false, supportsReasoningEffort: false, systemRole: 'user' },
+  'o1-preview': { ...REASONING_MODEL, contextWindow: 128000, maxOutputTokens: 32768, supportsTools: false, supportsVision: false, supportsJsonSchema: false, supportsReasoningEffort: false, systemRole: 'user' },
+  'o3': REASONING_MODEL,
+  'o3-mini': { ...REASONING_MODEL, supportsVision: false },
+  'o4-mini': REASONING_MODEL,
+  'gpt-4.1': { ...CHAT_MODEL, contextWindow: 1047576, maxOutputTokens: 32768 },
+  'gpt-4.1-mini': { ...CHAT_MODEL, contextWindow: 1047576, maxOutputTokens: 32768 },
+  'gpt-4.1-nano': { ...CHAT_MODEL, contextWindow: 1047576, maxOutputTokens: 32768 },
+  'gpt-4o': { ...CHAT_MODEL, contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4o-mini': { ...CHAT_MODEL, contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4o-audio-preview': { ...CHAT_MODEL, contextWindow: 128000, maxOutputTokens: 16384, supportsVision: false, supportsJsonSchema: false, supportsAudioInput: true },
+  'gpt-4o-mini-audio-preview': { ...CHAT_MODEL, contextWindow: 128000, maxOutputTokens: 16384, supportsVision: false, supportsJsonSchema: false, supportsAudioInput: true },
+  'gpt-4-turbo': { ...CHAT_MODEL, contextWindow: 128000, maxOutputTokens: 4096, supportsJsonSchema: false },
+  'gpt-4-turbo-preview': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4-0125-preview': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4-1106-preview': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4-vision-preview': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 128000, maxOutputTokens: 4096, supportsTools: false, supportsVision: true },
+  'gpt-4': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 8192, maxOutputTokens: 8192 },
+  'gpt-3.5-turbo': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 16385, maxOutputTokens: 4096 },
+  'gpt-3.5-turbo-16k': { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 16385, maxOutputTokens: 4096 },
+};
+
+/**
+ * Resolve the capabilities of a model id, applying declared overrides on top
+ */
+export function resolveModelCapabilities(model: string, declared?: ModelRegistryOverrides): ModelCapabilities {
+  const baseModel = findKnownModel(model);
+  const overrides = Object.fromEntries(
+    Object.entries(declared?.[model] ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<ModelCapabilities>;
+  return {
+    ...DEFAULT_MODEL_CAPABILITIES,
+    ...(baseModel && KNOWN_MODELS[baseModel]),
+    ...overrides,
+  };
+}
+
+/**
+ * Whether the registry knows the model, either built in or declared
+ */
+export function isKnownModel(model: string, declared?: ModelRegistryOverrides): boolean {
+  return Boolean(declared?.[model]) || findKnownModel(model) !== undefined;
+}
+
+/**
+ * Find the built-in entry for a model id: exact match, fine-tune base
+ * (ft:<base>:<org>::<id>) or the longest known family prefix (dated snapshots)
+ */
+function findKnownModel(model: string): string | undefined {
+  const id = model.startsWith('ft:') ? (model.split(':')[1] ?? model) : model;
+  if (KNOWN_MODELS[id]) {
+    return id;
+  }
+  return Object.keys(KNOWN_MODELS)
+    .filter((known) => id.startsWith(`${known}-`))
+    .sort((a, b) => b.length - a.length)[0];
+}
@@ -0,0 +1,130 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+import { toApprovalSummary, type ApprovalManager } from './approval-manager.js';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DECISION_ROUTE = /^\/approvals\/([^/]+)\/(approve|reject)$/;
+const DEFAULT_HOST = '127.0.0.1';
+
+export interface ApprovalAdminServerOptions {
+  port: number;
+  /** Interface to bind; loopback only unless set */
+  host?: string;
+  /** Bearer token required on every request */
+  token: string;
+}
+
+/**
+ * ApprovalAdminServer
+ * Small HTTP endpoint for approvers, separate from the Cubicler transport:
+ * - GET  /approvals                  list sessions awaiting approval
+ * - POST /approvals/:id/approve      approve the proposed tool calls
+ * - POST /approvals/:id/reject       reject them, optional JSON body { "reason": "..." }
+ * A decided session resumes on the next message from the same conversation.
+ * Every request needs the bearer token, and the server binds to loopback unless a host is set.
+ */
+export class ApprovalAdminServer {
+  private readonly approvalManager: ApprovalManager;
+  private readonly options: ApprovalAdminServerOptions;
+  private readonly logger: Logger;
+  private server: Server | undefined;
+
+  constructor(approvalManager: ApprovalManager, options: ApprovalAdminServerOptions, logger?: Logger) {
+    this.approvalManager = approvalManager;
+    this.options = options;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  async start(): Promise<void> {
+    if (!this.options.token) {
+      throw new Error('Approval admin endpoint requires a token');
+    }
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        this.logger.error(`❌ Approval admin request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        this.sendJson(response, 500, { error: 'Internal error' });
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host ?? DEFAULT_HOST, () => resolve());
+    });
+    this.logger.info(`📝 Approval admin endpoint listening on ${this.options.host ?? DEFAULT_HOST}:${this.getPort()}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Port actually bound (useful when started with port 0)
+   */
+  getPort(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.headers.authorization !== `Bearer ${this.options.token}`) {
+      this.sendJson(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const path = (request.url ?? '/').split('?')[0];
+    if (request.method === 'GET' && path === '/approvals') {
+      const pending = await this.approvalManager.listPending();
+      this.sendJson(response, 200, { approvals: pending.map(toApprovalSummary) });
+      return;
+    }
+
+    const match = request.method === 'POST' ? DECISION_ROUTE.exec(path ?? '') : null;
+    if (!match) {
+      this.sendJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    const [, id, action] = match;
+    const body = await this.readJsonBody(request);
+    const reason = typeof body['reason'] === 'string' && body['reason'] ? body['reason'] : undefined;
+    const approval = await this.approvalManager.decide(decodeURIComponent(id ?? ''), action === 'approve', reason);
+    if (!approval) {
+      this.sendJson(response, 404, { error: `No pending approval ${id}` });
+      return;
+    }
+    this.sendJson(response, 200, { id: approval.id, decision: approval.decision });
+  }
+
+  private async readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    let raw = '';
+    for await (const chunk of request) {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        throw new Error('Request body too large');
+      }
+    }
+    if (!raw.trim()) {
+      return {};
+    }
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
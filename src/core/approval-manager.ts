@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto';
+import type { AgentRequest } from '@cubicler/cubicagentkit';
+import type { ChatCompletionMessageToolCall } from 'openai/resources/chat/completions.js';
+import type { ApprovalStore } from '../models/interfaces.js';
+import type { ApprovalDecision, OpenAIResponse, PendingApproval, PendingApprovalSummary, SessionState } from '../models/types.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+import { InMemoryApprovalStore } from './approval-store.js';
+
+const DEFAULT_APPROVAL_TTL_MS = 60 * 60 * 1000;
+const APPROVAL_COMMAND_PATTERN = /^\s*(approve|reject)\s+([a-f0-9]{8})\b\s*(.*)$/is;
+
+/**
+ * ApprovalManager
+ * Pauses sessions whose next tool calls need human approval and hands them back
+ * for resumption once a decision arrives. Decisions come from the admin endpoint or
+ * from an approver's message ("approve <id>" / "reject <id> <reason>"); approvers are
+ * configured senders other than the requester. The session resumes on the next message
+ * from the requesting conversation; requests without a sender (triggers) have no
+ * conversation to resume and are never paused. A decision, once recorded, is final.
+ */
+export class ApprovalManager {
+  private readonly store: ApprovalStore;
+  private readonly logger: Logger;
+  private readonly ttlMs: number;
+
+  constructor(store?: ApprovalStore, logger?: Logger, ttlMs: number = DEFAULT_APPROVAL_TTL_MS) {
+    this.store = store ?? new InMemoryApprovalStore();
+    this.logger = logger ?? createLogger({ silent: true });
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Persist a paused session awaiting approval of the given tool calls
+   */
+  async createPending(
+    request: AgentRequest,
+    sessionState: SessionState,
+    pendingResponse: OpenAIResponse,
+    toolCalls: ChatCompletionMessageToolCall[]
+  ): Promise<PendingApproval> {
+    // The deadline signal belongs to the dispatch that paused; resumption sets a new one
+    const state: SessionState = { ...sessionState };
+    delete state.signal;
+    const conversationKey = getConversationKey(request);
+    if (!conversationKey) {
+      throw new Error('Sessions without a requester cannot be paused for approval');
+    }
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: randomUUID().slice(0, 8),
+      conversationKey,
+      pendingResponse,
+      toolCalls,
+      sessionState: state,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+    await this.store.save(approval);
+    return approval;
+  }
+
+  /**
+   * Record an approver's decision (admin endpoint); returns undefined for unknown, expired
+   * or already decided ids
+   */
+  async decide(id: string, approved: boolean, reason?: string): Promise<PendingApproval | undefined> {
+    const approval = await this.store.get(id);
+    if (!approval || this.isExpired(approval) || this.isDecided(approval)) {
+      return undefined;
+    }
+    approval.decision = { approved, source: 'admin', ...(reason && { reason }) };
+    await this.store.save(approval);
+    this.logger.info(`📝 Approval ${id} ${approved ? 'granted' : 'rejected'} via admin endpoint`);
+    return approval;
+  }
+
+  /**
+   * Record a decision from an approver's "approve <id>" / "reject <id> <reason>" message.
+   * Only senders listed as approvers count, never the requester of the paused session;
+   * returns undefined when the message is not such a decision or the approval was already decided
+   */
+  async decideFromMessage(request: AgentRequest, approvers: string[]): Promise<PendingApproval | undefined> {
+    const command = parseApprovalCommand(getLatestMessageText(request));
+    if (!command) {
+      return undefined;
+    }
+    const approval = await this.store.get(command.id);
+    if (!approval || this.isExpired(approval) || !approval.conversationKey.startsWith(`${request.agent.identifier}:`)) {
+      return undefined;
+    }
+    const senderId = getSenderId(request);
+    if (!senderId || !approvers.includes(senderId) || approval.conversationKey === getConversationKey(request)) {
+      this.logger.warn(`✋ Ignoring decision on approval ${approval.id} from ${senderId ?? 'unknown sender'}, who is not an approver for it`);
+      return undefined;
+    }
+    if (this.isDecided(approval)) {
+      return undefined;
+    }
+    approval.decision = { approved: command.approved, source: 'message', approver: senderId, ...(command.reason && { reason: command.reason }) };
+    await this.store.save(approval);
+    this.logger.info(`📝 Approval ${approval.id} ${command.approved ? 'granted' : 'rejected'} by ${senderId}`);
+    return approval;
+  }
+
+  /**
+   * Find a decided session this request resumes: one paused in the same conversation.
+   * It is removed from the store
+   */
+  async takeResumable(request: AgentRequest): Promise<PendingApproval | undefined> {
+    const conversationKey = getConversationKey(request);
+    if (!conversationKey) {
+      return undefined;
+    }
+    const resumable = (await this.listPending())
+      .find((approval) => approval.conversationKey === conversationKey && approval.decision);
+    if (resumable) {
+      await this.store.delete(resumable.id);
+    }
+    return resumable;
+  }
+
+  /**
+   * Sessions still awaiting resumption; expired ones are dropped
+   */
+  async listPending(): Promise<PendingApproval[]> {
+    const approvals = await this.store.list();
+    const expired = approvals.filter((approval) => this.isExpired(approval));
+    for (const approval of expired) {
+      this.logger.warn(`⚠️ Approval ${approval.id} expired without a decision`);
+      await this.store.delete(approval.id);
+    }
+    return approvals.filter((approval) => !this.isExpired(approval));
+  }
+
+  private isExpired(approval: PendingApproval): boolean {
+    return approval.expiresAt <= Date.now();
+  }
+
+  private isDecided(approval: PendingApproval): boolean {
+    if (approval.decision) {
+      this.logger.warn(`✋ Ignoring decision on approval ${approval.id}, which was already ${approval.decision.approved ? 'granted' : 'rejected'}`);
+      return true;
+    }
+    return false;
+  }
+}
+
+export function toApprovalSummary(approval: PendingApproval): PendingApprovalSummary {
+  return {
+    id: approval.id,
+    expiresAt: new Date(approval.expiresAt).toISOString(),
+    toolCalls: approval.toolCalls.map((toolCall) => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+    })),
+  };
+}
+
+/**
+ * Parse "approve <id>" or "reject <id> [reason]" from an approver's message
+ */
+export function parseApprovalCommand(text: string | undefined): (Pick<ApprovalDecision, 'approved' | 'reason'> & { id: string }) | undefined {
+  const match = text ? APPROVAL_COMMAND_PATTERN.exec(text) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [, verb, id, rest] = match;
+  const reason = rest?.trim();
+  return {
+    approved: verb?.toLowerCase() === 'approve',
+    id: (id ?? '').toLowerCase(),
+    ...(reason && { reason }),
+  };
+}
+
+/**
+ * Conversation a request belongs to: the agent plus the sender of the latest message,
+ * or undefined for requests without a sender (triggers)
+ */
+export function getConversationKey(request: AgentRequest): string | undefined {
+  const senderId = getSenderId(request);
+  return senderId ? `${request.agent.identifier}:${senderId}` : undefined;
+}
+
+/**
+ * Whether a paused session of this request could be resumed by its requester's next message
+ */
+export function canPauseForApproval(request: AgentRequest): boolean {
+  return getConversationKey(request) !== undefined;
+}
+
+function getSenderId(request: AgentRequest): string | undefined {
+  const messages = Array.isArray(request.messages) ? request.messages : [];
+  return messages.at(-1)?.sender?.id || undefined;
+}
+
+function getLatestMessageText(request: AgentRequest): string | undefined {
+  const messages = Array.isArray(request.messages) ? request.messages : [];
+  const latest = messages.at(-1);
+  return latest && (latest.type ?? 'text') === 'text' && typeof latest.content === 'string' ? latest.content : undefined;
+}
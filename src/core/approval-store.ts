@@ -0,0 +1,26 @@
+import type { ApprovalStore } from '../models/interfaces.js';
+import type { PendingApproval } from '../models/types.js';
+
+/**
+ * InMemoryApprovalStore
+ * Default ApprovalStore: paused sessions live in this process and are lost on restart
+ */
+export class InMemoryApprovalStore implements ApprovalStore {
+  private readonly approvals = new Map<string, PendingApproval>();
+
+  async save(approval: PendingApproval): Promise<void> {
+    this.approvals.set(approval.id, approval);
+  }
+
+  async get(id: string): Promise<PendingApproval | undefined> {
+    return this.approvals.get(id);
+  }
+
+  async list(): Promise<PendingApproval[]> {
+    return [...this.approvals.values()];
+  }
+
+  async delete(id: string): Promise<void> {
+    this.approvals.delete(id);
+  }
+}
@@ -0,0 +1,34 @@
+import type { DocumentAttachment } from '../models/types.js';
+
+const DEFAULT_MAX_ATTACHMENTS = 100;
+
+/**
+ * AttachmentStore
+ * Extracted document attachments, keyed by a hash of their content so a document
+ * repeated in later conversation history is not extracted again. The oldest
+ * attachments are dropped beyond maxAttachments.
+ */
+export class AttachmentStore {
+  private readonly attachments = new Map<string, DocumentAttachment>();
+  private readonly maxAttachments: number;
+
+  constructor(maxAttachments: number = DEFAULT_MAX_ATTACHMENTS) {
+    this.maxAttachments = maxAttachments;
+  }
+
+  save(attachment: DocumentAttachment): void {
+    this.attachments.delete(attachment.id);
+    this.attachments.set(attachment.id, attachment);
+    while (this.attachments.size > this.maxAttachments) {
+      const oldest = this.attachments.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.attachments.delete(oldest);
+    }
+  }
+
+  get(id: string): DocumentAttachment | undefined {
+    return this.attachments.get(id);
+  }
+}
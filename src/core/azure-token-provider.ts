@@ -0,0 +1,95 @@
+import { URL, URLSearchParams } from 'url';
+import type { AzureOpenAIConfig } from '../config/environment.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+
+const COGNITIVE_SERVICES_RESOURCE = 'https://cognitiveservices.azure.com';
+const MANAGED_IDENTITY_ENDPOINT = 'http://169.254.169.254/metadata/identity/oauth2/token';
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = 30000;
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * AzureADTokenProvider
+ * Microsoft Entra ID tokens for Azure OpenAI, fetched with a client secret (client
+ * credentials flow) or from the managed identity endpoint. The token is cached and
+ * fetched again once it is within five minutes of expiring; concurrent callers share
+ * one in-flight request.
+ */
+export class AzureADTokenProvider {
+  private readonly azureConfig: AzureOpenAIConfig;
+  private readonly logger: Logger;
+  private cached: CachedToken | undefined;
+  private pending: Promise<CachedToken> | undefined;
+
+  constructor(azureConfig: AzureOpenAIConfig, logger?: Logger) {
+    this.azureConfig = azureConfig;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  async getToken(): Promise<string> {
+    if (this.cached && this.cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return this.cached.token;
+    }
+    this.pending ??= this.fetchToken().finally(() => {
+      this.pending = undefined;
+    });
+    this.cached = await this.pending;
+    return this.cached.token;
+  }
+
+  private async fetchToken(): Promise<CachedToken> {
+    const { tenantId, clientId, clientSecret } = this.azureConfig;
+    const signal = AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS);
+    let response: Awaited<ReturnType<typeof globalThis.fetch>>;
+    if (clientSecret && tenantId && clientId) {
+      response = await globalThis.fetch(`https://login.microsoftonline.com/${encodeURIComponent(tenantId)}/oauth2/v2.0/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'client_credentials',
+          client_id: clientId,
+          client_secret: clientSecret,
+          scope: `${COGNITIVE_SERVICES_RESOURCE}/.default`,
+        }).toString(),
+        signal,
+      });
+    } else {
+      const url = new URL(MANAGED_IDENTITY_ENDPOINT);
+      url.searchParams.set('api-version', '2018-02-01');
+      url.searchParams.set('resource', COGNITIVE_SERVICES_RESOURCE);
+      if (clientId) {
+        url.searchParams.set('client_id', clientId);
+      }
+      response = await globalThis.fetch(url, { headers: { Metadata: 'true' }, signal });
+    }
+
+    if (!response.ok) {
+      throw new Error(`Azure AD token request failed with status ${response.status}`);
+    }
+    const body = await response.json() as { access_token?: string; expires_in?: number | string };
+    if (!body.access_token) {
+      throw new Error('Azure AD token response has no access_token');
+    }
+    const expiresIn = Number(body.expires_in ?? 3600);
+    this.logger.info(`🔐 Azure AD token refreshed, valid for ${Math.round(expiresIn / 60)} minutes`);
+    return { token: body.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+  }
+}
+
+/**
+ * Token provider for the AzureOpenAI client: refreshing when a client secret or the managed
+ * identity is configured, the fixed AZURE_OPENAI_AD_TOKEN otherwise, or undefined for API keys
+ */
+export function createAzureADTokenProvider(azureConfig: AzureOpenAIConfig, logger?: Logger): (() => Promise<string>) | undefined {
+  if (azureConfig.clientSecret || azureConfig.managedIdentity) {
+    const provider = new AzureADTokenProvider(azureConfig, logger);
+    return () => provider.getToken();
+  }
+  const adToken = azureConfig.adToken;
+  return adToken ? async () => adToken : undefined;
+}
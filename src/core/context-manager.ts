@@ -0,0 +1,206 @@
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions.js';
+import type { OpenAIConfig } from '../config/environment.js';
+import type { ChatCompletionOptions, ContextFitResult } from '../models/types.js';
+import type { ChatProvider } from '../models/interfaces.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+import { estimatePromptTokens, estimateTextTokens, truncateTextToTokens } from '../utils/token-helper.js';
+import { resolveModelCapabilities } from '../config/model-registry.js';
+import { shapeRequestParams } from '../utils/request-params-helper.js';
+
+const DEFAULT_CONTEXT_THRESHOLD = 0.9;
+const MIN_TOOL_RESULT_TOKENS = 256;
+const DROPPED_TOOL_RESULT = '[tool result removed to free context space]';
+
+/**
+ * ContextManager
+ * Keeps the session prompt inside the model's context window before each OpenAI call
+ *
+ * Strategies (configured via OPENAI_CONTEXT_STRATEGY):
+ * - truncate: shorten the largest tool results, oldest first (default)
+ * - drop: replace older tool results with a short placeholder
+ * - summarize: compact earlier tool turns into a single summary message
+ *
+ * Tool messages are never removed, only rewritten, so every assistant tool_call keeps
+ * its matching tool message. Dropping is applied as a last resort for any strategy.
+ */
+export class ContextManager {
+  private readonly chatProvider: ChatProvider;
+  private readonly openaiConfig: OpenAIConfig;
+  private readonly logger: Logger;
+
+  constructor(chatProvider: ChatProvider, openaiConfig: OpenAIConfig, logger?: Logger) {
+    this.chatProvider = chatProvider;
+    this.openaiConfig = openaiConfig;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  /**
+   * Maximum prompt tokens allowed for the model before a strategy is applied
+   */
+  getPromptBudget(model: string = this.openaiConfig.model): number {
+    const { contextWindow, maxOutputTokens } = resolveModelCapabilities(model, this.openaiConfig.models);
+    const perCallLimit = this.openaiConfig.maxCompletionTokens ?? this.openaiConfig.sessionMaxTokens ?? maxOutputTokens;
+    const completionReserve = Math.min(perCallLimit, maxOutputTokens, Math.floor(contextWindow / 2));
+    const threshold = this.openaiConfig.contextThreshold ?? DEFAULT_CONTEXT_THRESHOLD;
+    return Math.floor((contextWindow - completionReserve) * threshold);
+  }
+
+  /**
+   * Fit the messages into the context window of the model the next call goes to
+   * (OPENAI_MODEL unless a session overrides it). options.signal aborts compaction
+   */
+  async fit(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatCompletionTool[],
+    model: string = this.openaiConfig.model,
+    options: ChatCompletionOptions = {}
+  ): Promise<ContextFitResult> {
+    const budget = this.getPromptBudget(model);
+    const promptTokens = estimatePromptTokens(messages, tools);
+    if (promptTokens <= budget) {
+      return { messages, usedTokens: 0 };
+    }
+
+    const strategy = this.openaiConfig.contextStrategy ?? 'truncate';
+    let fitted = messages;
+    let usedTokens = 0;
+
+    if (strategy === 'summarize') {
+      const compacted = await this.compactEarlierTurns(messages, options);
+      fitted = compacted.messages;
+      usedTokens = compacted.usedTokens;
+    } else if (strategy === 'truncate') {
+      fitted = this.truncateToolResults(messages, tools, budget);
+    }
+
+    if (estimatePromptTokens(fitted, tools) > budget) {
+      fitted = this.dropToolPayloads(fitted, tools, budget);
+    }
+
+    this.logger.info(`✂️ Context trimmed (${strategy}): ~${promptTokens} -> ~${estimatePromptTokens(fitted, tools)} tokens (budget ${budget})`);
+    return { messages: fitted, usedTokens };
+  }
+
+  /**
+   * Shorten tool results oldest-first, trimming only as much as needed to fit
+   */
+  private truncateToolResults(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatCompletionTool[],
+    budget: number
+  ): ChatCompletionMessageParam[] {
+    const result = [...messages];
+
+    for (const [index, message] of result.entries()) {
+      const overflow = estimatePromptTokens(result, tools) - budget;
+      if (overflow <= 0) {
+        break;
+      }
+      if (message.role !== 'tool' || typeof message.content !== 'string') {
+        continue;
+      }
+
+      const currentTokens = estimateTextTokens(message.content);
+      const marker = `... [truncated ~${overflow} tokens]`;
+      const targetTokens = Math.max(MIN_TOOL_RESULT_TOKENS, currentTokens - overflow - estimateTextTokens(marker) - 1);
+      if (targetTokens >= currentTokens) {
+        continue;
+      }
+
+      result[index] = {
+        ...message,
+        content: `${truncateTextToTokens(message.content, targetTokens)}${marker}`,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace older tool results with a placeholder, keeping the latest tool turn intact
+   */
+  private dropToolPayloads(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatCompletionTool[],
+    budget: number
+  ): ChatCompletionMessageParam[] {
+    const result = [...messages];
+    const latestTurnStart = this.findLatestToolTurnStart(result);
+
+    for (const [index, message] of result.entries()) {
+      if (index >= latestTurnStart || estimatePromptTokens(result, tools) <= budget) {
+        break;
+      }
+      if (message.role === 'tool' && message.content !== DROPPED_TOOL_RESULT) {
+        result[index] = { ...message, content: DROPPED_TOOL_RESULT };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Summarize every tool turn except the latest into a single assistant message
+   */
+  private async compactEarlierTurns(messages: ChatCompletionMessageParam[], options: ChatCompletionOptions): Promise<ContextFitResult> {
+    const firstTurnStart = messages.findIndex(
+      (message) => message.role === 'assistant' && Boolean(message.tool_calls?.length)
+    );
+    const latestTurnStart = this.findLatestToolTurnStart(messages);
+    if (firstTurnStart === -1 || firstTurnStart >= latestTurnStart) {
+      return { messages, usedTokens: 0 };
+    }
+
+    const earlierTurns = messages.slice(firstTurnStart, latestTurnStart);
+    try {
+      const params = shapeRequestParams({
+        model: this.openaiConfig.summarizerModel ?? this.openaiConfig.model,
+        messages: [
+          {
+            role: 'system',
+            content: 'Summarize the following tool calls and their results. Keep every fact, identifier and number the assistant may still need; omit everything else.',
+          },
+          {
+            role: 'user',
+            content: JSON.stringify(earlierTurns),
+          },
+        ],
+        temperature: 0.3,
+      }, this.openaiConfig);
+      const response = options.signal
+        ? await this.chatProvider.complete(params, undefined, { signal: options.signal })
+        : await this.chatProvider.complete(params);
+
+      const summary = response.content;
+      if (!summary) {
+        return { messages, usedTokens: 0 };
+      }
+
+      return {
+        messages: [
+          ...messages.slice(0, firstTurnStart),
+          { role: 'assistant', content: `Summary of earlier tool results in this session:\n${summary}` },
+          ...messages.slice(latestTurnStart),
+        ],
+        usedTokens: response.usedTokens,
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      this.logger.warn(`⚠️ Context compaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { messages, usedTokens: 0 };
+    }
+  }
+
+  private findLatestToolTurnStart(messages: ChatCompletionMessageParam[]): number {
+    for (let index = messages.length - 1; index >= 0; index--) {
+      const message = messages[index];
+      if (message?.role === 'assistant' && message.tool_calls?.length) {
+        return index;
+      }
+    }
+    return messages.length;
+  }
+}
@@ -0,0 +1,139 @@
+import { setTimeout as delay } from 'timers/promises';
+import type { ChatProvider } from '../models/interfaces.js';
+import type { ChatCompletionOptions, OpenAIRequestParams, OpenAIResponse } from '../models/types.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+import { shapeRequestParams, type RequestShapingSettings } from '../utils/request-params-helper.js';
+import { getRetryAfterMs, isModelUnavailableError } from '../utils/retry-helper.js';
+
+const DEFAULT_MAX_WAIT_MS = 10000;
+
+/**
+ * A model in the fallback chain, optionally served by its own provider (another endpoint)
+ */
+export interface ChatFallback {
+  model: string;
+  provider?: ChatProvider;
+  /** Name used in logs and cooldown tracking, e.g. "gpt-4o@https://backup.example.com/v1" */
+  label?: string;
+}
+
+export interface FallbackChatProviderOptions {
+  /** Longest Retry-After worth waiting for once every model in the chain is unavailable */
+  maxWaitMs?: number;
+  /** Declared model capabilities and default settings used to reshape the request for each fallback model */
+  requestSettings?: RequestShapingSettings;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+interface ChainEntry {
+  model: string;
+  provider: ChatProvider;
+  label: string;
+}
+
+/**
+ * FallbackChatProvider
+ * ChatProvider that tries an ordered chain of models when the requested one is rate limited,
+ * overloaded, failing with 5xx errors or unreachable. A model answering with Retry-After is
+ * skipped until that time has passed; when the whole chain is unavailable, the shortest
+ * Retry-After is waited out if it is within maxWaitMs. Responses report the model that served
+ * them, and fallback frequency is logged.
+ * The request is reshaped for each fallback model's registry capabilities (token field,
+ * temperature, reasoning effort, system role, tools and content parts).
+ * Errors are only expected before any streamed content, so deltas are not replayed.
+ */
+export class FallbackChatProvider implements ChatProvider {
+  private readonly primary: ChatProvider;
+  private readonly fallbacks: ChatFallback[];
+  private readonly maxWaitMs: number;
+  private readonly requestSettings: RequestShapingSettings;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private readonly logger: Logger;
+  /** Retry-After deadlines (epoch ms) by chain entry label */
+  private readonly cooldowns = new Map<string, number>();
+  private calls = 0;
+  private fallbackCalls = 0;
+
+  constructor(primary: ChatProvider, fallbacks: ChatFallback[], options: FallbackChatProviderOptions = {}, logger?: Logger) {
+    this.primary = primary;
+    this.fallbacks = fallbacks;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.requestSettings = options.requestSettings ?? {};
+    this.sleep = options.sleep ?? ((ms, signal) => delay(ms, undefined, signal ? { signal } : {}));
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  async complete(
+    requestParams: OpenAIRequestParams,
+    onContentDelta?: (delta: string) => void | Promise<void>,
+    options?: ChatCompletionOptions
+  ): Promise<OpenAIResponse> {
+    this.calls++;
+    const chain = this.buildChain(requestParams.model);
+    let lastError: unknown;
+
+    for (let pass = 0; pass < 2; pass++) {
+      for (const [index, entry] of chain.entries()) {
+        if ((this.cooldowns.get(entry.label) ?? 0) > Date.now()) {
+          continue;
+        }
+        try {
+          const entryParams = index === 0
+            ? requestParams
+            : shapeRequestParams({ ...requestParams, model: entry.model }, this.requestSettings);
+          const result = await entry.provider.complete(entryParams, onContentDelta, options);
+          this.cooldowns.delete(entry.label);
+          if (index === 0) {
+            return { ...result, model: entry.model };
+          }
+          this.fallbackCalls++;
+          this.logger.warn(`🔀 ${entry.label} served a call for ${requestParams.model} (${this.fallbackCalls} of ${this.calls} calls used a fallback)`);
+          return { ...result, model: entry.model, fallback: true };
+        } catch (error) {
+          if (options?.signal?.aborted || !isModelUnavailableError(error)) {
+            throw error;
+          }
+          lastError = error;
+          const retryAfterMs = getRetryAfterMs(error);
+          if (retryAfterMs) {
+            this.cooldowns.set(entry.label, Date.now() + retryAfterMs);
+          }
+          const next = chain.slice(index + 1).find((candidate) => (this.cooldowns.get(candidate.label) ?? 0) <= Date.now());
+          this.logger.warn(`⚠️ ${entry.label} unavailable (${error instanceof Error ? error.message : 'Unknown error'})${retryAfterMs ? `, retry after ${retryAfterMs}ms` : ''}${next ? `, falling back to ${next.label}` : ''}`);
+        }
+      }
+
+      const waitMs = this.getShortestCooldown(chain);
+      if (pass > 0 || waitMs === undefined || waitMs > this.maxWaitMs) {
+        break;
+      }
+      this.logger.warn(`⏱️ All models are unavailable, waiting ${waitMs}ms as requested by Retry-After`);
+      await this.sleep(waitMs, options?.signal);
+    }
+
+    throw lastError ?? new Error(`All models are rate limited (${chain.map((entry) => entry.label).join(', ')}); retry later`);
+  }
+
+  /**
+   * The requested model first, then the configured fallbacks (without repeats)
+   */
+  private buildChain(model: string): ChainEntry[] {
+    const chain: ChainEntry[] = [{ model, provider: this.primary, label: model }];
+    for (const fallback of this.fallbacks) {
+      const label = fallback.label ?? fallback.model;
+      if (!chain.some((entry) => entry.label === label)) {
+        chain.push({ model: fallback.model, provider: fallback.provider ?? this.primary, label });
+      }
+    }
+    return chain;
+  }
+
+  private getShortestCooldown(chain: ChainEntry[]): number | undefined {
+    const now = Date.now();
+    const waits = chain
+      .map((entry) => (this.cooldowns.get(entry.label) ?? 0) - now)
+      .filter((wait) => wait > 0);
+    return waits.length > 0 ? Math.min(...waits) : undefined;
+  }
+}
@@ -1,6 +1,6 @@
 import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
 import type { JSONValue } from '../config/types.js';
-import type { InternalTool, InternalToolResult } from '../internal-tools/internal-tool.interface.js';
+import type { InternalTool, InternalToolContext, InternalToolResult } from '../internal-tools/internal-tool.interface.js';
 import type { InternalToolHandling } from '../internal-tools/internal-tool-handler.interface.js';
 import type { Logger } from '../utils/logger.interface.js';
 import { createLogger } from '../utils/pino-logger.js';
@@ -38,11 +38,18 @@ export class InternalToolAggregator implements InternalToolHandling {
     return this.tools.some(tool => tool.canHandle(functionName));
   }
 
+  /**
+   * Whether the tool handling the function has marked itself parallel-safe
+   */
+  isParallelSafe(functionName: string): boolean {
+    return this.tools.find(tool => tool.canHandle(functionName))?.parallelSafe === true;
+  }
+
   /**
    * Execute a function call using the appropriate tool
    * Routes to the first tool that can handle the function
    */
-  async executeFunction(functionName: string, parameters: JSONValue): Promise<InternalToolResult> {
+  async executeFunction(functionName: string, parameters: JSONValue, context?: InternalToolContext): Promise<InternalToolResult> {
     // Find the tool that can handle this function
     const tool = this.tools.find(t => t.canHandle(functionName));
     
@@ -56,7 +63,7 @@ export class InternalToolAggregator implements InternalToolHandling {
 
     try {
       // Execute the function using the appropriate tool
-      return await tool.execute(parameters);
+      return await tool.execute(parameters, context);
     } catch (error) {
       this.logger.error(`❌ Tool execution failed for ${functionName}:`, error);
       return {
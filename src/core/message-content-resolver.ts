@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import type { AgentRequest } from '@cubicler/cubicagentkit';
+import type { TranscriptionProvider } from '../models/interfaces.js';
+import type { ChatCompletionOptions, DocumentAttachment, ResolvedMessageContent } from '../models/types.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+import { getAudioFormat, isNativeAudioFormat, loadAudio } from '../utils/audio-helper.js';
+import { isUrlContent, loadMessageContent, type ContentFetchOptions } from '../utils/content-helper.js';
+import { extractDocumentText, getDocumentFormat, isTextDocumentFormat, paginateText } from '../utils/document-helper.js';
+import { AttachmentStore } from './attachment-store.js';
+
+const DEFAULT_INLINE_CHARS = 12000;
+const DEFAULT_PAGE_CHARS = 4000;
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+/** Prepared audio messages kept for conversation history re-sent on later dispatches */
+const MAX_CACHED_AUDIO = 50;
+
+type RequestMessage = NonNullable<AgentRequest['messages']>[number];
+
+export interface MessageContentResolverOptions {
+  transcriptionProvider?: TranscriptionProvider;
+  attachmentStore?: AttachmentStore;
+  /** Documents up to this many characters are included whole */
+  inlineChars?: number;
+  /** Page size for larger documents, read through attachment_read_page */
+  pageChars?: number;
+  /** Hosts URL content may be downloaded from; any public host when unset */
+  allowedHosts?: string[];
+}
+
+/**
+ * MessageContentResolver
+ * Prepares file-like messages before a session starts, for buildOpenAIMessages:
+ * - audio: URL audio is downloaded for audio-capable models, other models get a transcript
+ * - documents (PDF, DOCX, CSV, Markdown, text): text is extracted locally and paginated
+ * Prepared audio and documents are keyed by a hash of their content, so messages repeated
+ * in later conversation history are not downloaded, transcribed or extracted again.
+ * Messages that cannot be prepared are left to their plain envelope.
+ * Downloads are bounded by the session signal, a size cap and the allowed hosts.
+ */
+export class MessageContentResolver {
+  private readonly transcriptionProvider: TranscriptionProvider | undefined;
+  private readonly attachmentStore: AttachmentStore;
+  private readonly inlineChars: number;
+  private readonly pageChars: number;
+  private readonly allowedHosts: string[] | undefined;
+  private readonly logger: Logger;
+  private readonly audioCache = new Map<string, ResolvedMessageContent>();
+
+  constructor(options: MessageContentResolverOptions = {}, logger?: Logger) {
+    this.transcriptionProvider = options.transcriptionProvider;
+    this.attachmentStore = options.attachmentStore ?? new AttachmentStore();
+    this.inlineChars = options.inlineChars ?? DEFAULT_INLINE_CHARS;
+    this.pageChars = options.pageChars ?? DEFAULT_PAGE_CHARS;
+    this.allowedHosts = options.allowedHosts;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  async resolve(request: AgentRequest, nativeAudio: boolean, signal?: AbortSignal): Promise<Map<object, ResolvedMessageContent>> {
+    const resolved = new Map<object, ResolvedMessageContent>();
+    const fetchOptions: ContentFetchOptions = {
+      ...(signal && { signal }),
+      ...(this.allowedHosts && { allowedHosts: this.allowedHosts }),
+    };
+    const messages = Array.isArray(request.messages) ? request.messages : [];
+    for (const message of messages) {
+      if (!message.content || message.sender.id === request.agent.identifier || message.type === 'image') {
+        continue;
+      }
+      try {
+        const content = message.type === 'audio'
+          ? await this.resolveAudio(message, nativeAudio, fetchOptions)
+          : await this.resolveDocument(message, fetchOptions);
+        if (content) {
+          resolved.set(message, content);
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn(`⚠️ Could not prepare ${message.type} message from ${message.sender.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return resolved;
+  }
+
+  private async resolveAudio(
+    message: RequestMessage,
+    nativeAudio: boolean,
+    fetchOptions: ContentFetchOptions
+  ): Promise<ResolvedMessageContent | undefined> {
+    const content = message.content as string;
+    const contentFormat = message.metadata?.format;
+    const format = getAudioFormat(message.metadata?.fileExtension, content);
+    const native = nativeAudio && isNativeAudioFormat(format);
+    const transcriptionProvider = this.transcriptionProvider;
+    if (native ? contentFormat === 'base64' : !transcriptionProvider) {
+      return undefined;
+    }
+
+    const key = createHash('sha256').update(`${native ? 'audio' : 'transcript'}:${format}:${content}`).digest('hex');
+    const cached = this.audioCache.get(key);
+    if (cached) {
+      return cached;
+    }
+    const audio = await loadAudio(content, contentFormat, format, fetchOptions);
+    let resolved: ResolvedMessageContent;
+    if (native && isNativeAudioFormat(format)) {
+      resolved = { audio: { data: audio.data.toString('base64'), format } };
+    } else if (transcriptionProvider) {
+      const transcribeOptions: [ChatCompletionOptions?] = fetchOptions.signal ? [{ signal: fetchOptions.signal }] : [];
+      resolved = { transcript: await transcriptionProvider.transcribe(audio, ...transcribeOptions) };
+      this.logger.info(`🎙️ Transcribed ${format} audio message from ${message.sender.id}`);
+    } else {
+      return undefined;
+    }
+    this.cacheAudio(key, resolved);
+    return resolved;
+  }
+
+  private cacheAudio(key: string, resolved: ResolvedMessageContent): void {
+    this.audioCache.set(key, resolved);
+    while (this.audioCache.size > MAX_CACHED_AUDIO) {
+      const oldest = this.audioCache.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.audioCache.delete(oldest);
+    }
+  }
+
+  private async resolveDocument(message: RequestMessage, fetchOptions: ContentFetchOptions): Promise<ResolvedMessageContent | undefined> {
+    const fileName = message.metadata?.fileName;
+    const format = getDocumentFormat(message.metadata?.fileExtension, fileName);
+    if (!format) {
+      return undefined;
+    }
+
+    const content = message.content as string;
+    const contentFormat = message.metadata?.format;
+    // Keyed by content so documents repeated in conversation history are extracted once
+    const id = createHash('sha256').update(content).digest('hex').slice(0, 12);
+    const existing = this.attachmentStore.get(id);
+    if (existing) {
+      return { attachment: existing };
+    }
+
+    const data = !contentFormat && isTextDocumentFormat(format) && !isUrlContent(content)
+      ? Buffer.from(content, 'utf-8')
+      : await loadMessageContent(content, contentFormat, MAX_DOCUMENT_BYTES, fetchOptions);
+    const text = extractDocumentText(data, format).trim();
+    const attachment: DocumentAttachment = {
+      id,
+      fileName: fileName ?? `attachment.${format === 'markdown' ? 'md' : format}`,
+      format,
+      pages: text.length <= this.inlineChars ? [text] : this.paginate(text, format),
+    };
+    this.attachmentStore.save(attachment);
+    this.logger.info(`📎 Extracted ${text.length} characters from ${attachment.fileName} (${attachment.pages.length} page(s))`);
+    return { attachment };
+  }
+
+  /**
+   * CSV pages repeat the header row so each page can be read on its own
+   */
+  private paginate(text: string, format: string): string[] {
+    if (format !== 'csv') {
+      return paginateText(text, this.pageChars);
+    }
+    const [header, ...rows] = text.split('\n');
+    return paginateText(rows.join('\n'), this.pageChars, header);
+  }
+}
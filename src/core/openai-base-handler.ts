@@ -1,91 +1,988 @@
-import type { AgentClient, AgentRequest, AgentTool, RawAgentResponse, JSONObject } from '@cubicler/cubicagentkit';
+import type { AgentClient, AgentRequest, AgentTool, JSONObject } from '@cubicler/cubicagentkit';
 import type { MemoryRepository } from '@cubicler/cubicagentkit';
 import OpenAI from 'openai';
 import type { ChatCompletionMessageParam, ChatCompletionMessageToolCall, ChatCompletionTool } from 'openai/resources/chat/completions.js';
-import type { DispatchConfig, OpenAIConfig } from '../config/environment.js';
-import { buildOpenAIMessages, buildSystemMessage, cleanFinalResponse } from '../utils/message-helper.js';
+import type { ResponseFormatJSONSchema } from 'openai/resources/shared.js';
+import type { AgentProfile, AgentProfiles, DispatchConfig, OpenAIConfig, PlanningConfig, ToolPolicy } from '../config/environment.js';
+import { buildOpenAIMessages, buildSystemMessage, cleanFinalResponse, parseStructuredResponse } from '../utils/message-helper.js';
+import { shapeRequestParams } from '../utils/request-params-helper.js';
+import { resolveModelCapabilities, type ModelCapabilities } from '../config/model-registry.js';
+import { formatValidationErrors, validateJsonSchema, type JsonSchemaValidationError } from '../utils/json-schema-validator.js';
 import type { InternalToolHandling } from '../internal-tools/internal-tool-handler.interface.js';
-import type { OpenAIRequestParams, OpenAIResponse, ProcessToolCallsResult, SessionState, ToolExecutionResult } from '../models/types.js';
+import type { CompletionBudget, IncompleteReason, OpenAIAgentResponse, OpenAICallOptions, OpenAIRequestParams, OpenAIResponse, ProcessToolCallsResult, ResolvedMessageContent, SessionState, StreamEvent, PendingApproval, PlanState, PlanStep, StructuredOutputResult, SubAgentRunOptions, SubAgentSession, ToolExecutionContext, ToolExecutionResult, ToolLoopIncident, ToolLoopOutcome } from '../models/types.js';
+import type { ChatProvider, OpenAIHandlerOptions, SpeechProvider, StreamSink } from '../models/interfaces.js';
 import { InternalToolAggregator } from './internal-tool-aggregator.js';
+import { ContextManager } from './context-manager.js';
+import { toChatProvider } from './openai-chat-provider.js';
 import { createSummarizerTools } from '../internal-tools/summarizer/summarizer-tool.js';
 import type { Logger } from '../utils/logger.interface.js';
 import { createLogger } from '../utils/pino-logger.js';
+import { mapWithConcurrency } from '../utils/concurrency-helper.js';
+import { estimatePromptTokens } from '../utils/token-helper.js';
+import { callToolWithRetry, type ToolRetryPolicy } from '../utils/retry-helper.js';
+import { abortable, createDeadline } from '../utils/deadline-helper.js';
+import { fingerprintToolBatch, fingerprintToolCall, isPingPong } from '../utils/tool-loop-helper.js';
+import { filterToolsByPolicy, getToolDenialReason, requiresApproval } from '../utils/tool-policy-helper.js';
+import { ApprovalManager, canPauseForApproval, toApprovalSummary } from './approval-manager.js';
+import { createToolResultCache, type ToolResultCache } from './tool-result-cache.js';
+import { MessageContentResolver } from './message-content-resolver.js';
+import { AttachmentStore } from './attachment-store.js';
+import { AttachmentReadPageTool } from '../internal-tools/attachments/attachment-read-page-tool.js';
+import { resolveSpeechSettings } from '../utils/speech-helper.js';
+import { buildReviewFeedbackPrompt, buildReviewMessages, parseReviewVerdict } from '../utils/review-helper.js';
+import { buildPlanFinalPrompt, buildPlanningPrompt, buildRevisionPrompt, buildStepPrompt, findNextStep, isStepFailure, parsePlanSteps, skipRemainingSteps, summarizePlan } from '../utils/plan-helper.js';
+
+const DEFAULT_TOOL_CONCURRENCY = 4;
+const MIN_FINAL_ANSWER_TOKENS = 256;
+const MAX_DEADLINE_RESERVE_MS = 5000;
+const DEADLINE_RESERVE_RATIO = 0.2;
+const DEADLINE_FALLBACK_ANSWER = 'I ran out of time before I could finish this request. Please try again or narrow it down.';
+const BUDGET_FALLBACK_ANSWER = 'I used up the token budget for this request before I could finish. Please try again or narrow it down.';
+const DEFAULT_WRAP_UP_PROMPT = 'You cannot call any more tools in this session. Reply to the user now: summarise what has been accomplished so far, what remains unfinished, and any partial results they can use.';
 
 export abstract class OpenAIBaseHandler {
-  protected readonly openai: OpenAI;
+  protected readonly chatProvider: ChatProvider;
   protected readonly openaiConfig: OpenAIConfig;
   protected readonly dispatchConfig: DispatchConfig;
   protected readonly internalToolHandler: InternalToolHandling | undefined;
   protected readonly logger: Logger;
+  protected readonly streamSink: StreamSink | undefined;
+  protected readonly contextManager: ContextManager;
+  protected readonly agentProfiles: AgentProfiles;
+  protected readonly approvalManager: ApprovalManager;
+  protected readonly toolResultCache: ToolResultCache | undefined;
+  protected readonly messageContentResolver: MessageContentResolver;
+  protected readonly attachmentTool: AttachmentReadPageTool;
+  protected readonly speechProvider: SpeechProvider | undefined;
 
   constructor(
-    openai: OpenAI,
+    provider: ChatProvider | OpenAI,
     openaiConfig: OpenAIConfig,
     dispatchConfig: DispatchConfig,
     logger?: Logger,
-    internalToolHandler?: InternalToolHandling
+    internalToolHandler?: InternalToolHandling,
+    options?: OpenAIHandlerOptions
   ) {
-    this.openai = openai;
+    this.chatProvider = toChatProvider(provider);
     this.openaiConfig = openaiConfig;
     this.dispatchConfig = dispatchConfig;
     this.internalToolHandler = internalToolHandler;
     this.logger = logger ?? createLogger({ silent: true });
+    this.streamSink = options?.streamSink;
+    this.contextManager = options?.contextManager ?? new ContextManager(this.chatProvider, openaiConfig, this.logger);
+    this.agentProfiles = options?.agentProfiles ?? {};
+    this.approvalManager = options?.approvalManager ?? new ApprovalManager(undefined, this.logger, dispatchConfig.approvalTtl);
+    this.toolResultCache = options?.toolResultCache ?? createToolResultCache(dispatchConfig, this.logger);
+    const attachmentStore = options?.attachmentStore ?? new AttachmentStore();
+    this.messageContentResolver = new MessageContentResolver({
+      attachmentStore,
+      ...(options?.transcriptionProvider && { transcriptionProvider: options.transcriptionProvider }),
+      ...(dispatchConfig.attachmentInlineChars && { inlineChars: dispatchConfig.attachmentInlineChars }),
+      ...(dispatchConfig.attachmentPageChars && { pageChars: dispatchConfig.attachmentPageChars }),
+      ...(dispatchConfig.attachmentAllowedHosts && { allowedHosts: dispatchConfig.attachmentAllowedHosts }),
+    }, this.logger);
+    this.attachmentTool = new AttachmentReadPageTool(attachmentStore, this.logger);
+    this.speechProvider = options?.speechProvider;
   }
 
   protected async executeIterativeLoop(
     request: AgentRequest,
     client: AgentClient,
+    memory?: MemoryRepository,
+    subAgent?: SubAgentSession
+  ): Promise<OpenAIAgentResponse> {
+    if (subAgent) {
+      return await this.executeSubAgentLoop(request, client, subAgent, memory);
+    }
+
+    const approvers = this.resolveAgentProfile(request)?.toolPolicy?.approvers ?? [];
+    const decided = await this.approvalManager.decideFromMessage(request, approvers);
+    if (decided) {
+      return this.acknowledgeDecision(decided);
+    }
+
+    const resumed = await this.approvalManager.takeResumable(request);
+    // Downloads and transcription count against the dispatch deadline
+    const reserveMs = this.getDeadlineReserve();
+    const deadline = createDeadline(this.dispatchConfig.timeout - reserveMs);
+    let sessionState = resumed?.sessionState;
+
+    try {
+      sessionState ??= this.initializeSession(
+        request,
+        memory,
+        await this.messageContentResolver.resolve(request, this.getModelCapabilities().supportsAudioInput, deadline.signal)
+      );
+      sessionState.signal = deadline.signal;
+      if (resumed) {
+        await this.resumeAfterApproval(sessionState, resumed, request, client, memory);
+      }
+      return await this.runIterations(sessionState, request, client, memory);
+    } catch (error) {
+      if (!deadline.signal.aborted) {
+        throw error;
+      }
+      // Attachments that could not be prepared in time are left to their plain envelope
+      sessionState ??= this.initializeSession(request, memory);
+      return await this.wrapUpAfterDeadline(sessionState, request, reserveMs, memory);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Nested session for a task delegated to a sub-agent. It runs within the delegating
+   * session's deadline, never streams, and cannot pause for approval
+   */
+  protected async executeSubAgentLoop(
+    request: AgentRequest,
+    client: AgentClient,
+    subAgent: SubAgentSession,
     memory?: MemoryRepository
-  ): Promise<RawAgentResponse> {
-    const sessionState = this.initializeSession(request, memory);
+  ): Promise<OpenAIAgentResponse> {
+    // The sub-agent answers the delegating agent, so profile features such as speech or
+    // structured output do not apply; its tools are the subset it was given
+    const sessionState: SessionState = {
+      agentProfile: { toolPolicy: { ...subAgent.toolPolicy, allow: subAgent.tools.map((tool) => tool.function.name) } },
+      depth: subAgent.depth,
+      ...(subAgent.parent && { parent: subAgent.parent }),
+      ...(subAgent.model && { model: subAgent.model }),
+      ...(subAgent.maxIterations && { maxIterations: subAgent.maxIterations }),
+      ...(subAgent.signal && { signal: subAgent.signal }),
+      iteration: 1,
+      currentMessages: buildOpenAIMessages(request, this.openaiConfig, this.dispatchConfig, 1, memory, this.logger),
+      currentTools: subAgent.tools,
+      totalUsedTokens: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      reasoningTokens: 0,
+      succeededToolCalls: new Set(),
+      toolBatchHistory: [],
+      loopIncidents: [],
+    };
+    return await this.runIterations(sessionState, request, client, memory);
+  }
+
+  protected async runIterations(
+    sessionState: SessionState,
+    request: AgentRequest,
+    client: AgentClient,
+    memory?: MemoryRepository
+  ): Promise<OpenAIAgentResponse> {
+    const planning = sessionState.depth ? undefined : sessionState.agentProfile?.planning;
+    if (planning) {
+      const planned = await this.runPlan(sessionState, planning, request, client, memory);
+      if (planned) {
+        return planned;
+      }
+    }
 
-    while (sessionState.iteration <= this.dispatchConfig.sessionMaxIteration) {
+    const maxIterations = sessionState.maxIterations ?? this.dispatchConfig.sessionMaxIteration;
+    let outcome = await this.runToolLoop(sessionState, request, client, maxIterations, memory);
+    if (outcome.type === 'answer' && await this.reviewDraft(sessionState, outcome.content)) {
+      // The revision round gets at least one more iteration, even at the session limit
+      outcome = await this.runToolLoop(sessionState, request, client, Math.max(maxIterations, sessionState.iteration), memory);
+    }
+    if (outcome.type === 'paused') {
+      return outcome.response;
+    }
+    if (outcome.type === 'answer') {
+      return await this.buildFinalResponse(sessionState, outcome.content);
+    }
+
+    if (this.dispatchConfig.wrapUpOnMaxIteration === false) {
+      throw new Error(`Maximum iterations (${maxIterations}) reached without final response`);
+    }
+
+    this.logger.warn(`⚠️ Maximum iterations (${maxIterations}) reached, wrapping up session`);
+    const wrapUp = await this.executeIteration(sessionState, request, memory, 'max_iterations');
+    this.recordUsage(sessionState, wrapUp);
+    return await this.buildFinalResponse(sessionState, wrapUp.content);
+  }
+
+  /**
+   * Call the model and run its tool calls until it answers without tools, a call needs
+   * approval, or the session passes maxIterations
+   */
+  protected async runToolLoop(
+    sessionState: SessionState,
+    request: AgentRequest,
+    client: AgentClient,
+    maxIterations: number,
+    memory?: MemoryRepository
+  ): Promise<ToolLoopOutcome> {
+    while (sessionState.iteration <= maxIterations) {
+      sessionState.signal?.throwIfAborted();
       const result = await this.executeIteration(sessionState, request, memory);
-      sessionState.totalUsedTokens += result.usedTokens;
-
-      if (result.toolCalls && result.toolCalls.length > 0) {
-        const updatedState = await this.processToolCallsAndContinue(
-          result,
-          sessionState.currentMessages,
-          sessionState.currentTools,
-          client
-        );
-        sessionState.currentMessages = updatedState.messages;
-        sessionState.currentTools = updatedState.tools;
+      this.recordUsage(sessionState, result);
+
+      if (!result.toolCalls || result.toolCalls.length === 0 || sessionState.incompleteReason) {
+        return { type: 'answer', content: result.content };
+      }
+
+      const awaitingApproval = this.findToolCallsNeedingApproval(result.toolCalls, sessionState);
+      const canPause = !sessionState.depth && canPauseForApproval(request);
+      if (awaitingApproval.length > 0 && canPause) {
+        return { type: 'paused', response: await this.pauseForApproval(request, sessionState, result, awaitingApproval) };
+      }
+
+      const loopDetection = this.dispatchConfig.loopDetection !== false;
+      const loopNote = loopDetection ? this.trackToolLoop(sessionState, result.toolCalls) : undefined;
+      const context = this.buildToolExecutionContext(sessionState, loopDetection, request, client, memory);
+      if (awaitingApproval.length > 0) {
+        // Sub-agents and triggers (no requester to resume them) cannot pause for approval
+        const requester = sessionState.depth ? 'sub-agents' : 'sessions without a requester';
+        context.rejectedToolCalls = Object.fromEntries(awaitingApproval.map((toolCall) => [
+          toolCall.id,
+          `${toolCall.function.name} needs human approval, which ${requester} cannot request; report back instead`,
+        ]));
+      }
+      const updatedState = await this.processToolCallsAndContinue(
+        result,
+        sessionState.currentMessages,
+        sessionState.currentTools,
+        client,
+        context
+      );
+      sessionState.currentMessages = updatedState.messages;
+      sessionState.currentTools = updatedState.tools;
+      if (loopNote) {
+        sessionState.currentMessages.push({ role: 'system', content: loopNote });
+      }
+      sessionState.iteration++;
+    }
+    return { type: 'exhausted' };
+  }
+
+  /**
+   * Plan-and-execute mode: ask for a step plan, run each step through the tool loop with
+   * its own iteration budget, revise the remaining steps when one fails, then answer from
+   * the outcome. A session resumed after approval continues its running step.
+   * Returns undefined when the model produced no usable plan, leaving the ordinary loop to run
+   */
+  protected async runPlan(
+    sessionState: SessionState,
+    planning: PlanningConfig,
+    request: AgentRequest,
+    client: AgentClient,
+    memory?: MemoryRepository
+  ): Promise<OpenAIAgentResponse | undefined> {
+    if (!sessionState.plan) {
+      const reply = await this.callPlanner(sessionState, request, buildPlanningPrompt(planning.maxSteps), memory);
+      if (sessionState.incompleteReason) {
+        return await this.buildFinalResponse(sessionState, reply);
+      }
+      const steps = parsePlanSteps(reply, planning.maxSteps);
+      sessionState.plan = { steps: steps.map((description) => ({ description, status: 'pending' })), revisions: 0 };
+      if (steps.length === 0) {
+        this.logger.warn('⚠️ No step plan could be read from the planning reply, continuing without one');
+        return undefined;
+      }
+      this.logger.info(`📋 Planned ${steps.length} step(s): ${steps.join(' | ')}`);
+    }
+
+    const plan = sessionState.plan;
+    if (plan.steps.length === 0) {
+      return undefined;
+    }
+
+    const stepBudget = planning.stepMaxIterations ?? this.dispatchConfig.sessionMaxIteration;
+    for (let index = findNextStep(plan); index >= 0; index = findNextStep(plan)) {
+      const step = plan.steps[index] as PlanStep;
+      if (step.status === 'pending') {
+        step.status = 'running';
+        step.maxIteration = sessionState.iteration + stepBudget - 1;
+        sessionState.currentMessages.push({ role: 'system', content: buildStepPrompt(plan, index) });
+        this.logger.info(`📋 Step ${index + 1}/${plan.steps.length}: ${step.description}`);
+      }
+
+      const outcome = await this.runToolLoop(sessionState, request, client, step.maxIteration ?? sessionState.iteration, memory);
+      if (outcome.type === 'paused') {
+        return outcome.response;
+      }
+      if (outcome.type === 'answer') {
+        sessionState.currentMessages.push({ role: 'assistant', content: outcome.content ?? '' });
         sessionState.iteration++;
-      } else {
-        const cleanedContent = cleanFinalResponse(result.content, this.logger);
+      }
+      if (sessionState.incompleteReason) {
+        // The token budget ran out mid-step and the model already wrapped up the session
+        step.status = 'failed';
+        skipRemainingSteps(plan);
+        return await this.buildFinalResponse(sessionState, outcome.type === 'answer' ? outcome.content : null);
+      }
+
+      const failed = outcome.type === 'exhausted' || isStepFailure(outcome.content);
+      step.status = failed ? 'failed' : 'succeeded';
+      step.result = outcome.type === 'answer'
+        ? (outcome.content ?? '').trim()
+        : `Not finished within ${stepBudget} iteration(s)`;
+      this.logger.info(`📋 Step ${index + 1} ${step.status}`);
+      if (failed) {
+        const revised = await this.revisePlan(sessionState, planning, index, request, memory);
+        if (revised) {
+          return revised;
+        }
+      }
+    }
+
+    sessionState.currentMessages.push({ role: 'system', content: buildPlanFinalPrompt(plan) });
+    let final = await this.executeIteration(sessionState, request, memory, undefined, 'final');
+    this.recordUsage(sessionState, final);
+    if (await this.reviewDraft(sessionState, final.content)) {
+      final = await this.executeIteration(sessionState, request, memory, undefined, 'final');
+      this.recordUsage(sessionState, final);
+    }
+    return await this.buildFinalResponse(sessionState, final.content);
+  }
+
+  /**
+   * Replace the steps after a failed one, or skip them once maxRevisions is used up.
+   * Returns a final response only when the token budget ran out during revision
+   */
+  protected async revisePlan(
+    sessionState: SessionState,
+    planning: PlanningConfig,
+    failedIndex: number,
+    request: AgentRequest,
+    memory?: MemoryRepository
+  ): Promise<OpenAIAgentResponse | undefined> {
+    const plan = sessionState.plan as PlanState;
+    if (plan.revisions >= planning.maxRevisions) {
+      this.logger.warn(`⚠️ Plan revision limit (${planning.maxRevisions}) reached, skipping remaining steps`);
+      skipRemainingSteps(plan);
+      return undefined;
+    }
+
+    plan.revisions++;
+    const reply = await this.callPlanner(sessionState, request, buildRevisionPrompt(plan, failedIndex, planning.maxSteps), memory);
+    if (sessionState.incompleteReason) {
+      skipRemainingSteps(plan);
+      return await this.buildFinalResponse(sessionState, reply);
+    }
+    const steps = parsePlanSteps(reply, planning.maxSteps);
+    if (steps.length === 0) {
+      this.logger.warn('⚠️ Plan revision gave no remaining steps, skipping the rest of the plan');
+      skipRemainingSteps(plan);
+      return undefined;
+    }
+    plan.steps = [
+      ...plan.steps.slice(0, failedIndex + 1),
+      ...steps.map((description): PlanStep => ({ description, status: 'pending' })),
+    ];
+    this.logger.info(`📋 Revised plan (${plan.revisions}/${planning.maxRevisions}): ${steps.join(' | ')}`);
+    return undefined;
+  }
+
+  /**
+   * Self-critique for agents with a review profile: a reviewer model checks the draft
+   * against the request and tool results. Returns true when the draft was rejected and
+   * the reviewer's notes were added to the conversation for one more revision round.
+   * Sessions are reviewed once; a failed or unreadable review lets the draft through
+   */
+  protected async reviewDraft(sessionState: SessionState, draft: string | null): Promise<boolean> {
+    const review = sessionState.agentProfile?.review;
+    if (!review || sessionState.review || sessionState.depth || sessionState.incompleteReason || !draft?.trim()) {
+      return false;
+    }
+
+    // The review and its revision round have to fit in what is left of the session budget
+    const budget = this.planCompletionBudget(sessionState);
+    if (budget.forceFinal) {
+      return false;
+    }
+    const model = review.model ?? sessionState.model;
+    try {
+      const result = await this.callOpenAI(buildReviewMessages(sessionState.currentMessages, draft), [], {
+        iteration: sessionState.iteration,
+        maxTokens: Math.min(review.maxTokens, budget.maxTokens),
+        stream: false,
+        ...(model && { model }),
+        ...(sessionState.signal && { signal: sessionState.signal }),
+      });
+      this.recordUsage(sessionState, result);
+      const verdict = parseReviewVerdict(result.content);
+      if (!verdict) {
+        this.logger.warn('⚠️ Could not read the review verdict, returning the draft answer');
+        return false;
+      }
+
+      sessionState.review = verdict;
+      if (verdict.approved || !verdict.notes) {
+        this.logger.info('✅ Draft answer approved by review');
+        return false;
+      }
+      this.logger.info(`📝 Review requested changes: ${verdict.notes}`);
+      sessionState.currentMessages.push(
+        { role: 'assistant', content: draft },
+        { role: 'system', content: buildReviewFeedbackPrompt(verdict.notes) }
+      );
+      sessionState.iteration++;
+      return true;
+    } catch (error) {
+      sessionState.signal?.throwIfAborted();
+      this.logger.warn(`⚠️ Review of the draft answer failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+
+  /**
+   * One tool-free planning turn; the reply stays in the conversation so later steps can see the plan
+   */
+  private async callPlanner(
+    sessionState: SessionState,
+    request: AgentRequest,
+    prompt: string,
+    memory?: MemoryRepository
+  ): Promise<string | null> {
+    sessionState.currentMessages.push({ role: 'system', content: prompt });
+    const result = await this.executeIteration(sessionState, request, memory, undefined, 'plan');
+    this.recordUsage(sessionState, result);
+    sessionState.currentMessages.push({ role: 'assistant', content: result.content ?? '' });
+    sessionState.iteration++;
+    return result.content;
+  }
+
+  /**
+   * Record this turn's tool calls and detect loops: calls identical to an earlier
+   * successful call and batches alternating A, B, A, B.
+   * Returns a corrective note for the model when a loop is found
+   */
+  protected trackToolLoop(
+    sessionState: SessionState,
+    toolCalls: ChatCompletionMessageToolCall[]
+  ): string | undefined {
+    const fingerprints = toolCalls.map((toolCall) => fingerprintToolCall(toolCall.function.name, toolCall.function.arguments));
+    sessionState.toolBatchHistory.push(fingerprintToolBatch(fingerprints));
+
+    const repeated = toolCalls
+      .filter((_toolCall, index) => sessionState.succeededToolCalls.has(fingerprints[index] ?? ''))
+      .map((toolCall) => toolCall.function.name);
+    const incidents: ToolLoopIncident[] = [];
+    if (repeated.length > 0) {
+      incidents.push({ type: 'repeat', iteration: sessionState.iteration, tools: repeated });
+    }
+    if (isPingPong(sessionState.toolBatchHistory)) {
+      const previousTools = sessionState.toolBatchHistory.at(-2)?.split('|').map((fingerprint) => fingerprint.split(':')[0] ?? '') ?? [];
+      const tools = [...new Set([...previousTools, ...toolCalls.map((toolCall) => toolCall.function.name)])];
+      incidents.push({ type: 'ping_pong', iteration: sessionState.iteration, tools });
+    }
+    if (incidents.length === 0) {
+      return undefined;
+    }
+
+    sessionState.loopIncidents.push(...incidents);
+    return incidents
+      .map((incident) => {
+        const tools = incident.tools.join(', ');
+        if (incident.type === 'repeat') {
+          this.logger.warn(`🔁 Repeated tool call(s) at iteration ${incident.iteration}: ${tools}`);
+          return `You already called ${tools} with the same arguments earlier in this session and got a result. Do not repeat the call: use the earlier result, try a different approach, or answer the user.`;
+        }
+        this.logger.warn(`🔁 Tool calls alternating without progress at iteration ${incident.iteration}: ${tools}`);
+        return `You are alternating between the same tool calls (${tools}) without making progress. Stop repeating them: answer with what you have or try a different approach.`;
+      })
+      .join('\n');
+  }
+
+  protected findToolCallsNeedingApproval(
+    toolCalls: ChatCompletionMessageToolCall[],
+    sessionState: SessionState
+  ): ChatCompletionMessageToolCall[] {
+    const toolPolicy = sessionState.agentProfile?.toolPolicy;
+    return toolCalls.filter((toolCall) =>
+      requiresApproval(toolCall.function.name, toolPolicy) && !getToolDenialReason(toolCall.function.name, toolPolicy)
+    );
+  }
+
+  /**
+   * Persist the session and answer with a pending-approval response describing the proposed calls
+   */
+  protected async pauseForApproval(
+    request: AgentRequest,
+    sessionState: SessionState,
+    result: OpenAIResponse,
+    toolCalls: ChatCompletionMessageToolCall[]
+  ): Promise<OpenAIAgentResponse> {
+    const approval = await this.approvalManager.createPending(request, sessionState, result, toolCalls);
+    const proposed = toolCalls.map((toolCall) => `${toolCall.function.name}(${toolCall.function.arguments})`).join(', ');
+    this.logger.warn(`✋ Awaiting approval ${approval.id} for ${proposed}`);
+
+    const content = `Approval required before running ${proposed}. An approver can reply "approve ${approval.id}" or "reject ${approval.id} <reason>"; the session continues on your next message once it is decided.`;
+    await this.emitStreamEvent({ type: 'done', content, usedToken: sessionState.totalUsedTokens });
+    return {
+      type: 'text' as const,
+      content,
+      usedToken: sessionState.totalUsedTokens,
+      metadata: { pendingApproval: toApprovalSummary(approval) },
+    };
+  }
+
+  /**
+   * Answer an approver's decision message; the paused session resumes on the requester's next message
+   */
+  protected acknowledgeDecision(approval: PendingApproval): OpenAIAgentResponse {
+    const verb = approval.decision?.approved ? 'granted' : 'rejected';
+    return {
+      type: 'text' as const,
+      content: `Approval ${approval.id} ${verb}. The session continues on the requester's next message.`,
+      usedToken: 0,
+    };
+  }
+
+  /**
+   * Run the paused turn's tool calls: all of them when approved, or all but the
+   * calls awaiting approval (answered with the rejection) when rejected
+   */
+  protected async resumeAfterApproval(
+    sessionState: SessionState,
+    approval: PendingApproval,
+    request: AgentRequest,
+    client: AgentClient,
+    memory?: MemoryRepository
+  ): Promise<void> {
+    const decision = approval.decision;
+    const rejectionReason = `Rejected by approver${decision?.reason ? `: ${decision.reason}` : ''}`;
+    this.logger.info(`${decision?.approved ? '✅' : '⛔'} Resuming session after approval ${approval.id} was ${decision?.approved ? 'granted' : 'rejected'}`);
+
+    const loopDetection = this.dispatchConfig.loopDetection !== false;
+    const loopNote = loopDetection ? this.trackToolLoop(sessionState, approval.pendingResponse.toolCalls ?? []) : undefined;
+    const context = this.buildToolExecutionContext(sessionState, loopDetection, request, client, memory);
+    if (!decision?.approved) {
+      context.rejectedToolCalls = Object.fromEntries(approval.toolCalls.map((toolCall) => [toolCall.id, rejectionReason]));
+    }
+
+    const updatedState = await this.processToolCallsAndContinue(
+      approval.pendingResponse,
+      sessionState.currentMessages,
+      sessionState.currentTools,
+      client,
+      context
+    );
+    sessionState.currentMessages = updatedState.messages;
+    sessionState.currentTools = updatedState.tools;
+    if (loopNote) {
+      sessionState.currentMessages.push({ role: 'system', content: loopNote });
+    }
+    // What the requester said alongside resuming is part of the conversation from here on
+    const resumingMessage = await this.buildResumingMessage(request, sessionState);
+    if (resumingMessage) {
+      sessionState.currentMessages.push(resumingMessage);
+    }
+    sessionState.iteration++;
+  }
+
+  /**
+   * The requester's latest message, converted like the messages of a new session
+   */
+  protected async buildResumingMessage(
+    request: AgentRequest,
+    sessionState: SessionState
+  ): Promise<ChatCompletionMessageParam | undefined> {
+    const latest = Array.isArray(request.messages) ? request.messages.at(-1) : undefined;
+    if (!latest?.content || latest.sender.id === request.agent.identifier) {
+      return undefined;
+    }
+    const latestRequest: AgentRequest = { ...request, messages: [latest] };
+    const resolvedContent = await this.messageContentResolver.resolve(
+      latestRequest,
+      this.getModelCapabilities().supportsAudioInput,
+      sessionState.signal
+    );
+    const attachmentToolName = this.attachmentTool.getToolDefinition().function.name;
+    if (hasPagedAttachment(resolvedContent) && !sessionState.currentTools.some((tool) => tool.function.name === attachmentToolName)) {
+      sessionState.currentTools.push(this.attachmentTool.getToolDefinition());
+    }
+    const [, message] = buildOpenAIMessages(latestRequest, this.openaiConfig, this.dispatchConfig, sessionState.iteration, undefined, this.logger, resolvedContent);
+    return message;
+  }
+
+  protected buildToolExecutionContext(
+    sessionState: SessionState,
+    loopDetection: boolean,
+    request: AgentRequest,
+    client: AgentClient,
+    memory?: MemoryRepository
+  ): ToolExecutionContext {
+    const toolPolicy = sessionState.agentProfile?.toolPolicy;
+    const depth = sessionState.depth ?? 0;
+    return {
+      ...(sessionState.signal && { signal: sessionState.signal }),
+      ...(loopDetection && { succeededToolCalls: sessionState.succeededToolCalls }),
+      ...(toolPolicy && { toolPolicy }),
+      internalToolContext: {
+        request,
+        client,
+        tools: sessionState.currentTools,
+        depth,
+        ...(sessionState.signal && { signal: sessionState.signal }),
+        runSubAgent: async (subRequest: AgentRequest, options: SubAgentRunOptions) => {
+          return await this.executeIterativeLoop(subRequest, client, memory, {
+            ...options,
+            depth: depth + 1,
+            ...(toolPolicy && { toolPolicy }),
+            ...(sessionState.signal && { signal: sessionState.signal }),
+            // Sub-agent usage is charged to this session as it happens, so it counts toward its budget
+            parent: sessionState,
+          });
+        },
+      },
+    };
+  }
+
+  /**
+   * Time kept back from DISPATCH_TIMEOUT for the partial answer once the deadline hits
+   */
+  protected getDeadlineReserve(): number {
+    return Math.min(MAX_DEADLINE_RESERVE_MS, Math.floor(this.dispatchConfig.timeout * DEADLINE_RESERVE_RATIO));
+  }
+
+  /**
+   * Produce a best-effort partial answer after the session deadline aborted in-flight work:
+   * one tool-free wrap-up call within the reserve, falling back to the latest assistant text
+   */
+  protected async wrapUpAfterDeadline(
+    sessionState: SessionState,
+    request: AgentRequest,
+    reserveMs: number,
+    memory?: MemoryRepository
+  ): Promise<OpenAIAgentResponse> {
+    this.logger.warn(`⏱️ Dispatch deadline (${this.dispatchConfig.timeout}ms) approaching, returning a partial answer`);
+    const reserve = createDeadline(reserveMs);
+    sessionState.signal = reserve.signal;
+    try {
+      const wrapUp = await this.executeIteration(sessionState, request, memory, 'deadline');
+      this.recordUsage(sessionState, wrapUp);
+      return await this.buildFinalResponse(sessionState, wrapUp.content);
+    } catch (error) {
+      this.logger.warn(`⚠️ Wrap-up after deadline failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sessionState.incompleteReason = 'deadline';
+      return await this.buildFinalResponse(sessionState, this.findLatestAssistantContent(sessionState) ?? DEADLINE_FALLBACK_ANSWER);
+    } finally {
+      reserve.dispose();
+    }
+  }
+
+  private findLatestAssistantContent(sessionState: SessionState): string | undefined {
+    for (let index = sessionState.currentMessages.length - 1; index >= 0; index--) {
+      const message = sessionState.currentMessages[index];
+      if (message?.role === 'assistant' && typeof message.content === 'string' && message.content.trim()) {
+        return message.content;
+      }
+    }
+    return undefined;
+  }
+
+  protected async buildFinalResponse(
+    sessionState: SessionState,
+    content: string | null
+  ): Promise<OpenAIAgentResponse> {
+    const structured = sessionState.agentProfile?.structuredOutput
+      ? await this.resolveStructuredOutput(sessionState, content)
+      : undefined;
+    const cleanedContent = structured ? structured.content : cleanFinalResponse(content, this.logger);
+    if (!sessionState.depth) {
+      await this.emitStreamEvent({
+        type: 'done',
+        content: cleanedContent,
+        usedToken: sessionState.totalUsedTokens,
+      });
+    }
+
+    const response: OpenAIAgentResponse = {
+      type: 'text' as const,
+      content: cleanedContent,
+      usedToken: sessionState.totalUsedTokens,
+    };
+    if (sessionState.incompleteReason) {
+      response.metadata = { incomplete: true, incompleteReason: sessionState.incompleteReason };
+    }
+    if (structured) {
+      response.metadata = {
+        ...response.metadata,
+        ...(structured.value !== undefined && { structuredOutput: structured.value }),
+        ...(structured.errors.length > 0 && { structuredOutputErrors: structured.errors }),
+      };
+    }
+    if (sessionState.reasoningTokens > 0) {
+      this.logger.info(`🧠 Reasoning tokens: ${sessionState.reasoningTokens} of ${sessionState.completionTokens} completion tokens`);
+      response.metadata = { ...response.metadata, reasoningTokens: sessionState.reasoningTokens };
+    }
+    if (sessionState.loopIncidents.length > 0) {
+      response.metadata = { ...response.metadata, loopIncidents: sessionState.loopIncidents };
+    }
+    if (sessionState.plan && sessionState.plan.steps.length > 0) {
+      response.metadata = { ...response.metadata, plan: summarizePlan(sessionState.plan) };
+    }
+    if (sessionState.review) {
+      response.metadata = { ...response.metadata, review: sessionState.review };
+    }
+    if (sessionState.modelUsed) {
+      response.metadata = {
+        ...response.metadata,
+        model: sessionState.modelUsed,
+        ...(sessionState.fallbackCalls && { fallbackCalls: sessionState.fallbackCalls }),
+      };
+    }
+    return await this.synthesizeSpeech(sessionState, response);
+  }
+
+  /**
+   * Speak the final answer for voice channels: attach the audio to the text response,
+   * or return it as the response content. Falls back to text when synthesis fails
+   */
+  protected async synthesizeSpeech(
+    sessionState: SessionState,
+    response: OpenAIAgentResponse
+  ): Promise<OpenAIAgentResponse> {
+    const settings = sessionState.speech;
+    const text = response.content;
+    if (!settings || !this.speechProvider || !text) {
+      return response;
+    }
+
+    try {
+      const signal = sessionState.signal && !sessionState.signal.aborted ? sessionState.signal : undefined;
+      const audio = await this.speechProvider.synthesize(text, settings, signal ? { signal } : undefined);
+      this.logger.info(`🔊 Synthesized ${audio.length} bytes of ${settings.format} speech (${settings.voice}, ${settings.mode})`);
+      const speech = { voice: settings.voice, format: settings.format };
+      if (settings.mode === 'replace') {
         return {
-          type: 'text' as const,
-          content: cleanedContent,
-          usedToken: sessionState.totalUsedTokens,
+          ...response,
+          type: 'audio' as const,
+          content: audio.toString('base64'),
+          metadata: { ...response.metadata, speech: { ...speech, transcript: text } },
         };
       }
+      return { ...response, metadata: { ...response.metadata, speech: { ...speech, data: audio.toString('base64') } } };
+    } catch (error) {
+      this.logger.warn(`⚠️ Speech synthesis failed, returning text only: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return response;
+    }
+  }
+
+  /**
+   * Validate the final answer against the agent's JSON Schema, asking the model
+   * to repair it (without tools) up to maxRepairAttempts times
+   */
+  protected async resolveStructuredOutput(
+    sessionState: SessionState,
+    content: string | null
+  ): Promise<StructuredOutputResult | undefined> {
+    const config = sessionState.agentProfile?.structuredOutput;
+    if (!config) {
+      return undefined;
     }
 
-    throw new Error(`Maximum iterations (${this.dispatchConfig.sessionMaxIteration}) reached without final response`);
+    let draft = content;
+    for (let attempt = 0; ; attempt++) {
+      const { value, errors } = parseStructuredResponse(draft, config.schema);
+      if (errors.length === 0) {
+        return { content: draft ?? '', value, errors: [] };
+      }
+
+      const formattedErrors = formatValidationErrors(errors);
+      const maxRepairAttempts = sessionState.incompleteReason === 'deadline' ? 0 : config.maxRepairAttempts;
+      if (attempt >= maxRepairAttempts) {
+        this.logger.warn(`⚠️ Structured output still invalid after ${attempt} repair attempt(s): ${formattedErrors}`);
+        return { content: draft ?? '', errors: errors.map((error) => `${error.path}: ${error.message}`) };
+      }
+
+      this.logger.warn(`⚠️ Structured output invalid, requesting repair (${attempt + 1}/${config.maxRepairAttempts}): ${formattedErrors}`);
+      sessionState.currentMessages.push(
+        { role: 'assistant', content: draft ?? '' },
+        {
+          role: 'user',
+          content: `Your previous reply did not match the required JSON schema: ${formattedErrors}. Reply again with only the corrected JSON.`,
+        }
+      );
+
+      const repairTokens = this.planCompletionBudget(sessionState).maxTokens;
+      if (repairTokens <= 0) {
+        this.logger.warn(`⚠️ No token budget left to repair structured output: ${formattedErrors}`);
+        sessionState.incompleteReason ??= 'token_budget';
+        return { content: draft ?? '', errors: errors.map((error) => `${error.path}: ${error.message}`) };
+      }
+      const repairOptions: OpenAICallOptions = {
+        iteration: sessionState.iteration,
+        maxTokens: repairTokens,
+        toolChoice: 'none',
+        ...(sessionState.signal && { signal: sessionState.signal }),
+      };
+      const responseFormat = this.buildResponseFormat(sessionState.agentProfile);
+      if (responseFormat) {
+        repairOptions.responseFormat = responseFormat;
+      }
+      const repaired = await this.callOpenAI(sessionState.currentMessages, sessionState.currentTools, repairOptions);
+      this.recordUsage(sessionState, repaired);
+      draft = repaired.content;
+    }
+  }
+
+  protected resolveAgentProfile(request: AgentRequest): AgentProfile | undefined {
+    return this.agentProfiles[request.agent.identifier] ?? this.agentProfiles['*'];
+  }
+
+  protected buildResponseFormat(profile: AgentProfile | undefined): ResponseFormatJSONSchema | undefined {
+    const config = profile?.structuredOutput;
+    if (!config) {
+      return undefined;
+    }
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: config.name,
+        schema: config.schema,
+        strict: config.strict,
+      },
+    };
   }
 
-  protected initializeSession(request: AgentRequest, memory?: MemoryRepository): SessionState {
+  protected initializeSession(
+    request: AgentRequest,
+    memory?: MemoryRepository,
+    resolvedContent?: Map<object, ResolvedMessageContent>
+  ): SessionState {
+    const agentProfile = this.resolveAgentProfile(request);
+    const speech = this.speechProvider ? resolveSpeechSettings(request, agentProfile?.speech, this.openaiConfig) : undefined;
+    const tools = this.buildOpenAITools(request.tools);
+    // Attachments too large for the prompt are read page by page
+    if (resolvedContent && hasPagedAttachment(resolvedContent)) {
+      tools.push(this.attachmentTool.getToolDefinition());
+    }
     return {
+      ...(agentProfile && { agentProfile }),
+      ...(speech && { speech }),
       iteration: 1,
-      currentMessages: buildOpenAIMessages(request, this.openaiConfig, this.dispatchConfig, 1, memory, this.logger),
-      currentTools: this.buildOpenAITools(request.tools),
+      currentMessages: buildOpenAIMessages(request, this.openaiConfig, this.dispatchConfig, 1, memory, this.logger, resolvedContent),
+      currentTools: filterToolsByPolicy(tools, agentProfile?.toolPolicy),
       totalUsedTokens: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      reasoningTokens: 0,
+      succeededToolCalls: new Set(),
+      toolBatchHistory: [],
+      loopIncidents: [],
+    };
+  }
+
+  protected recordUsage(sessionState: SessionState, result: OpenAIResponse): void {
+    this.chargeTokens(sessionState, result.usedTokens);
+    sessionState.promptTokens += result.promptTokens;
+    sessionState.completionTokens += result.completionTokens;
+    sessionState.reasoningTokens += result.reasoningTokens ?? 0;
+    if (result.model) {
+      sessionState.modelUsed = result.model;
+    }
+    if (result.fallback) {
+      sessionState.fallbackCalls = (sessionState.fallbackCalls ?? 0) + 1;
+    }
+  }
+
+  /**
+   * Add tokens to a session and every session that delegated to it
+   */
+  protected chargeTokens(sessionState: SessionState, tokens: number): void {
+    for (let session: SessionState | undefined = sessionState; session; session = session.parent) {
+      session.totalUsedTokens += tokens;
+    }
+  }
+
+  /**
+   * Decide how many completion tokens the next call may use within the session budget
+   * (OPENAI_SESSION_MAX_TOKENS; unlimited when unset). When the remaining budget cannot
+   * cover another tool round (which always re-sends at least the current prompt) plus a
+   * final answer, the final answer is forced now; maxTokens is 0 once nothing is left
+   */
+  protected planCompletionBudget(sessionState: SessionState): CompletionBudget {
+    const { sessionMaxTokens } = this.openaiConfig;
+    const perCallLimit = this.openaiConfig.maxCompletionTokens
+      ?? sessionMaxTokens
+      ?? this.getModelCapabilities(sessionState.model).maxOutputTokens;
+    if (sessionMaxTokens === undefined) {
+      return { maxTokens: perCallLimit, forceFinal: false };
+    }
+    // Sub-agents share the budget of the top-level session, which is charged for their usage
+    let topLevel = sessionState;
+    while (topLevel.parent) {
+      topLevel = topLevel.parent;
+    }
+    const remaining = sessionMaxTokens - topLevel.totalUsedTokens;
+    const promptEstimate = estimatePromptTokens(sessionState.currentMessages, sessionState.currentTools);
+    const allowance = remaining - promptEstimate;
+
+    return {
+      maxTokens: Math.max(0, Math.min(perCallLimit, allowance)),
+      forceFinal: allowance < promptEstimate + MIN_FINAL_ANSWER_TOKENS,
     };
   }
 
   protected async executeIteration(
     sessionState: SessionState,
     request: AgentRequest,
-    memory?: MemoryRepository
+    memory?: MemoryRepository,
+    wrapUpReason?: IncompleteReason,
+    planCall?: 'plan' | 'final'
   ): Promise<OpenAIResponse> {
     sessionState.currentMessages[0] = {
       role: 'system',
       content: this.buildSystemContent(request, sessionState.iteration, memory),
     };
 
-    return await this.callOpenAI(sessionState.currentMessages, sessionState.currentTools);
+    const fitted = await this.contextManager.fit(
+      sessionState.currentMessages,
+      sessionState.currentTools,
+      sessionState.model,
+      sessionState.signal ? { signal: sessionState.signal } : {}
+    );
+    sessionState.currentMessages = fitted.messages;
+    this.chargeTokens(sessionState, fitted.usedTokens);
+
+    // Plans and step reports are internal: they are neither streamed nor shaped by structured output
+    const planWork = planCall === 'plan' || sessionState.plan?.steps.some((step) => step.status === 'running');
+    // A draft the reviewer may still reject is not streamed; the revision after a review is
+    const awaitingReview = Boolean(sessionState.agentProfile?.review) && !sessionState.review;
+    const budget = this.planCompletionBudget(sessionState);
+    const callOptions: OpenAICallOptions = {
+      iteration: sessionState.iteration,
+      maxTokens: budget.maxTokens,
+      ...(sessionState.signal && { signal: sessionState.signal }),
+      ...(sessionState.model && { model: sessionState.model }),
+      ...((sessionState.depth || planWork || awaitingReview) && { stream: false }),
+    };
+    const responseFormat = planWork ? undefined : this.buildResponseFormat(sessionState.agentProfile);
+    if (responseFormat) {
+      callOptions.responseFormat = responseFormat;
+    }
+    if (planCall) {
+      callOptions.toolChoice = 'none';
+    }
+    const reason = wrapUpReason ?? (budget.forceFinal && sessionState.currentTools.length > 0 ? 'token_budget' : undefined);
+    if (reason) {
+      if (reason === 'token_budget') {
+        this.logger.warn(`⚠️ Session token budget nearly exhausted (${sessionState.totalUsedTokens}/${this.openaiConfig.sessionMaxTokens}), wrapping up session`);
+      }
+      sessionState.incompleteReason = reason;
+      sessionState.currentMessages.push({
+        role: 'system',
+        content: this.dispatchConfig.wrapUpPrompt ?? DEFAULT_WRAP_UP_PROMPT,
+      });
+      callOptions.toolChoice = 'none';
+      callOptions.maxTokens = this.planCompletionBudget(sessionState).maxTokens;
+    }
+
+    if (callOptions.maxTokens !== undefined && callOptions.maxTokens <= 0) {
+      // Another call would overrun OPENAI_SESSION_MAX_TOKENS: answer with what the session has
+      this.logger.warn(`⚠️ Session token budget exhausted (${sessionState.totalUsedTokens}/${this.openaiConfig.sessionMaxTokens}), returning without another call`);
+      sessionState.incompleteReason ??= 'token_budget';
+      return {
+        content: this.findLatestAssistantContent(sessionState) ?? BUDGET_FALLBACK_ANSWER,
+        usedTokens: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+      };
+    }
+
+    return await this.callOpenAI(sessionState.currentMessages, sessionState.currentTools, callOptions);
   }
 
   protected buildSystemContent(
@@ -96,11 +993,23 @@ export abstract class OpenAIBaseHandler {
     return buildSystemMessage(request, this.openaiConfig, this.dispatchConfig, iteration, memory, this.logger);
   }
 
+  protected async emitStreamEvent(event: StreamEvent): Promise<void> {
+    if (!this.streamSink) {
+      return;
+    }
+    try {
+      await this.streamSink.write(event);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to emit stream event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   protected async processToolCallsAndContinue(
     result: OpenAIResponse,
     messages: ChatCompletionMessageParam[],
     tools: ChatCompletionTool[],
-    client: AgentClient
+    client: AgentClient,
+    context: ToolExecutionContext = {}
   ): Promise<ProcessToolCallsResult> {
     if (!result.toolCalls || result.toolCalls.length === 0) {
       throw new Error('processToolCallsAndContinue called without valid tool calls');
@@ -115,7 +1024,8 @@ export abstract class OpenAIBaseHandler {
     const { toolMessages, updatedTools } = await this.executeToolCalls(
       result.toolCalls,
       client,
-      tools
+      tools,
+      context
     );
 
     messages.push(...toolMessages);
@@ -143,22 +1053,45 @@ export abstract class OpenAIBaseHandler {
   protected async executeToolCalls(
     toolCalls: ChatCompletionMessageToolCall[],
     client: AgentClient,
-    currentTools: ChatCompletionTool[]
+    currentTools: ChatCompletionTool[],
+    context: ToolExecutionContext = {}
   ): Promise<ToolExecutionResult> {
+    const { succeededToolCalls } = context;
     const toolMessages: ChatCompletionMessageParam[] = [];
     let updatedTools = [...currentTools];
 
-    for (const toolCall of toolCalls) {
-      const toolResult = await this.executeSingleToolCall(toolCall, client);
+    // Repeats are re-executed; only tools opted in through TOOL_CACHE_TTLS are answered from cache.
+    // Internal tools that are not parallel-safe queue behind each other in tool_call order
+    const concurrency = this.dispatchConfig.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY;
+    let sequentialQueue: Promise<unknown> = Promise.resolve();
+    const executedCalls = await mapWithConcurrency(toolCalls, concurrency, async (toolCall) => {
+      const execute = () => this.executeSingleToolCall(toolCall, client, currentTools, context);
+      let execution: Promise<{ result: unknown }>;
+      if (this.isParallelSafeTool(toolCall.function.name)) {
+        execution = execute();
+      } else {
+        execution = sequentialQueue.then(execute);
+        sequentialQueue = execution.catch(() => undefined);
+      }
+      const { result } = await execution;
+      if (succeededToolCalls && !isToolError(result)) {
+        succeededToolCalls.add(fingerprintToolCall(toolCall.function.name, toolCall.function.arguments));
+      }
+      return { toolCall, result };
+    });
+
+    // Apply results in tool_call order so server tool discovery stays deterministic
+    for (const { toolCall, result } of executedCalls) {
       updatedTools = this.handleServerToolsFetch(
         toolCall.function.name,
-        toolResult.result,
+        result,
         updatedTools,
-        client
+        client,
+        context.toolPolicy
       );
       toolMessages.push({
         role: 'tool',
-        content: JSON.stringify(toolResult.result),
+        content: JSON.stringify(result),
         tool_call_id: toolCall.id,
       });
     }
@@ -166,20 +1099,67 @@ export abstract class OpenAIBaseHandler {
     return { toolMessages, updatedTools };
   }
 
+  /**
+   * Cubicler tools run in parallel; internal tools only when marked parallel-safe
+   */
+  protected isParallelSafeTool(functionName: string): boolean {
+    if (!this.internalToolHandler?.canHandle(functionName)) {
+      return true;
+    }
+    return this.internalToolHandler.isParallelSafe?.(functionName) ?? false;
+  }
+
   protected async executeSingleToolCall(
     toolCall: ChatCompletionMessageToolCall,
-    client: AgentClient
+    client: AgentClient,
+    tools: ChatCompletionTool[] = [],
+    context: ToolExecutionContext = {}
   ): Promise<{ result: unknown }> {
+    const { signal } = context;
     try {
       const functionName = toolCall.function.name;
+      const denialReason = getToolDenialReason(functionName, context.toolPolicy);
+      if (denialReason) {
+        this.logger.warn(`🚫 Rejected ${functionName} call: ${denialReason}`);
+        return {
+          result: {
+            error: `Tool not allowed: ${denialReason}`,
+            toolCallId: toolCall.id,
+          },
+        };
+      }
+      const rejection = context.rejectedToolCalls?.[toolCall.id];
+      if (rejection) {
+        return { result: { error: rejection, toolCallId: toolCall.id } };
+      }
+
       const parameters = this.parseToolCallArguments(toolCall.function.arguments, functionName);
 
+      const validationErrors = this.validateToolCallArguments(functionName, parameters, tools);
+      if (validationErrors.length > 0) {
+        this.logger.warn(`⚠️ Rejected ${functionName} call with invalid arguments: ${formatValidationErrors(validationErrors)}`);
+        return {
+          result: {
+            error: `Invalid arguments for ${functionName}; fix them and call the tool again`,
+            validationErrors,
+            toolCallId: toolCall.id,
+          },
+        };
+      }
+
+      if (this.attachmentTool.canHandle(functionName)) {
+        return { result: await this.attachmentTool.execute(parameters) };
+      }
+
       if (this.internalToolHandler && this.internalToolHandler.canHandle(functionName)) {
-        const result = await this.internalToolHandler.executeFunction(functionName, parameters);
+        const result = await abortable(this.internalToolHandler.executeFunction(functionName, parameters, context.internalToolContext), signal);
         return { result };
       }
 
-      const result = await client.callTool(functionName, parameters);
+      const callTool = () => callToolWithRetry(client, functionName, parameters, this.getToolRetryPolicy(), this.logger, signal);
+      const result = this.toolResultCache
+        ? await this.toolResultCache.getOrCall(functionName, parameters, callTool)
+        : await callTool();
       return { result };
     } catch (error) {
       const errorMessage = `Failed to execute ${toolCall.function.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -192,6 +1172,17 @@ export abstract class OpenAIBaseHandler {
     }
   }
 
+  /**
+   * Retry policy for Cubicler tool calls: MCP_MAX_RETRIES for MCP_RETRYABLE_TOOLS, with per-tool overrides (MCP_TOOL_RETRIES)
+   */
+  protected getToolRetryPolicy(): ToolRetryPolicy {
+    return {
+      maxRetries: this.dispatchConfig.mcpMaxRetries,
+      ...(this.dispatchConfig.retryableTools && { retryableTools: this.dispatchConfig.retryableTools }),
+      ...(this.dispatchConfig.toolRetries && { toolOverrides: this.dispatchConfig.toolRetries }),
+    };
+  }
+
   protected parseToolCallArguments(
     argumentsString: string,
     functionName: string
@@ -205,11 +1196,27 @@ export abstract class OpenAIBaseHandler {
     }
   }
 
+  /**
+   * Check tool call arguments against the tool's JSON Schema (server or internal tool definition)
+   * Tools without a known schema are not validated
+   */
+  protected validateToolCallArguments(
+    functionName: string,
+    parameters: JSONObject,
+    tools: ChatCompletionTool[]
+  ): JsonSchemaValidationError[] {
+    const definition = tools.find((tool) => tool.function.name === functionName)
+      ?? this.internalToolHandler?.buildTools().find((tool) => tool.function.name === functionName);
+    const schema = definition?.function.parameters;
+    return schema ? validateJsonSchema(parameters, schema, '$', this.logger) : [];
+  }
+
   protected handleServerToolsFetch(
     functionName: string,
     result: unknown,
     currentTools: ChatCompletionTool[],
-    client: AgentClient
+    client: AgentClient,
+    toolPolicy?: ToolPolicy
   ): ChatCompletionTool[] {
     if (functionName !== 'cubicler_fetch_server_tools') {
       return currentTools;
@@ -223,16 +1230,19 @@ export abstract class OpenAIBaseHandler {
       return currentTools;
     }
 
-    const newOpenAITools = this.buildOpenAITools(serverToolsResponse.tools);
+    const newOpenAITools = filterToolsByPolicy(this.buildOpenAITools(serverToolsResponse.tools), toolPolicy);
 
     if (this.openaiConfig.summarizerModel && this.internalToolHandler) {
       try {
         const summarizerTools = createSummarizerTools(
           serverToolsResponse.tools,
           this.openaiConfig.summarizerModel,
-          this.openaiConfig.apiKey,
+          this.chatProvider,
           client,
-          this.logger
+          this.logger,
+          this.getToolRetryPolicy(),
+          this.toolResultCache,
+          this.openaiConfig
         );
 
         const aggregator = this.internalToolHandler as InternalToolAggregator;
@@ -263,42 +1273,28 @@ export abstract class OpenAIBaseHandler {
     }
   }
 
+  protected getModelCapabilities(model: string = this.openaiConfig.model): ModelCapabilities {
+    return resolveModelCapabilities(model, this.openaiConfig.models);
+  }
+
+  /**
+   * Build request parameters shaped to the model's registry capabilities
+   * (see shapeRequestParams)
+   */
   private buildOpenAIRequestParams(
     messages: ChatCompletionMessageParam[],
-    tools: ChatCompletionTool[]
+    tools: ChatCompletionTool[],
+    options: OpenAICallOptions
   ): OpenAIRequestParams {
-    const requestParams: OpenAIRequestParams = {
-      model: this.openaiConfig.model,
-      messages: messages,
-      temperature: this.openaiConfig.temperature,
-      max_tokens: this.openaiConfig.sessionMaxTokens,
-    };
-    if (tools.length > 0) {
-      requestParams.tools = tools;
-    }
-    return requestParams;
-  }
-
-  private parseOpenAIResponse(response: unknown): OpenAIResponse {
-    if (!response || typeof response !== 'object' || !('choices' in response)) {
-      throw new Error('Invalid OpenAI response: missing choices array');
-    }
-    const responseObj = response as { choices?: Array<{ message?: unknown }>; usage?: { total_tokens?: number } };
-    const message = responseObj.choices?.[0]?.message;
-    if (!message) {
-      throw new Error('Invalid OpenAI response: missing message in choices');
-    }
-
-    const usedTokens = responseObj.usage?.total_tokens || 0;
-    const messageObj = message as { content?: string | null; tool_calls?: unknown };
-    const result: OpenAIResponse = {
-      content: messageObj.content || null,
-      usedTokens,
-    };
-    if (messageObj.tool_calls) {
-      result.toolCalls = messageObj.tool_calls as ChatCompletionMessageToolCall[];
-    }
-    return result;
+    const maxTokens = options.maxTokens ?? this.openaiConfig.maxCompletionTokens ?? this.openaiConfig.sessionMaxTokens;
+    return shapeRequestParams({
+      model: options.model ?? this.openaiConfig.model,
+      messages,
+      ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      ...(tools.length > 0 && { tools }),
+      ...(options.toolChoice && { tool_choice: options.toolChoice }),
+      ...(options.responseFormat && { response_format: options.responseFormat }),
+    }, this.openaiConfig);
   }
 
   private handleOpenAIError(error: unknown): Error {
@@ -319,15 +1315,42 @@ export abstract class OpenAIBaseHandler {
 
   private async callOpenAI(
     messages: ChatCompletionMessageParam[],
-    tools: ChatCompletionTool[]
+    tools: ChatCompletionTool[],
+    options: OpenAICallOptions = {}
   ): Promise<OpenAIResponse> {
     this.validateOpenAIRequest(messages, tools);
     try {
-      const requestParams = this.buildOpenAIRequestParams(messages, tools);
-      const response = await this.openai.chat.completions.create(requestParams);
-      return this.parseOpenAIResponse(response);
+      const requestParams = this.buildOpenAIRequestParams(messages, tools, options);
+      const completionOptions = options.signal ? { signal: options.signal } : undefined;
+      if (this.streamSink && options.stream !== false) {
+        const iteration = options.iteration ?? 1;
+        return await this.chatProvider.complete(
+          requestParams,
+          (delta) => this.emitStreamEvent({ type: 'delta', iteration, content: delta }),
+          completionOptions
+        );
+      }
+      return await this.chatProvider.complete(requestParams, undefined, completionOptions);
     } catch (error) {
       throw this.handleOpenAIError(error);
     }
   }
 }
+
+/**
+ * Whether a tool result reports a failure (tool error or unsuccessful internal tool)
+ */
+function isToolError(result: unknown): boolean {
+  if (!result || typeof result !== 'object') {
+    return false;
+  }
+  const record = result as { error?: unknown; success?: unknown };
+  return record.error !== undefined || record.success === false;
+}
+
+/**
+ * Whether a resolved document is too large for the prompt and has to be read page by page
+ */
+function hasPagedAttachment(resolvedContent: Map<object, ResolvedMessageContent>): boolean {
+  return [...resolvedContent.values()].some((content) => 'attachment' in content && content.attachment.pages.length > 1);
+}
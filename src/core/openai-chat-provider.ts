@@ -0,0 +1,89 @@
+import OpenAI from 'openai';
+import type { RequestOptions } from 'openai/core.js';
+import type { ChatCompletionMessageToolCall } from 'openai/resources/chat/completions.js';
+import type { ChatProvider } from '../models/interfaces.js';
+import type { ChatCompletionOptions, OpenAIRequestParams, OpenAIResponse } from '../models/types.js';
+import { accumulateChatCompletionStream } from '../utils/stream-helper.js';
+
+/**
+ * OpenAIChatProvider
+ * Default ChatProvider backed by the OpenAI SDK chat completions API.
+ * Works with any OpenAI-compatible endpoint the SDK client is pointed at, including
+ * AzureOpenAI clients: modelDeployments maps configured model names to Azure deployment names.
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  private readonly openai: OpenAI;
+  private readonly modelDeployments: Record<string, string>;
+
+  constructor(openai: OpenAI, modelDeployments: Record<string, string> = {}) {
+    this.openai = openai;
+    this.modelDeployments = modelDeployments;
+  }
+
+  async complete(
+    requestParams: OpenAIRequestParams,
+    onContentDelta?: (delta: string) => void | Promise<void>,
+    options?: ChatCompletionOptions
+  ): Promise<OpenAIResponse> {
+    const params = { ...requestParams, model: this.modelDeployments[requestParams.model] ?? requestParams.model };
+    const requestOptions: [RequestOptions?] = options?.signal ? [{ signal: options.signal }] : [];
+    if (onContentDelta) {
+      const stream = await this.openai.chat.completions.create({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, ...requestOptions);
+      return await accumulateChatCompletionStream(stream, onContentDelta);
+    }
+
+    const response = await this.openai.chat.completions.create(params, ...requestOptions);
+    return this.parseResponse(response);
+  }
+
+  private parseResponse(response: unknown): OpenAIResponse {
+    if (!response || typeof response !== 'object' || !('choices' in response)) {
+      throw new Error('Invalid OpenAI response: missing choices array');
+    }
+    const responseObj = response as {
+      choices?: Array<{ message?: unknown }>;
+      usage?: {
+        total_tokens?: number;
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        completion_tokens_details?: { reasoning_tokens?: number };
+      };
+    };
+    const message = responseObj.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('Invalid OpenAI response: missing message in choices');
+    }
+
+    const usedTokens = responseObj.usage?.total_tokens || 0;
+    const messageObj = message as { content?: string | null; tool_calls?: unknown };
+    const result: OpenAIResponse = {
+      content: messageObj.content || null,
+      usedTokens,
+      promptTokens: responseObj.usage?.prompt_tokens || 0,
+      completionTokens: responseObj.usage?.completion_tokens || 0,
+    };
+    const reasoningTokens = responseObj.usage?.completion_tokens_details?.reasoning_tokens;
+    if (reasoningTokens) {
+      result.reasoningTokens = reasoningTokens;
+    }
+    if (messageObj.tool_calls) {
+      result.toolCalls = messageObj.tool_calls as ChatCompletionMessageToolCall[];
+    }
+    return result;
+  }
+}
+
+/**
+ * Accept either a ready ChatProvider or a raw OpenAI client (wrapped in the default provider)
+ */
+export function toChatProvider(provider: ChatProvider | OpenAI): ChatProvider {
+  return isChatProvider(provider) ? provider : new OpenAIChatProvider(provider);
+}
+
+function isChatProvider(provider: ChatProvider | OpenAI): provider is ChatProvider {
+  return typeof (provider as Partial<ChatProvider>).complete === 'function';
+}
@@ -7,17 +7,18 @@ import type { InternalToolHandling } from '../internal-tools/internal-tool-handl
 import { OpenAIBaseHandler } from './openai-base-handler.js';
 import type { Logger } from '../utils/logger.interface.js';
 import { createLogger } from '../utils/pino-logger.js';
-import type { OpenAIMessageHandling } from '../models/interfaces.js';
+import type { ChatProvider, OpenAIHandlerOptions, OpenAIMessageHandling } from '../models/interfaces.js';
 
 export class OpenAIMessageHandler extends OpenAIBaseHandler implements OpenAIMessageHandling {
   constructor(
-    openai: OpenAI,
+    provider: ChatProvider | OpenAI,
     openaiConfig: OpenAIConfig,
     dispatchConfig: DispatchConfig,
     internalToolHandler: InternalToolHandling | undefined,
-    logger?: Logger
+    logger?: Logger,
+    options?: OpenAIHandlerOptions
   ) {
-    super(openai, openaiConfig, dispatchConfig, logger ?? createLogger({ silent: true }), internalToolHandler);
+    super(provider, openaiConfig, dispatchConfig, logger ?? createLogger({ silent: true }), internalToolHandler, options);
   }
 
   async handleMessage(
@@ -13,18 +13,33 @@ import {
   type AgentClient,
   type AgentServer
 } from '@cubicler/cubicagentkit';
-import { loadConfig, type TransportConfig, type DispatchConfig, type MemoryConfig, type JWTConfig, type OpenAIConfig, type Config } from '../config/environment.js';
+import { loadConfig, type TransportConfig, type DispatchConfig, type MemoryConfig, type JWTConfig, type OpenAIConfig, type Config, type AgentProfiles, type AzureOpenAIConfig, type SubAgents } from '../config/environment.js';
 import { type CLIArgs } from '../utils/cli-args.js';
 import { mergeConfigWithArgs } from '../utils/config-merger.js';
 import type { InternalToolHandling } from '../internal-tools/internal-tool-handler.interface.js';
 import type { InternalTool } from '../internal-tools/internal-tool.interface.js';
 import { InternalToolAggregator } from './internal-tool-aggregator.js';
 import { OpenAIService } from './openai-service.js';
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
 import { OpenAIMessageHandler } from './openai-message-handler.js';
 import { OpenAITriggerHandler } from './openai-trigger-handler.js';
 import { createLogger } from '../utils/pino-logger.js';
 import type { Logger } from '../utils/logger.interface.js';
+import type { ChatProvider, OpenAIHandlerOptions, SpeechProvider, TranscriptionProvider } from '../models/interfaces.js';
+import { OpenAIChatProvider } from './openai-chat-provider.js';
+import { FallbackChatProvider, type ChatFallback } from './fallback-chat-provider.js';
+import { RateLimitedChatProvider } from './rate-limited-chat-provider.js';
+import { createRateLimiter } from './rate-limiter.js';
+import { isKnownModel } from '../config/model-registry.js';
+import { TransportStreamSink, isStreamTransport } from './stream-sink.js';
+import { ApprovalManager } from './approval-manager.js';
+import { ApprovalAdminServer } from './approval-admin-server.js';
+import { createAzureADTokenProvider } from './azure-token-provider.js';
+import { createToolResultCache } from './tool-result-cache.js';
+import { OpenAITranscriptionProvider } from './openai-transcription-provider.js';
+import { OpenAISpeechProvider } from './openai-speech-provider.js';
+import { StubSpeechProvider } from './stub-speech-provider.js';
+import { AttachmentStore } from './attachment-store.js';
 
 // Import all memory tools for default injection
 import { MemoryRememberTool } from '../internal-tools/memory/memory-remember-tool.js';
@@ -39,6 +54,7 @@ import { MemoryAddTagTool } from '../internal-tools/memory/memory-add-tag-tool.j
 import { MemoryRemoveTagTool } from '../internal-tools/memory/memory-remove-tag-tool.js';
 import { MemoryReplaceTagsTool } from '../internal-tools/memory/memory-replace-tags-tool.js';
 import { SummarizerInternalTool } from '../internal-tools/summarizer/summarizer-internal-tool.js';
+import { DelegateToAgentTool } from '../internal-tools/subagents/delegate-to-agent-tool.js';
 import { initializeShortTermMemoryOnFirstLoad } from '../utils/memory-init-helper.js';
 
 /**
@@ -55,33 +71,26 @@ export async function createOpenAIServiceFromEnv(cliArgs?: CLIArgs): Promise<Ope
   // Initialize memory if configured
   const memory = await initializeMemory(memoryConfig, logger);
 
-  // Create internal tool aggregator with memory tools if memory is available
-  const internalToolHandler = createInternalToolHandler(memory, logger, openaiConfig.apiKey, openaiConfig.summarizerModel);
+  warnOnUnknownModels(openaiConfig, logger);
 
-  // Initialize client and CubicAgent based on transport mode
-  const cubicAgent = await createCubicAgent(transportConfig, dispatchConfig, jwtConfig, memory, logger);
+  // Initialize chat provider (OpenAI or Azure OpenAI) with the rate limiter and fallback chain, if any
+  const chatProvider = createServiceChatProvider(openaiConfig, logger, collectChatModels(openaiConfig, config.agents, config.subAgents));
 
-  // Initialize OpenAI client and handlers
-  const openai = new OpenAI({
-    apiKey: openaiConfig.apiKey,
-    organization: openaiConfig.organization,
-    project: openaiConfig.project,
-    baseURL: openaiConfig.baseURL,
-    timeout: openaiConfig.timeout,
-    maxRetries: openaiConfig.maxRetries,
-  });
+  // Create internal tool aggregator with memory tools if memory is available
+  const internalToolHandler = createInternalToolHandler(memory, logger, chatProvider, openaiConfig, config.subAgents, dispatchConfig.subAgentMaxDepth);
 
-  const messageHandler = new OpenAIMessageHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
-  const triggerHandler = new OpenAITriggerHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
+  // Initialize client and CubicAgent based on transport mode
+  const { cubicAgent, server } = await createCubicAgent(transportConfig, dispatchConfig, jwtConfig, memory, logger);
 
-  return new OpenAIService(cubicAgent, messageHandler, triggerHandler, logger);
+  // Initialize handlers
+  return assembleService(cubicAgent, server, chatProvider, internalToolHandler, openaiConfig, dispatchConfig, logger, config.agents);
 }
 
 /**
  * Factory function to create OpenAIService from an explicit configuration object
  * (Library usage when caller has already loaded/validated config externally)
  */
-export async function createOpenAIServiceFromConfig(config: Config): Promise<OpenAIService> {
+export async function createOpenAIServiceFromConfig(config: Config, chatProvider?: ChatProvider): Promise<OpenAIService> {
   const { openai: openaiConfig, dispatch: dispatchConfig, transport: transportConfig, memory: memoryConfig, jwt: jwtConfig } = config;
 
   const logger = createLogger({ silent: transportConfig.mode === 'stdio' });
@@ -89,26 +98,19 @@ export async function createOpenAIServiceFromConfig(config: Config): Promise<Ope
   // Initialize memory if configured
   const memory = await initializeMemory(memoryConfig, logger);
 
-  // Create internal tool aggregator with memory tools if memory is available
-  const internalToolHandler = createInternalToolHandler(memory, logger, openaiConfig.apiKey, openaiConfig.summarizerModel);
+  warnOnUnknownModels(openaiConfig, logger);
 
-  // Initialize client and CubicAgent based on transport mode
-  const cubicAgent = await createCubicAgent(transportConfig, dispatchConfig, jwtConfig, memory, logger);
+  // Initialize chat provider (OpenAI or Azure OpenAI) unless one was supplied, with the rate limiter and fallback chain, if any
+  chatProvider = createServiceChatProvider(openaiConfig, logger, collectChatModels(openaiConfig, config.agents, config.subAgents), chatProvider);
 
-  // Initialize OpenAI client and handlers
-  const openai = new OpenAI({
-    apiKey: openaiConfig.apiKey,
-    organization: openaiConfig.organization,
-    project: openaiConfig.project,
-    baseURL: openaiConfig.baseURL,
-    timeout: openaiConfig.timeout,
-    maxRetries: openaiConfig.maxRetries,
-  });
+  // Create internal tool aggregator with memory tools if memory is available
+  const internalToolHandler = createInternalToolHandler(memory, logger, chatProvider, openaiConfig, config.subAgents, dispatchConfig.subAgentMaxDepth);
 
-  const messageHandler = new OpenAIMessageHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
-  const triggerHandler = new OpenAITriggerHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
+  // Initialize client and CubicAgent based on transport mode
+  const { cubicAgent, server } = await createCubicAgent(transportConfig, dispatchConfig, jwtConfig, memory, logger);
 
-  return new OpenAIService(cubicAgent, messageHandler, triggerHandler, logger);
+  // Initialize handlers
+  return assembleService(cubicAgent, server, chatProvider, internalToolHandler, openaiConfig, dispatchConfig, logger, config.agents);
 }
 
 /**
@@ -121,25 +123,16 @@ export function createOpenAIServiceWithMemory(
   memory: MemoryRepository,
   openaiConfig: OpenAIConfig,
   dispatchConfig: DispatchConfig,
-  logger?: Logger
+  logger?: Logger,
+  chatProvider?: ChatProvider
 ): OpenAIService {
   logger = logger ?? createLogger({});
+  warnOnUnknownModels(openaiConfig, logger);
   const cubicAgent = new CubicAgent(agentClient, agentServer, memory);
-  const internalToolHandler = createInternalToolHandler(memory, logger, openaiConfig.apiKey, openaiConfig.summarizerModel);
-
-  const openai = new OpenAI({
-    apiKey: openaiConfig.apiKey,
-    organization: openaiConfig.organization,
-    project: openaiConfig.project,
-    baseURL: openaiConfig.baseURL,
-    timeout: openaiConfig.timeout,
-    maxRetries: openaiConfig.maxRetries,
-  });
+  chatProvider = createServiceChatProvider(openaiConfig, logger, collectChatModels(openaiConfig), chatProvider);
+  const internalToolHandler = createInternalToolHandler(memory, logger, chatProvider, openaiConfig);
 
-  const messageHandler = new OpenAIMessageHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
-  const triggerHandler = new OpenAITriggerHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
-
-  return new OpenAIService(cubicAgent, messageHandler, triggerHandler, logger);
+  return assembleService(cubicAgent, agentServer, chatProvider, internalToolHandler, openaiConfig, dispatchConfig, logger);
 }
 
 /**
@@ -150,25 +143,40 @@ export function createOpenAIServiceBasic(
   agentServer: AgentServer,
   openaiConfig: OpenAIConfig,
   dispatchConfig: DispatchConfig,
-  logger?: Logger
+  logger?: Logger,
+  chatProvider?: ChatProvider
 ): OpenAIService {
   logger = logger ?? createLogger({});
+  warnOnUnknownModels(openaiConfig, logger);
   const cubicAgent = new CubicAgent(agentClient, agentServer, undefined);
   const internalToolHandler = undefined; // No memory -> no internal memory tools
 
-  const openai = new OpenAI({
-    apiKey: openaiConfig.apiKey,
-    organization: openaiConfig.organization,
-    project: openaiConfig.project,
-    baseURL: openaiConfig.baseURL,
-    timeout: openaiConfig.timeout,
-    maxRetries: openaiConfig.maxRetries,
-  });
+  chatProvider = createServiceChatProvider(openaiConfig, logger, collectChatModels(openaiConfig), chatProvider);
+
+  return assembleService(cubicAgent, agentServer, chatProvider, internalToolHandler, openaiConfig, dispatchConfig, logger);
+}
 
-  const messageHandler = new OpenAIMessageHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
-  const triggerHandler = new OpenAITriggerHandler(openai, openaiConfig, dispatchConfig, internalToolHandler, logger);
+/**
+ * Handlers and service shared by every factory: both handlers get the same handler options
+ * (approvals, attachments, transcription, speech, tool cache, streaming), and the approval
+ * admin endpoint is started when configured
+ */
+function assembleService(
+  cubicAgent: CubicAgent,
+  agentServer: AgentServer,
+  chatProvider: ChatProvider,
+  internalToolHandler: InternalToolHandling | undefined,
+  openaiConfig: OpenAIConfig,
+  dispatchConfig: DispatchConfig,
+  logger: Logger,
+  agentProfiles?: AgentProfiles
+): OpenAIService {
+  const handlerOptions = createHandlerOptions(openaiConfig, agentServer, dispatchConfig, logger, agentProfiles);
+  const messageHandler = new OpenAIMessageHandler(chatProvider, openaiConfig, dispatchConfig, internalToolHandler, logger, handlerOptions);
+  const triggerHandler = new OpenAITriggerHandler(chatProvider, openaiConfig, dispatchConfig, internalToolHandler, logger, handlerOptions);
+  const approvalAdmin = createApprovalAdminServer(dispatchConfig, handlerOptions, logger);
 
-  return new OpenAIService(cubicAgent, messageHandler, triggerHandler, logger);
+  return new OpenAIService(cubicAgent, messageHandler, triggerHandler, logger, approvalAdmin);
 }
 
 /**
@@ -209,11 +217,19 @@ async function initializeMemory(memoryConfig: MemoryConfig, logger: Logger): Pro
 function createInternalToolHandler(
   memory: MemoryRepository | undefined, 
   logger: Logger,
-  openaiApiKey?: string, 
-  summarizerModel?: string
+  chatProvider: ChatProvider,
+  openaiConfig: OpenAIConfig,
+  subAgents?: SubAgents,
+  subAgentMaxDepth?: number
 ): InternalToolHandling | undefined {
+  const delegationTools = subAgents && Object.keys(subAgents).length > 0
+    ? [new DelegateToAgentTool(subAgents, subAgentMaxDepth, logger)]
+    : [];
+  if (delegationTools.length > 0) {
+    logger.info(`🤝 Sub-agents enabled: ${Object.keys(subAgents ?? {}).join(', ')}`);
+  }
   if (!memory) {
-    return undefined;
+    return delegationTools.length > 0 ? new InternalToolAggregator(delegationTools, logger) : undefined;
   }
 
   // Create original memory tools
@@ -232,16 +248,16 @@ function createInternalToolHandler(
   ];
 
   // Collect all tools (original + summarized versions)
-  const allTools: InternalTool[] = [...originalMemoryTools];
+  const allTools: InternalTool[] = [...originalMemoryTools, ...delegationTools];
 
   // Create summarized versions for specific memory tools if summarization is enabled
-  const enableSummarization = Boolean(openaiApiKey && summarizerModel);
-  if (enableSummarization && summarizerModel && openaiApiKey) {
+  const { summarizerModel } = openaiConfig;
+  if (summarizerModel) {
     // Create summarized versions for memory tools that benefit from summarization
     const summarizedTools = [
-      new SummarizerInternalTool(new MemoryRecallTool(memory, logger), summarizerModel, openaiApiKey, logger),
-      new SummarizerInternalTool(new MemorySearchTool(memory, logger), summarizerModel, openaiApiKey, logger),
-      new SummarizerInternalTool(new MemoryGetShortTermTool(memory, logger), summarizerModel, openaiApiKey, logger)
+      new SummarizerInternalTool(new MemoryRecallTool(memory, logger), summarizerModel, chatProvider, logger, openaiConfig),
+      new SummarizerInternalTool(new MemorySearchTool(memory, logger), summarizerModel, chatProvider, logger, openaiConfig),
+      new SummarizerInternalTool(new MemoryGetShortTermTool(memory, logger), summarizerModel, chatProvider, logger, openaiConfig)
     ];
 
     allTools.push(...summarizedTools);
@@ -253,6 +269,244 @@ function createInternalToolHandler(
   return new InternalToolAggregator(allTools);
 }
 
+/**
+ * Create the chat provider for the configured backend: Azure OpenAI when OPENAI_PROVIDER=azure,
+ * otherwise the OpenAI SDK pointed at OPENAI_BASE_URL (or api.openai.com)
+ */
+function createChatProvider(openaiConfig: OpenAIConfig, logger: Logger, models: string[]): ChatProvider {
+  if (openaiConfig.provider === 'azure' && openaiConfig.azure) {
+    return createAzureChatProvider(openaiConfig, openaiConfig.azure, logger, models);
+  }
+  return new OpenAIChatProvider(createOpenAIClient(openaiConfig, openaiConfig.baseURL));
+}
+
+/**
+ * Chat provider used by every factory: the supplied provider, or one for the configured
+ * backend, wrapped in the OPENAI_FALLBACK_MODELS chain. The shared OPENAI_RPM_LIMITS /
+ * OPENAI_TPM_LIMITS limiter sits in front of every provider in the chain, inside it, so each
+ * model is budgeted under its own name, fallbacks on other endpoints included
+ */
+function createServiceChatProvider(
+  openaiConfig: OpenAIConfig,
+  logger: Logger,
+  models: string[],
+  chatProvider?: ChatProvider
+): ChatProvider {
+  const limiter = createRateLimiter(openaiConfig, logger);
+  const withRateLimit = (provider: ChatProvider): ChatProvider => (limiter ? new RateLimitedChatProvider(provider, limiter) : provider);
+  const primary = withRateLimit(chatProvider ?? createChatProvider(openaiConfig, logger, models));
+
+  const fallbackModels = openaiConfig.fallbackModels ?? [];
+  if (fallbackModels.length === 0) {
+    return primary;
+  }
+  // Fallbacks with a base URL get their own OpenAI-compatible client, the others go through the primary provider
+  const fallbacks: ChatFallback[] = fallbackModels.map(({ model, baseURL }) => (baseURL
+    ? { model, provider: withRateLimit(new OpenAIChatProvider(createOpenAIClient(openaiConfig, baseURL))), label: `${model}@${baseURL}` }
+    : { model }));
+  logger.info(`🔀 Model fallback chain: ${[openaiConfig.model, ...fallbacks.map((fallback) => fallback.label ?? fallback.model)].join(' -> ')}`);
+  return new FallbackChatProvider(primary, fallbacks, {
+    requestSettings: openaiConfig,
+    ...(openaiConfig.fallbackMaxWait !== undefined && { maxWaitMs: openaiConfig.fallbackMaxWait }),
+  }, logger);
+}
+
+function createOpenAIClient(openaiConfig: OpenAIConfig, baseURL: string | undefined): OpenAI {
+  return new OpenAI({
+    apiKey: openaiConfig.apiKey,
+    organization: openaiConfig.organization,
+    project: openaiConfig.project,
+    baseURL,
+    timeout: openaiConfig.timeout,
+    maxRetries: openaiConfig.maxRetries,
+  });
+}
+
+function createAzureClient(openaiConfig: OpenAIConfig, azureConfig: AzureOpenAIConfig): AzureOpenAI {
+  const azureADTokenProvider = createAzureADTokenProvider(azureConfig);
+  return new AzureOpenAI({
+    endpoint: azureConfig.endpoint,
+    apiVersion: azureConfig.apiVersion,
+    timeout: openaiConfig.timeout,
+    maxRetries: openaiConfig.maxRetries,
+    ...(azureADTokenProvider
+      ? { azureADTokenProvider }
+      : { apiKey: azureConfig.apiKey ?? openaiConfig.apiKey }),
+  });
+}
+
+/**
+ * Create an Azure OpenAI chat provider that routes each model to its deployment. Configured
+ * models without one (fallbacks, sub-agents, reviewers) are sent under their own name, with a warning
+ */
+function createAzureChatProvider(
+  openaiConfig: OpenAIConfig,
+  azureConfig: AzureOpenAIConfig,
+  logger: Logger,
+  models: string[]
+): ChatProvider {
+  const azure = createAzureClient(openaiConfig, azureConfig);
+
+  const modelDeployments: Record<string, string> = { ...azureConfig.modelDeployments };
+  modelDeployments[openaiConfig.model] ??= azureConfig.deployment;
+  if (openaiConfig.summarizerModel) {
+    modelDeployments[openaiConfig.summarizerModel] ??= azureConfig.summarizerDeployment ?? azureConfig.deployment;
+  }
+
+  for (const model of new Set(models)) {
+    if (!modelDeployments[model]) {
+      logger.warn(`⚠️ No Azure deployment for model ${model} (AZURE_OPENAI_MODEL_DEPLOYMENTS); its requests use the model name as the deployment`);
+    }
+  }
+
+  return new OpenAIChatProvider(azure, modelDeployments);
+}
+
+/**
+ * Every model the agent may call through the chat provider: the main and summarizer models,
+ * fallbacks served by it (not on their own endpoint), sub-agent and reviewer models
+ */
+function collectChatModels(openaiConfig: OpenAIConfig, agentProfiles?: AgentProfiles, subAgents?: SubAgents): string[] {
+  return [
+    openaiConfig.model,
+    openaiConfig.summarizerModel,
+    ...(openaiConfig.fallbackModels ?? []).filter((fallback) => !fallback.baseURL).map((fallback) => fallback.model),
+    ...Object.values(subAgents ?? {}).map((subAgent) => subAgent.model),
+    ...Object.values(agentProfiles ?? {}).map((profile) => profile.review?.model),
+  ].filter((model): model is string => Boolean(model));
+}
+
+/**
+ * Create the provider that transcribes audio messages for models without audio input:
+ * TRANSCRIPTION_BASE_URL when set, otherwise the chat endpoint (TRANSCRIPTION_MODEL is
+ * the Whisper deployment name on Azure). TRANSCRIPTION_PROVIDER=none disables it
+ */
+function createTranscriptionProvider(openaiConfig: OpenAIConfig): TranscriptionProvider | undefined {
+  if (openaiConfig.transcriptionProvider === 'none') {
+    return undefined;
+  }
+  const client = !openaiConfig.transcriptionBaseURL && openaiConfig.provider === 'azure' && openaiConfig.azure
+    ? createAzureClient(openaiConfig, openaiConfig.azure)
+    : createOpenAIClient(openaiConfig, openaiConfig.transcriptionBaseURL ?? openaiConfig.baseURL);
+  return new OpenAITranscriptionProvider(client, openaiConfig.transcriptionModel);
+}
+
+/**
+ * Create the provider that speaks final answers for agents with a speech profile:
+ * TTS_BASE_URL when set, otherwise the chat endpoint (TTS_MODEL is the deployment
+ * name on Azure). Disabled unless TTS_PROVIDER is openai or stub
+ */
+function createSpeechProvider(openaiConfig: OpenAIConfig): SpeechProvider | undefined {
+  switch (openaiConfig.ttsProvider) {
+    case 'stub':
+      return new StubSpeechProvider();
+    case 'openai': {
+      const client = !openaiConfig.ttsBaseURL && openaiConfig.provider === 'azure' && openaiConfig.azure
+        ? createAzureClient(openaiConfig, openaiConfig.azure)
+        : createOpenAIClient(openaiConfig, openaiConfig.ttsBaseURL ?? openaiConfig.baseURL);
+      return new OpenAISpeechProvider(client, openaiConfig.ttsModel);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Warn when a configured model is not in the registry, since conservative defaults will apply
+ */
+function warnOnUnknownModels(openaiConfig: OpenAIConfig, logger: Logger): void {
+  const fallbackModels = openaiConfig.fallbackModels?.map((fallback) => fallback.model) ?? [];
+  const models = [openaiConfig.model, openaiConfig.summarizerModel, ...fallbackModels].filter((model): model is string => Boolean(model));
+  for (const model of models) {
+    if (!isKnownModel(model, openaiConfig.models)) {
+      logger.warn(`⚠️ Model ${model} is not in the model registry; using conservative defaults (declare its capabilities in OPENAI_MODELS_PATH)`);
+    }
+  }
+}
+
+/**
+ * Create handler options shared by the message and trigger handlers
+ */
+function createHandlerOptions(
+  openaiConfig: OpenAIConfig,
+  agentServer: AgentServer,
+  dispatchConfig: DispatchConfig,
+  logger: Logger,
+  agentProfiles?: AgentProfiles
+): OpenAIHandlerOptions {
+  // One approval manager for both handlers, so either can resume a paused session;
+  // likewise one attachment store, so extracted documents are shared
+  const options: OpenAIHandlerOptions = {
+    approvalManager: new ApprovalManager(undefined, logger, dispatchConfig.approvalTtl),
+    attachmentStore: new AttachmentStore(),
+  };
+
+  if (agentProfiles) {
+    options.agentProfiles = agentProfiles;
+  }
+
+  const transcriptionProvider = createTranscriptionProvider(openaiConfig);
+  if (transcriptionProvider) {
+    options.transcriptionProvider = transcriptionProvider;
+  }
+
+  const speechProvider = createSpeechProvider(openaiConfig);
+  if (speechProvider) {
+    options.speechProvider = speechProvider;
+  }
+
+  // Shared so cached tool results are reused across handlers and sessions
+  const toolResultCache = createToolResultCache(dispatchConfig, logger);
+  if (toolResultCache) {
+    options.toolResultCache = toolResultCache;
+  }
+
+  // Streaming is only forwarded over transports that can send notifications to Cubicler
+  if (openaiConfig.stream) {
+    if (isStreamTransport(agentServer)) {
+      options.streamSink = new TransportStreamSink(agentServer, logger);
+    } else {
+      logger.warn('⚠️ OPENAI_STREAM is set but the agent server cannot send notifications; responses will not be streamed');
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Create the approval admin endpoint when APPROVAL_ADMIN_PORT and APPROVAL_ADMIN_TOKEN are set
+ */
+function createApprovalAdminServer(
+  dispatchConfig: DispatchConfig,
+  handlerOptions: OpenAIHandlerOptions,
+  logger: Logger
+): ApprovalAdminServer | undefined {
+  if (!dispatchConfig.approvalAdminPort || !handlerOptions.approvalManager) {
+    return undefined;
+  }
+  if (!dispatchConfig.approvalAdminToken) {
+    logger.warn('⚠️ APPROVAL_ADMIN_PORT is set without APPROVAL_ADMIN_TOKEN; the approval endpoint is not started');
+    return undefined;
+  }
+  return new ApprovalAdminServer(
+    handlerOptions.approvalManager,
+    {
+      port: dispatchConfig.approvalAdminPort,
+      token: dispatchConfig.approvalAdminToken,
+      ...(dispatchConfig.approvalAdminHost && { host: dispatchConfig.approvalAdminHost }),
+    },
+    logger
+  );
+}
+
+/**
+ * A CubicAgent and the server it answers Cubicler on
+ */
+interface AgentConnection {
+  cubicAgent: CubicAgent;
+  server: AgentServer;
+}
+
 /**
  * Create CubicAgent with appropriate client and server based on transport mode
  */
@@ -262,7 +516,7 @@ async function createCubicAgent(
   jwtConfig: JWTConfig,
   memory: MemoryRepository | undefined,
   logger: Logger
-): Promise<CubicAgent> {
+): Promise<AgentConnection> {
   if (transportConfig.mode === 'stdio') {
     return createStdioCubicAgent(transportConfig, memory, logger);
   } else if (transportConfig.mode === 'sse') {
@@ -279,14 +533,14 @@ function createStdioCubicAgent(
   transportConfig: TransportConfig,
   memory: MemoryRepository | undefined,
   logger: Logger
-): CubicAgent {
+): AgentConnection {
   const client = new StdioAgentClient();
   const server = new StdioAgentServer();
   const cubicAgent = new CubicAgent(client, server, memory);
   
   logger.info(`🚀 OpenAI ready - ${transportConfig.mode} transport - stdio`);
   
-  return cubicAgent;
+  return { cubicAgent, server };
 }
 
 /**
@@ -298,7 +552,7 @@ function createHttpCubicAgent(
   jwtConfig: JWTConfig,
   memory: MemoryRepository | undefined,
   logger: Logger
-): CubicAgent {
+): AgentConnection {
   if (!transportConfig.cubiclerUrl) {
     throw new Error('CUBICLER_URL is required for HTTP transport mode');
   }
@@ -331,7 +585,7 @@ function createHttpCubicAgent(
   
   logger.info(`🚀 OpenAI ready - ${transportConfig.mode} transport - ${dispatchConfig.agentPort}`);
   
-  return cubicAgent;
+  return { cubicAgent, server };
 }
 
 /**
@@ -342,7 +596,7 @@ function createSSECubicAgent(
   jwtConfig: JWTConfig,
   memory: MemoryRepository | undefined,
   logger: Logger
-): CubicAgent {
+): AgentConnection {
   if (!transportConfig.sseUrl) {
     throw new Error('SSE_URL is required for SSE transport mode');
   }
@@ -370,7 +624,7 @@ function createSSECubicAgent(
   
   logger.info(`⚡ OpenAI ready - ${transportConfig.mode} transport - SSE connected to ${transportConfig.sseUrl}`);
   
-  return cubicAgent;
+  return { cubicAgent, server };
 }
 
 /**
@@ -3,6 +3,7 @@ import type { AgentRequest, AgentResponse } from '@cubicler/cubicagentkit';
 import type { OpenAITriggerHandling, OpenAIMessageHandling } from '../models/interfaces.js';
 import type { Logger } from '../utils/logger.interface.js';
 import { createLogger } from '../utils/pino-logger.js';
+import type { ApprovalAdminServer } from './approval-admin-server.js';
 
 /**
  * OpenAIService
@@ -23,23 +24,27 @@ export class OpenAIService {
   private messageHandler: OpenAIMessageHandling;
   private triggerHandler: OpenAITriggerHandling;
   private logger: Logger;
+  private approvalAdmin: ApprovalAdminServer | undefined;
 
   constructor(
     cubicAgent: CubicAgent,
     messageHandler: OpenAIMessageHandling,
     triggerHandler: OpenAITriggerHandling,
-    logger?: Logger
+    logger?: Logger,
+    approvalAdmin?: ApprovalAdminServer
   ) {
     this.cubicAgent = cubicAgent;
     this.messageHandler = messageHandler;
     this.triggerHandler = triggerHandler;
     this.logger = logger ?? createLogger({ silent: true });
+    this.approvalAdmin = approvalAdmin;
   }
 
   /**
-   * Start the CubicAgent (kit will handle MCP initialization automatically)
+   * Start the CubicAgent (kit will handle MCP initialization automatically) and the approval admin endpoint if configured
    */
   async start(): Promise<void> {
+    await this.approvalAdmin?.start();
     await this.cubicAgent
       .start()
       .onMessage(async (request, client, context) => {
@@ -72,9 +77,10 @@ export class OpenAIService {
   }
 
   /**
-   * Stop the CubicAgent
+   * Stop the CubicAgent and the approval admin endpoint
    */
   async stop(): Promise<void> {
+    await this.approvalAdmin?.stop();
     await this.cubicAgent.stop();
   }
 
@@ -0,0 +1,33 @@
+import OpenAI from 'openai';
+import type { RequestOptions } from 'openai/core.js';
+import type { SpeechProvider } from '../models/interfaces.js';
+import type { ChatCompletionOptions, SpeechSettings } from '../models/types.js';
+
+const DEFAULT_TTS_MODEL = 'gpt-4o-mini-tts';
+
+/**
+ * OpenAISpeechProvider
+ * Default SpeechProvider backed by the OpenAI SDK audio speech API.
+ * Works with OpenAI-compatible TTS servers and AzureOpenAI clients, where the
+ * model is the TTS deployment name.
+ */
+export class OpenAISpeechProvider implements SpeechProvider {
+  private readonly openai: OpenAI;
+  private readonly model: string;
+
+  constructor(openai: OpenAI, model: string = DEFAULT_TTS_MODEL) {
+    this.openai = openai;
+    this.model = model;
+  }
+
+  async synthesize(text: string, settings: SpeechSettings, options?: ChatCompletionOptions): Promise<Buffer> {
+    const requestOptions: [RequestOptions?] = options?.signal ? [{ signal: options.signal }] : [];
+    const response = await this.openai.audio.speech.create({
+      model: this.model,
+      voice: settings.voice,
+      input: text,
+      response_format: settings.format,
+    }, ...requestOptions);
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
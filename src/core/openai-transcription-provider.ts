@@ -0,0 +1,29 @@
+import OpenAI, { toFile } from 'openai';
+import type { RequestOptions } from 'openai/core.js';
+import type { TranscriptionProvider } from '../models/interfaces.js';
+import type { AudioInput, ChatCompletionOptions } from '../models/types.js';
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+/**
+ * OpenAITranscriptionProvider
+ * Default TranscriptionProvider backed by the OpenAI SDK audio transcriptions API.
+ * Works with OpenAI-compatible transcription servers and AzureOpenAI clients, where the
+ * model is the Whisper deployment name.
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  private readonly openai: OpenAI;
+  private readonly model: string;
+
+  constructor(openai: OpenAI, model: string = DEFAULT_TRANSCRIPTION_MODEL) {
+    this.openai = openai;
+    this.model = model;
+  }
+
+  async transcribe(audio: AudioInput, options?: ChatCompletionOptions): Promise<string> {
+    const file = await toFile(audio.data, `audio.${audio.format}`);
+    const requestOptions: [RequestOptions?] = options?.signal ? [{ signal: options.signal }] : [];
+    const transcription = await this.openai.audio.transcriptions.create({ file, model: this.model }, ...requestOptions);
+    return transcription.text.trim();
+  }
+}
@@ -7,17 +7,18 @@ import type { InternalToolHandling } from '../internal-tools/internal-tool-handl
 import { OpenAIBaseHandler } from './openai-base-handler.js';
 import type { Logger } from '../utils/logger.interface.js';
 import { createLogger } from '../utils/pino-logger.js';
-import type { OpenAITriggerHandling } from '../models/interfaces.js';
+import type { ChatProvider, OpenAIHandlerOptions, OpenAITriggerHandling } from '../models/interfaces.js';
 
 export class OpenAITriggerHandler extends OpenAIBaseHandler implements OpenAITriggerHandling {
   constructor(
-    openai: OpenAI,
+    provider: ChatProvider | OpenAI,
     openaiConfig: OpenAIConfig,
     dispatchConfig: DispatchConfig,
     internalToolHandler: InternalToolHandling | undefined,
-    logger?: Logger
+    logger?: Logger,
+    options?: OpenAIHandlerOptions
   ) {
-    super(openai, openaiConfig, dispatchConfig, logger ?? createLogger({ silent: true }), internalToolHandler);
+    super(provider, openaiConfig, dispatchConfig, logger ?? createLogger({ silent: true }), internalToolHandler, options);
   }
 
   protected override buildSystemContent(request: TriggerRequest, iteration: number, memory?: MemoryRepository): string {
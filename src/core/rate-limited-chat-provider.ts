@@ -0,0 +1,39 @@
+import type { ChatProvider } from '../models/interfaces.js';
+import type { ChatCompletionOptions, OpenAIRequestParams, OpenAIResponse } from '../models/types.js';
+import { estimatePromptTokens } from '../utils/token-helper.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+/**
+ * RateLimitedChatProvider
+ * ChatProvider that takes a slot from a shared RateLimiter before each call. A call is
+ * budgeted at its estimated prompt plus its completion cap, then settled with the
+ * tokens the response reports.
+ */
+export class RateLimitedChatProvider implements ChatProvider {
+  private readonly provider: ChatProvider;
+  private readonly limiter: RateLimiter;
+
+  constructor(provider: ChatProvider, limiter: RateLimiter) {
+    this.provider = provider;
+    this.limiter = limiter;
+  }
+
+  async complete(
+    requestParams: OpenAIRequestParams,
+    onContentDelta?: (delta: string) => void | Promise<void>,
+    options?: ChatCompletionOptions
+  ): Promise<OpenAIResponse> {
+    const estimate = estimatePromptTokens(requestParams.messages, requestParams.tools)
+      + (requestParams.max_completion_tokens ?? requestParams.max_tokens ?? 0);
+    const permit = await this.limiter.acquire(requestParams.model, estimate, options?.signal);
+    let usedTokens = 0;
+    try {
+      const result = await this.provider.complete(requestParams, onContentDelta, options);
+      usedTokens = result.usedTokens;
+      return result;
+    } finally {
+      // Failed calls keep their estimate
+      permit.settle(usedTokens);
+    }
+  }
+}
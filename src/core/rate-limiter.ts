@@ -0,0 +1,197 @@
+import type { OpenAIConfig } from '../config/environment.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+
+const WINDOW_MS = 60000;
+const DEFAULT_MAX_WAIT_MS = 30000;
+const DEFAULT_MAX_QUEUE = 100;
+
+export interface RateLimiterOptions {
+  /** Requests per minute by model; '*' applies to models without their own entry */
+  rpm?: Record<string, number>;
+  /** Estimated tokens per minute by model; '*' applies to models without their own entry */
+  tpm?: Record<string, number>;
+  /** Longest a call may wait in the queue before it is rejected */
+  maxWaitMs?: number;
+  /** Calls allowed to wait per model; further calls are rejected immediately */
+  maxQueue?: number;
+}
+
+/**
+ * A granted slot; settle it with the call's actual token usage once known
+ */
+export interface RateLimitPermit {
+  settle(usedTokens: number): void;
+}
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (permit: RateLimitPermit) => void;
+  timer: ReturnType<typeof setTimeout>;
+  cleanup: () => void;
+}
+
+interface ModelBudget {
+  rpm: number | undefined;
+  tpm: number | undefined;
+  window: WindowEntry[];
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * RateLimiter
+ * Shared client-side budget for model calls: requests and estimated tokens per model over
+ * a sliding one-minute window. Callers over budget wait in a first-in, first-out queue per
+ * model, so a large call is not starved by smaller ones behind it. A call is rejected once
+ * it has waited maxWaitMs, or straight away when maxQueue calls are already waiting.
+ * Estimates are replaced with actual usage when a call settles.
+ */
+export class RateLimiter {
+  private readonly rpm: Record<string, number>;
+  private readonly tpm: Record<string, number>;
+  private readonly maxWaitMs: number;
+  private readonly maxQueue: number;
+  private readonly logger: Logger;
+  private readonly budgets = new Map<string, ModelBudget>();
+
+  constructor(options: RateLimiterOptions, logger?: Logger) {
+    this.rpm = options.rpm ?? {};
+    this.tpm = options.tpm ?? {};
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.maxQueue = options.maxQueue ?? DEFAULT_MAX_QUEUE;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  /**
+   * Wait for room for one call of the model using about `tokens` tokens
+   */
+  async acquire(model: string, tokens: number, signal?: AbortSignal): Promise<RateLimitPermit> {
+    signal?.throwIfAborted();
+    const budget = this.getBudget(model);
+    if (budget.rpm === undefined && budget.tpm === undefined) {
+      return { settle: () => {} };
+    }
+    if (budget.queue.length === 0 && this.hasRoom(budget, tokens)) {
+      return this.grant(budget, tokens);
+    }
+    if (budget.queue.length >= this.maxQueue) {
+      this.logger.warn(`🚦 Rate limiter queue for ${model} is full (${budget.queue.length} waiting), rejecting call`);
+      throw new Error(`OpenAI client overloaded: rate limiter queue for ${model} is full (${budget.queue.length} calls waiting); retry later`);
+    }
+
+    return await new Promise<RateLimitPermit>((resolve, reject) => {
+      const onAbort = () => {
+        this.removeWaiter(budget, waiter);
+        reject(signal?.reason);
+      };
+      const waiter: Waiter = {
+        tokens,
+        resolve,
+        timer: setTimeout(() => {
+          this.removeWaiter(budget, waiter);
+          this.logger.warn(`🚦 Call for ${model} waited ${this.maxWaitMs}ms for the rate limit, rejecting it`);
+          reject(new Error(`OpenAI client overloaded: waited ${this.maxWaitMs}ms for the ${model} rate limit; retry later`));
+        }, this.maxWaitMs),
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      budget.queue.push(waiter);
+      this.logger.info(`🚦 Call for ${model} queued by the rate limiter (${budget.queue.length} waiting)`);
+      this.schedule(budget);
+    });
+  }
+
+  private getBudget(model: string): ModelBudget {
+    let budget = this.budgets.get(model);
+    if (!budget) {
+      budget = { rpm: this.rpm[model] ?? this.rpm['*'], tpm: this.tpm[model] ?? this.tpm['*'], window: [], queue: [], timer: undefined };
+      this.budgets.set(model, budget);
+    }
+    return budget;
+  }
+
+  private hasRoom(budget: ModelBudget, tokens: number): boolean {
+    const now = Date.now();
+    budget.window = budget.window.filter((entry) => entry.time > now - WINDOW_MS);
+    if (budget.rpm !== undefined && budget.window.length >= budget.rpm) {
+      return false;
+    }
+    if (budget.tpm === undefined || budget.window.length === 0) {
+      // A call larger than the whole token budget still runs once the window is empty
+      return true;
+    }
+    const used = budget.window.reduce((total, entry) => total + entry.tokens, 0);
+    return used + tokens <= budget.tpm;
+  }
+
+  private grant(budget: ModelBudget, tokens: number): RateLimitPermit {
+    const entry: WindowEntry = { time: Date.now(), tokens };
+    budget.window.push(entry);
+    return {
+      settle: (usedTokens: number) => {
+        if (usedTokens > 0) {
+          entry.tokens = usedTokens;
+          this.drain(budget);
+        }
+      },
+    };
+  }
+
+  /**
+   * Admit queued calls in order while there is room, then wait for the window to free up
+   */
+  private drain(budget: ModelBudget): void {
+    while (budget.queue[0] && this.hasRoom(budget, budget.queue[0].tokens)) {
+      const waiter = budget.queue.shift() as Waiter;
+      clearTimeout(waiter.timer);
+      waiter.cleanup();
+      waiter.resolve(this.grant(budget, waiter.tokens));
+    }
+    this.schedule(budget);
+  }
+
+  private schedule(budget: ModelBudget): void {
+    if (budget.timer) {
+      clearTimeout(budget.timer);
+      budget.timer = undefined;
+    }
+    const oldest = budget.window[0];
+    if (budget.queue.length === 0 || !oldest) {
+      return;
+    }
+    budget.timer = setTimeout(() => {
+      budget.timer = undefined;
+      this.drain(budget);
+    }, Math.max(0, oldest.time + WINDOW_MS - Date.now()));
+  }
+
+  private removeWaiter(budget: ModelBudget, waiter: Waiter): void {
+    clearTimeout(waiter.timer);
+    waiter.cleanup();
+    budget.queue = budget.queue.filter((queued) => queued !== waiter);
+    // The head of the queue may have changed
+    this.drain(budget);
+  }
+}
+
+/**
+ * Create the shared rate limiter from OPENAI_RPM_LIMITS / OPENAI_TPM_LIMITS, or undefined when no limits are set
+ */
+export function createRateLimiter(openaiConfig: OpenAIConfig, logger?: Logger): RateLimiter | undefined {
+  const { rpmLimits, tpmLimits } = openaiConfig;
+  if (!rpmLimits && !tpmLimits) {
+    return undefined;
+  }
+  return new RateLimiter({
+    ...(rpmLimits && { rpm: rpmLimits }),
+    ...(tpmLimits && { tpm: tpmLimits }),
+    ...(openaiConfig.rateLimitMaxWait !== undefined && { maxWaitMs: openaiConfig.rateLimitMaxWait }),
+    ...(openaiConfig.rateLimitMaxQueue !== undefined && { maxQueue: openaiConfig.rateLimitMaxQueue }),
+  }, logger);
+}
@@ -0,0 +1,78 @@
+import type { StreamSink, StreamTransport } from '../models/interfaces.js';
+import type { StreamEvent } from '../models/types.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+
+const STREAM_METHOD = 'agent/stream';
+const DEFAULT_FLUSH_INTERVAL_MS = 50;
+
+/**
+ * TransportStreamSink
+ * Sends stream events as JSON-RPC `agent/stream` notifications through the agent server's
+ * own notification channel, so they share its framing and connection (stdout for stdio,
+ * the SSE connection for sse). Deltas are buffered and sent in batches every
+ * flushIntervalMs, consecutive deltas of an iteration merged into one event, so writing
+ * a delta never waits on the transport. The done event flushes everything before it.
+ * Delivery failures are logged and swallowed; the final response is still sent normally.
+ */
+export class TransportStreamSink implements StreamSink {
+  private readonly transport: StreamTransport;
+  private readonly logger: Logger;
+  private readonly flushIntervalMs: number;
+  private pending: StreamEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(transport: StreamTransport, logger?: Logger, flushIntervalMs: number = DEFAULT_FLUSH_INTERVAL_MS) {
+    this.transport = transport;
+    this.logger = logger ?? createLogger({ silent: true });
+    this.flushIntervalMs = flushIntervalMs;
+  }
+
+  async write(event: StreamEvent): Promise<void> {
+    const last = this.pending[this.pending.length - 1];
+    if (event.type === 'delta' && last?.type === 'delta' && last.iteration === event.iteration) {
+      last.content += event.content;
+    } else {
+      this.pending.push({ ...event });
+    }
+
+    if (event.type === 'done') {
+      await this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+    }
+  }
+
+  /**
+   * Send everything buffered, in order after any batch still being sent
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const events = this.pending;
+    this.pending = [];
+    this.sending = this.sending.then(() => this.send(events));
+    return this.sending;
+  }
+
+  private async send(events: StreamEvent[]): Promise<void> {
+    for (const event of events) {
+      try {
+        await this.transport.sendNotification(STREAM_METHOD, event);
+      } catch (error) {
+        this.logger.warn(`⚠️ Failed to forward stream event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+}
+
+/**
+ * Whether an agent server can send notifications to Cubicler, i.e. supports streaming
+ */
+export function isStreamTransport(server: unknown): server is StreamTransport {
+  return typeof server === 'object' && server !== null
+    && typeof (server as Partial<StreamTransport>).sendNotification === 'function';
+}
@@ -0,0 +1,14 @@
+import type { SpeechProvider } from '../models/interfaces.js';
+import type { SpeechSettings } from '../models/types.js';
+
+/**
+ * StubSpeechProvider
+ * Local SpeechProvider for tests and development (TTS_PROVIDER=stub). Returns a
+ * deterministic placeholder naming the voice, format and text instead of real audio,
+ * so the speech stage can be exercised without calling a TTS service.
+ */
+export class StubSpeechProvider implements SpeechProvider {
+  async synthesize(text: string, settings: SpeechSettings): Promise<Buffer> {
+    return Buffer.from(`stub-speech:${settings.voice}:${settings.format}:${text}`, 'utf-8');
+  }
+}
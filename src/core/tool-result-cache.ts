@@ -0,0 +1,125 @@
+import type { DispatchConfig } from '../config/environment.js';
+import type { Logger } from '../utils/logger.interface.js';
+import { createLogger } from '../utils/pino-logger.js';
+import { canonicalJson } from '../utils/tool-loop-helper.js';
+import { matchesToolPattern } from '../utils/tool-policy-helper.js';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+export interface ToolResultCacheOptions {
+  /** TTL in ms per tool name or glob; only tools listed here are cached */
+  ttls: Record<string, number>;
+  maxEntries?: number;
+}
+
+export interface ToolResultCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * ToolResultCache
+ * Shared across sessions: results of idempotent tools, keyed by tool name and
+ * canonicalised arguments, are reused until their per-tool TTL runs out.
+ * Tools are opt-in; anything without a configured TTL is never cached.
+ */
+export class ToolResultCache {
+  private readonly ttls: Array<[string, number]>;
+  private readonly maxEntries: number;
+  private readonly logger: Logger;
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: ToolResultCacheOptions, logger?: Logger) {
+    // Exact names win over globs
+    this.ttls = Object.entries(options.ttls).sort(([a], [b]) => Number(/[*?]/.test(a)) - Number(/[*?]/.test(b)));
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  /**
+   * TTL for a tool, or undefined when it is not cacheable
+   */
+  getTtl(toolName: string): number | undefined {
+    const ttl = this.ttls.find(([pattern]) => matchesToolPattern(toolName, pattern))?.[1];
+    return ttl && ttl > 0 ? ttl : undefined;
+  }
+
+  /**
+   * Return the cached result, calling fn and caching its result on a miss
+   * Results that report an error are returned but not cached
+   */
+  async getOrCall<T>(toolName: string, parameters: unknown, fn: () => Promise<T>): Promise<T> {
+    const ttl = this.getTtl(toolName);
+    if (ttl === undefined) {
+      return fn();
+    }
+
+    const key = `${toolName}:${canonicalJson(parameters)}`;
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      this.logger.info(`💾 Tool cache hit for ${toolName} (${this.describeStats()})`);
+      return entry.value as T;
+    }
+
+    this.misses++;
+    this.entries.delete(key);
+    this.logger.debug(`💾 Tool cache miss for ${toolName} (${this.describeStats()})`);
+    const value = await fn();
+    if (!isErrorResult(value)) {
+      this.store(key, value, ttl);
+    }
+    return value;
+  }
+
+  getStats(): ToolResultCacheStats {
+    return { hits: this.hits, misses: this.misses, entries: this.entries.size };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private store(key: string, value: unknown, ttl: number): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  private describeStats(): string {
+    const total = this.hits + this.misses;
+    const hitRate = total > 0 ? Math.round((this.hits / total) * 100) : 0;
+    return `${this.hits} hits / ${this.misses} misses, ${hitRate}% hit rate`;
+  }
+}
+
+/**
+ * Create the cache from TOOL_CACHE_TTLS / TOOL_CACHE_MAX_ENTRIES; undefined when no tool is cacheable
+ */
+export function createToolResultCache(dispatchConfig: DispatchConfig, logger?: Logger): ToolResultCache | undefined {
+  const ttls = dispatchConfig.toolCacheTtls;
+  if (!ttls || Object.keys(ttls).length === 0) {
+    return undefined;
+  }
+  return new ToolResultCache(
+    { ttls, ...(dispatchConfig.toolCacheMaxEntries && { maxEntries: dispatchConfig.toolCacheMaxEntries }) },
+    logger
+  );
+}
+
+function isErrorResult(value: unknown): boolean {
+  return Boolean(value && typeof value === 'object' && (value as { error?: unknown }).error !== undefined);
+}
@@ -74,3 +74,17 @@ export {
   createOpenAIServiceBasic
 } from './core/openai-service-factory.js';
 export { OpenAIService } from './core/openai-service.js';
+export { OpenAIChatProvider } from './core/openai-chat-provider.js';
+export { FallbackChatProvider, type ChatFallback } from './core/fallback-chat-provider.js';
+export { RateLimitedChatProvider } from './core/rate-limited-chat-provider.js';
+export { RateLimiter, type RateLimiterOptions } from './core/rate-limiter.js';
+export { ApprovalManager } from './core/approval-manager.js';
+export { InMemoryApprovalStore } from './core/approval-store.js';
+export { ApprovalAdminServer } from './core/approval-admin-server.js';
+export { ToolResultCache } from './core/tool-result-cache.js';
+export { OpenAITranscriptionProvider } from './core/openai-transcription-provider.js';
+export { AttachmentStore } from './core/attachment-store.js';
+export { OpenAISpeechProvider } from './core/openai-speech-provider.js';
+export { StubSpeechProvider } from './core/stub-speech-provider.js';
+export { DelegateToAgentTool } from './internal-tools/subagents/delegate-to-agent-tool.js';
+export type { ApprovalStore, ChatProvider, SpeechProvider, StreamTransport, TranscriptionProvider } from './models/interfaces.js';
@@ -0,0 +1,80 @@
+import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
+import type { JSONValue } from '../../config/types.js';
+import type { InternalTool, InternalToolResult } from '../internal-tool.interface.js';
+import type { AttachmentStore } from '../../core/attachment-store.js';
+import type { Logger } from '../../utils/logger.interface.js';
+import { createLogger } from '../../utils/pino-logger.js';
+import { extractRequiredNumber, extractRequiredString } from '../../utils/memory-helper.js';
+
+/**
+ * Tool for reading document attachments too large for the prompt, one page at a time
+ */
+export class AttachmentReadPageTool implements InternalTool {
+  readonly toolName = 'attachment_read_page';
+
+  private readonly attachments: AttachmentStore;
+  private readonly logger: Logger;
+
+  constructor(attachments: AttachmentStore, logger?: Logger) {
+    this.attachments = attachments;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  getToolDefinition(): ChatCompletionTool {
+    return {
+      type: 'function',
+      function: {
+        name: this.toolName,
+        description: 'Read one page of a document attachment that was too large to include in the conversation',
+        parameters: {
+          type: 'object',
+          properties: {
+            attachmentId: {
+              type: 'string',
+              description: 'The attachment ID given in the message that shared the document'
+            },
+            page: {
+              type: 'number',
+              description: 'Page number to read, starting at 1'
+            }
+          },
+          required: ['attachmentId', 'page']
+        }
+      }
+    };
+  }
+
+  canHandle(functionName: string): boolean {
+    return functionName === this.toolName;
+  }
+
+  async execute(parameters: JSONValue): Promise<InternalToolResult> {
+    try {
+      const attachmentId = extractRequiredString(parameters, 'attachmentId');
+      const page = extractRequiredNumber(parameters, 'page');
+      const attachment = this.attachments.get(attachmentId);
+      if (!attachment) {
+        return { success: false, error: `Unknown attachment: ${attachmentId}` };
+      }
+
+      const content = attachment.pages[page - 1];
+      if (content === undefined) {
+        return { success: false, error: `Page ${page} is out of range (1-${attachment.pages.length})` };
+      }
+
+      this.logger.info(`📎 Read page ${page}/${attachment.pages.length} of ${attachment.fileName}`);
+      return {
+        success: true,
+        fileName: attachment.fileName,
+        page,
+        totalPages: attachment.pages.length,
+        content
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
 import type { JSONValue } from '../config/types.js';
-import type { InternalToolResult } from './internal-tool.interface.js';
+import type { InternalToolContext, InternalToolResult } from './internal-tool.interface.js';
 
 /**
  * Interface for internal tool handlers that manage collections of internal tools
@@ -23,10 +23,16 @@ export interface InternalToolHandling {
    */
   canHandle(functionName: string): boolean;
 
+  /**
+   * Whether calls to the function may run in parallel with other tool calls
+   * Handlers without it have their calls run one at a time
+   */
+  isParallelSafe?(functionName: string): boolean;
+
   /**
    * Execute a function call using the appropriate tool
    */
-  executeFunction(functionName: string, parameters: JSONValue): Promise<InternalToolResult>;
+  executeFunction(functionName: string, parameters: JSONValue, context?: InternalToolContext): Promise<InternalToolResult>;
 
   /**
    * Get all supported function names
@@ -1,5 +1,7 @@
+import type { AgentClient, AgentRequest } from '@cubicler/cubicagentkit';
 import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
 import type { JSONValue } from '../config/types.js';
+import type { OpenAIAgentResponse, SubAgentRunOptions } from '../models/types.js';
 
 /**
  * Result structure for internal tool operations
@@ -12,6 +14,21 @@ export interface InternalToolResult {
   [key: string]: unknown;
 }
 
+/**
+ * Details of the calling session, for internal tools that act on it (e.g. delegation)
+ */
+export interface InternalToolContext {
+  request: AgentRequest;
+  client: AgentClient;
+  /** Tools available to the calling session */
+  tools: ChatCompletionTool[];
+  /** 0 for the main agent, 1 for its sub-agents, and so on */
+  depth: number;
+  signal?: AbortSignal;
+  /** Run a nested session for a sub-agent; its token usage counts toward the calling session */
+  runSubAgent(request: AgentRequest, options: SubAgentRunOptions): Promise<OpenAIAgentResponse>;
+}
+
 /**
  * Interface for internal tools that can be used by the OpenAI service
  * 
@@ -26,6 +43,13 @@ export interface InternalTool {
    */
   readonly toolName: string;
 
+  /**
+   * Whether calls may run alongside other tool calls of the same model turn. Internal
+   * tools share state (memory, the session), so they run one at a time, in tool_call
+   * order, unless they set this
+   */
+  readonly parallelSafe?: boolean;
+
   /**
    * Get the ChatCompletionTool definition for this tool
    */
@@ -39,5 +63,5 @@ export interface InternalTool {
   /**
    * Execute the tool function with the given parameters
    */
-  execute(parameters: JSONValue): Promise<InternalToolResult>;
+  execute(parameters: JSONValue, context?: InternalToolContext): Promise<InternalToolResult>;
 }
@@ -0,0 +1,135 @@
+import type { AgentRequest } from '@cubicler/cubicagentkit';
+import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
+import type { JSONValue } from '../../config/types.js';
+import type { SubAgentConfig, SubAgents } from '../../config/environment.js';
+import type { InternalTool, InternalToolContext, InternalToolResult } from '../internal-tool.interface.js';
+import type { Logger } from '../../utils/logger.interface.js';
+import { createLogger } from '../../utils/pino-logger.js';
+import { extractRequiredString } from '../../utils/memory-helper.js';
+import { matchesToolPattern } from '../../utils/tool-policy-helper.js';
+
+const DEFAULT_MAX_DEPTH = 2;
+
+/**
+ * Tool for handing a self-contained task to a configured sub-agent, which runs its own
+ * session (prompt, model, tool subset, iteration budget) and returns its final answer
+ */
+export class DelegateToAgentTool implements InternalTool {
+  readonly toolName = 'delegate_to_agent';
+
+  private readonly subAgents: SubAgents;
+  private readonly maxDepth: number;
+  private readonly logger: Logger;
+
+  constructor(subAgents: SubAgents, maxDepth: number = DEFAULT_MAX_DEPTH, logger?: Logger) {
+    this.subAgents = subAgents;
+    this.maxDepth = maxDepth;
+    this.logger = logger ?? createLogger({ silent: true });
+  }
+
+  getToolDefinition(): ChatCompletionTool {
+    const roster = Object.entries(this.subAgents)
+      .map(([name, subAgent]) => `${name}: ${subAgent.description}`)
+      .join('; ');
+    return {
+      type: 'function',
+      function: {
+        name: this.toolName,
+        description: `Delegate a self-contained task to a specialised sub-agent and get its final answer back. Available sub-agents: ${roster}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            agent: {
+              type: 'string',
+              enum: Object.keys(this.subAgents),
+              description: 'Name of the sub-agent to delegate to'
+            },
+            task: {
+              type: 'string',
+              description: 'The task, with all the context the sub-agent needs; it does not see this conversation'
+            }
+          },
+          required: ['agent', 'task']
+        }
+      }
+    };
+  }
+
+  canHandle(functionName: string): boolean {
+    return functionName === this.toolName;
+  }
+
+  async execute(parameters: JSONValue, context?: InternalToolContext): Promise<InternalToolResult> {
+    try {
+      const name = extractRequiredString(parameters, 'agent');
+      const task = extractRequiredString(parameters, 'task');
+      const subAgent = this.subAgents[name];
+      if (!subAgent) {
+        return { success: false, error: `Unknown sub-agent: ${name}` };
+      }
+      if (!context) {
+        return { success: false, error: 'Delegation is not available in this session' };
+      }
+      if (context.depth >= this.maxDepth) {
+        return { success: false, error: `Maximum delegation depth (${this.maxDepth}) reached; complete the task yourself` };
+      }
+
+      this.logger.info(`🤝 Delegating to sub-agent ${name} (depth ${context.depth + 1})`);
+      const response = await context.runSubAgent(this.buildSubAgentRequest(name, subAgent, task, context.request), {
+        ...(subAgent.model && { model: subAgent.model }),
+        ...(subAgent.maxIterations && { maxIterations: subAgent.maxIterations }),
+        tools: this.selectTools(subAgent, context),
+      });
+      this.logger.info(`🤝 Sub-agent ${name} finished using ${response.usedToken} tokens`);
+
+      return {
+        success: true,
+        agent: name,
+        answer: response.content,
+        tokensUsed: response.usedToken,
+        ...(response.metadata?.incomplete && { incomplete: true, incompleteReason: response.metadata.incompleteReason }),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * The delegating session's tools the sub-agent may use; delegation itself is
+   * dropped once the sub-agent would be at the maximum depth
+   */
+  private selectTools(subAgent: SubAgentConfig, context: InternalToolContext): ChatCompletionTool[] {
+    return context.tools.filter((tool) => {
+      const name = tool.function.name;
+      if (name === this.toolName && context.depth + 1 >= this.maxDepth) {
+        return false;
+      }
+      return !subAgent.tools || subAgent.tools.some((pattern) => matchesToolPattern(name, pattern));
+    });
+  }
+
+  /**
+   * A request for the sub-agent: its own prompt, the parent's servers, and the task as
+   * the only message, sent by the delegating agent
+   */
+  private buildSubAgentRequest(name: string, subAgent: SubAgentConfig, task: string, parent: AgentRequest): AgentRequest {
+    return {
+      ...parent,
+      agent: {
+        ...parent.agent,
+        identifier: `${parent.agent.identifier}/${name}`,
+        name,
+        description: subAgent.description,
+        prompt: subAgent.prompt,
+      },
+      messages: [{
+        type: 'text',
+        sender: { id: parent.agent.identifier, name: parent.agent.name },
+        content: task,
+      }],
+    } as AgentRequest;
+  }
+}
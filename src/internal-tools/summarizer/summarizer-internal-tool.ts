@@ -1,9 +1,10 @@
-import OpenAI from 'openai';
 import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
 import type { InternalTool, InternalToolResult } from '../internal-tool.interface.js';
 import type { JSONValue } from '../../config/types.js';
+import type { ChatProvider } from '../../models/interfaces.js';
 import type { Logger } from '../../utils/logger.interface.js';
 import { createLogger } from '../../utils/pino-logger.js';
+import { shapeRequestParams, type RequestShapingSettings } from '../../utils/request-params-helper.js';
 
 /**
  * Summarizer Internal Tool
@@ -13,26 +14,29 @@ import { createLogger } from '../../utils/pino-logger.js';
  */
 export class SummarizerInternalTool implements InternalTool {
   readonly toolName: string;
+  readonly parallelSafe: boolean;
   
-  private openai: OpenAI;
+  private chatProvider: ChatProvider;
   private summarizerModel: string;
   private originalTool: InternalTool;
   private logger: Logger;
+  private requestSettings: RequestShapingSettings;
 
   constructor(
     originalTool: InternalTool,
     summarizerModel: string,
-    openaiApiKey: string,
-    logger?: Logger
+    chatProvider: ChatProvider,
+    logger?: Logger,
+    requestSettings: RequestShapingSettings = {}
   ) {
     this.toolName = `summarize_${originalTool.toolName}`;
+    // As safe to run in parallel as the tool it wraps
+    this.parallelSafe = originalTool.parallelSafe === true;
     this.originalTool = originalTool;
     this.summarizerModel = summarizerModel;
     this.logger = logger ?? createLogger({ silent: true });
-    
-    this.openai = new OpenAI({
-      apiKey: openaiApiKey,
-    });
+    this.chatProvider = chatProvider;
+    this.requestSettings = requestSettings;
   }
 
   getToolDefinition(): ChatCompletionTool {
@@ -111,7 +115,7 @@ export class SummarizerInternalTool implements InternalTool {
 
   private async summarizeResult(toolResult: JSONValue, prompt: string): Promise<{ summary: string; tokensUsed: number }> {
     try {
-      const response = await this.openai.chat.completions.create({
+      const response = await this.chatProvider.complete(shapeRequestParams({
         model: this.summarizerModel,
         messages: [
           {
@@ -124,10 +128,10 @@ export class SummarizerInternalTool implements InternalTool {
           }
         ],
         temperature: 0.3
-      });
+      }, this.requestSettings));
 
-      const summary = response.choices[0]?.message?.content || 'No summary generated';
-      const tokensUsed = response.usage?.total_tokens || 0;
+      const summary = response.content || 'No summary generated';
+      const tokensUsed = response.usedTokens;
       
       return { summary, tokensUsed };
       
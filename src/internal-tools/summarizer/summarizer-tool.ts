@@ -1,10 +1,13 @@
-import OpenAI from 'openai';
 import type { AgentTool, AgentClient } from '@cubicler/cubicagentkit';
 import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
 import type { InternalTool, InternalToolResult } from '../internal-tool.interface.js';
 import type { JSONValue } from '../../config/types.js';
+import type { ChatProvider } from '../../models/interfaces.js';
 import type { Logger } from '../../utils/logger.interface.js';
 import { createLogger } from '../../utils/pino-logger.js';
+import { shapeRequestParams, type RequestShapingSettings } from '../../utils/request-params-helper.js';
+import { callToolWithRetry, type ToolRetryPolicy } from '../../utils/retry-helper.js';
+import type { ToolResultCache } from '../../core/tool-result-cache.js';
 
 /**
  * Individual Summarizer Tool Instance
@@ -15,28 +18,34 @@ import { createLogger } from '../../utils/pino-logger.js';
 export class SummarizerToolInstance implements InternalTool {
   readonly toolName: string;
   
-  private openai: OpenAI;
+  private chatProvider: ChatProvider;
   private summarizerModel: string;
   private originalTool: AgentTool;
   private agentClient: AgentClient;
   private logger: Logger;
+  private retryPolicy: ToolRetryPolicy;
+  private resultCache: ToolResultCache | undefined;
+  private requestSettings: RequestShapingSettings;
 
   constructor(
     originalTool: AgentTool,
     summarizerModel: string,
-    openaiApiKey: string,
+    chatProvider: ChatProvider,
     agentClient: AgentClient,
-    logger?: Logger
+    logger?: Logger,
+    retryPolicy: ToolRetryPolicy = { maxRetries: 0 },
+    resultCache?: ToolResultCache,
+    requestSettings: RequestShapingSettings = {}
   ) {
     this.toolName = `summarize_${originalTool.name}`;
     this.originalTool = originalTool;
     this.summarizerModel = summarizerModel;
     this.agentClient = agentClient;
     this.logger = logger ?? createLogger({ silent: true });
-    
-    this.openai = new OpenAI({
-      apiKey: openaiApiKey,
-    });
+    this.chatProvider = chatProvider;
+    this.retryPolicy = retryPolicy;
+    this.resultCache = resultCache;
+    this.requestSettings = requestSettings;
   }
 
   getToolDefinition(): ChatCompletionTool {
@@ -88,7 +97,17 @@ export class SummarizerToolInstance implements InternalTool {
       this.logger.info(`🔧 Executing ${this.originalTool.name} for summarization`);
       
       const typedParams = originalParams as Record<string, JSONValue>;
-      const toolResult = await this.agentClient.callTool(this.originalTool.name, typedParams);
+      const callTool = () => callToolWithRetry(
+        this.agentClient,
+        this.originalTool.name,
+        typedParams,
+        this.retryPolicy,
+        this.logger
+      );
+      // Cache the raw tool result; summaries depend on the prompt and are not reused
+      const toolResult = this.resultCache
+        ? await this.resultCache.getOrCall(this.originalTool.name, typedParams, callTool)
+        : await callTool();
       
       this.logger.info(`🤖 Summarizing ${this.originalTool.name} results with ${this.summarizerModel}`);
       
@@ -115,7 +134,7 @@ export class SummarizerToolInstance implements InternalTool {
 
   private async summarizeResult(toolResult: JSONValue, prompt: string): Promise<{ summary: string; tokensUsed: number }> {
     try {
-      const response = await this.openai.chat.completions.create({
+      const response = await this.chatProvider.complete(shapeRequestParams({
         model: this.summarizerModel,
         messages: [
           {
@@ -128,10 +147,10 @@ export class SummarizerToolInstance implements InternalTool {
           }
         ],
         temperature: 0.3
-      });
+      }, this.requestSettings));
 
-      const summary = response.choices[0]?.message?.content || 'No summary generated';
-      const tokensUsed = response.usage?.total_tokens || 0;
+      const summary = response.content || 'No summary generated';
+      const tokensUsed = response.usedTokens;
       
       return { summary, tokensUsed };
       
@@ -145,11 +164,14 @@ export class SummarizerToolInstance implements InternalTool {
 export function createSummarizerTools(
   availableTools: AgentTool[],
   summarizerModel: string,
-  openaiApiKey: string,
+  chatProvider: ChatProvider,
   agentClient: AgentClient,
-  logger: Logger
+  logger: Logger,
+  retryPolicy?: ToolRetryPolicy,
+  resultCache?: ToolResultCache,
+  requestSettings?: RequestShapingSettings
 ): SummarizerToolInstance[] {
   return availableTools.map(tool => 
-    new SummarizerToolInstance(tool, summarizerModel, openaiApiKey, agentClient, logger)
+    new SummarizerToolInstance(tool, summarizerModel, chatProvider, agentClient, logger, retryPolicy, resultCache, requestSettings)
   );
 }
\ No newline at end of file
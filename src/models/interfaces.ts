@@ -1,5 +1,11 @@
 import type { AgentClient, MessageRequest, RawAgentResponse, TriggerRequest } from '@cubicler/cubicagentkit';
 import type { MemoryRepository } from '@cubicler/cubicagentkit';
+import type { AudioInput, ChatCompletionOptions, OpenAIRequestParams, OpenAIResponse, PendingApproval, SpeechSettings, StreamEvent } from './types.js';
+import type { ApprovalManager } from '../core/approval-manager.js';
+import type { ToolResultCache } from '../core/tool-result-cache.js';
+import type { AttachmentStore } from '../core/attachment-store.js';
+import type { ContextManager } from '../core/context-manager.js';
+import type { AgentProfiles } from '../config/environment.js';
 
 export interface OpenAITriggerHandling {
   handleWebhook(
@@ -15,4 +21,69 @@ export interface OpenAIMessageHandling {
     client: AgentClient,
     context?: { memory?: MemoryRepository; [key: string]: unknown }
   ): Promise<RawAgentResponse>;
-}
\ No newline at end of file
+}
+/**
+ * ChatProvider
+ * Runs one chat completion turn: messages and tools in, content, tool calls and usage out.
+ * When onContentDelta is given the provider streams and forwards content as it arrives;
+ * options.signal aborts the in-flight request.
+ */
+export interface ChatProvider {
+  complete(
+    params: OpenAIRequestParams,
+    onContentDelta?: (delta: string) => void | Promise<void>,
+    options?: ChatCompletionOptions
+  ): Promise<OpenAIResponse>;
+}
+
+/**
+ * TranscriptionProvider
+ * Turns audio into text for models that cannot take audio input directly
+ */
+export interface TranscriptionProvider {
+  transcribe(audio: AudioInput, options?: ChatCompletionOptions): Promise<string>;
+}
+
+/**
+ * SpeechProvider
+ * Turns the final answer into audio for voice channels
+ */
+export interface SpeechProvider {
+  synthesize(text: string, settings: SpeechSettings, options?: ChatCompletionOptions): Promise<Buffer>;
+}
+
+export interface StreamSink {
+  write(event: StreamEvent): Promise<void>;
+}
+
+/**
+ * StreamTransport
+ * Notification channel of an agent server: sends a JSON-RPC notification (no id) to
+ * Cubicler over the connection the server answers requests on
+ */
+export interface StreamTransport {
+  sendNotification(method: string, params: unknown): Promise<void>;
+}
+
+/**
+ * ApprovalStore
+ * Keeps sessions paused for approval until they are resumed or expire.
+ * The default store is in-process; shared stores must serialize SessionState themselves.
+ */
+export interface ApprovalStore {
+  save(approval: PendingApproval): Promise<void>;
+  get(id: string): Promise<PendingApproval | undefined>;
+  list(): Promise<PendingApproval[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface OpenAIHandlerOptions {
+  streamSink?: StreamSink;
+  contextManager?: ContextManager;
+  agentProfiles?: AgentProfiles;
+  approvalManager?: ApprovalManager;
+  toolResultCache?: ToolResultCache;
+  transcriptionProvider?: TranscriptionProvider;
+  attachmentStore?: AttachmentStore;
+  speechProvider?: SpeechProvider;
+}
@@ -1,4 +1,8 @@
+import type { JSONValue, RawAgentResponse } from '@cubicler/cubicagentkit';
+import type { ReasoningEffort, ResponseFormatJSONSchema } from 'openai/resources/shared.js';
+import type { AgentProfile, SpeechConfig, ToolPolicy } from '../config/environment.js';
 import type { ChatCompletionMessageParam, ChatCompletionTool, ChatCompletionMessageToolCall } from 'openai/resources/chat/completions.js';
+import type { InternalToolContext } from '../internal-tools/internal-tool.interface.js';
 
 /**
  * OpenAI Chat Completion Request Parameters
@@ -7,9 +11,13 @@ import type { ChatCompletionMessageParam, ChatCompletionTool, ChatCompletionMess
 export interface OpenAIRequestParams {
   model: string;
   messages: ChatCompletionMessageParam[];
-  temperature: number;
-  max_tokens: number;
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  reasoning_effort?: ReasoningEffort;
   tools?: ChatCompletionTool[];
+  tool_choice?: 'none' | 'auto';
+  response_format?: ResponseFormatJSONSchema;
 }
 
 /**
@@ -19,7 +27,70 @@ export interface OpenAIRequestParams {
 export interface OpenAIResponse {
   content: string | null;
   usedTokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Hidden reasoning tokens (reasoning models), already included in completionTokens */
+  reasoningTokens?: number;
   toolCalls?: ChatCompletionMessageToolCall[];
+  /** Model that served the call, set by FallbackChatProvider */
+  model?: string;
+  /** Set when a fallback model served the call instead of the requested one */
+  fallback?: boolean;
+}
+
+/**
+ * Audio Input
+ * Raw audio from a Cubicler audio message, format being the file extension (mp3, wav, ...)
+ */
+export interface AudioInput {
+  data: Buffer;
+  format: string;
+}
+
+/**
+ * Document Attachment
+ * Text extracted from a document message, split into pages for the prompt budget
+ */
+export interface DocumentAttachment {
+  id: string;
+  fileName: string;
+  format: string;
+  pages: string[];
+}
+
+/**
+ * Resolved Message Content
+ * Outcome of preparing a file-like message: base64 audio for native input, an audio
+ * transcript, or an extracted document
+ */
+export type ResolvedMessageContent =
+  | { transcript: string }
+  | { audio: { data: string; format: 'wav' | 'mp3' } }
+  | { attachment: DocumentAttachment };
+
+export type SpeechFormat = NonNullable<SpeechConfig['format']>;
+
+/**
+ * Speech Settings
+ * Model for how a session's final answer is spoken, merged from request metadata,
+ * the agent profile and TTS_* defaults
+ */
+export interface SpeechSettings {
+  voice: string;
+  format: SpeechFormat;
+  mode: SpeechConfig['mode'];
+}
+
+/**
+ * Speech Output
+ * Model for the synthesized answer in response metadata: base64 audio when attached to
+ * a text response, the spoken transcript when the audio is the response content
+ */
+export interface SpeechOutput {
+  voice: string;
+  format: SpeechFormat;
+  data?: string;
+  transcript?: string;
 }
 
 /**
@@ -50,4 +121,267 @@ export interface SessionState {
   currentMessages: ChatCompletionMessageParam[];
   currentTools: ChatCompletionTool[];
   totalUsedTokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  incompleteReason?: IncompleteReason;
+  agentProfile?: AgentProfile;
+  /** Aborts in-flight model and tool calls once the dispatch deadline approaches */
+  signal?: AbortSignal;
+  /** Fingerprints of successful tool calls, used to detect repeated calls */
+  succeededToolCalls: Set<string>;
+  /** Fingerprint of each tool call batch, in iteration order */
+  toolBatchHistory: string[];
+  loopIncidents: ToolLoopIncident[];
+  /** Set when the final answer should also be synthesized to audio */
+  speech?: SpeechSettings;
+  /** Nesting level for sub-agent sessions (unset for the main agent) */
+  depth?: number;
+  /** Delegating session of a sub-agent; it is charged for the sub-agent's usage as it happens */
+  parent?: SessionState;
+  /** Sub-agent overrides of OPENAI_MODEL and DISPATCH_SESSION_MAX_ITERATION */
+  model?: string;
+  maxIterations?: number;
+  /** Step plan and progress, for agents in plan-and-execute mode */
+  plan?: PlanState;
+  /** Reviewer verdict on the draft answer; set once, as a session is reviewed at most once */
+  review?: ReviewVerdict;
+  /** Model that served the latest call, when the chat provider reports it */
+  modelUsed?: string;
+  /** Calls in this session served by a fallback model */
+  fallbackCalls?: number;
+}
+
+export type PlanStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * Plan Step
+ * Model for one step of a plan-and-execute session and its outcome
+ */
+export interface PlanStep {
+  description: string;
+  status: PlanStepStatus;
+  /** The model's report of what the step achieved, or why it failed */
+  result?: string;
+  /** Last session iteration the step's tool loop may use, set when it starts */
+  maxIteration?: number;
+}
+
+/**
+ * Plan State
+ * Model for a session's step plan: steps in order, including finished ones, and how
+ * often the remaining steps were revised after a failure
+ */
+export interface PlanState {
+  steps: PlanStep[];
+  revisions: number;
+}
+
+/**
+ * Plan Summary
+ * Model for the plan reported in response metadata
+ */
+export interface PlanSummary {
+  steps: Array<{ description: string; status: PlanStepStatus; result?: string }>;
+  revisions: number;
+}
+
+/**
+ * Review Verdict
+ * Model for the self-critique of a draft answer: approved, or notes for a revision
+ */
+export interface ReviewVerdict {
+  approved: boolean;
+  notes?: string;
+}
+
+/**
+ * Tool Loop Outcome
+ * How a run of the tool loop ended: with an answer, paused for approval, or out of iterations
+ */
+export type ToolLoopOutcome =
+  | { type: 'answer'; content: string | null }
+  | { type: 'paused'; response: OpenAIAgentResponse }
+  | { type: 'exhausted' };
+
+/**
+ * Sub-Agent Run Options
+ * Model for a delegated task: the sub-agent's model, iteration budget and tools
+ * (a subset of the delegating session's tools)
+ */
+export interface SubAgentRunOptions {
+  model?: string;
+  maxIterations?: number;
+  tools: ChatCompletionTool[];
+}
+
+/**
+ * Sub-Agent Session
+ * Model for starting a nested session from a delegating one, which it inherits
+ * the tool policy and deadline from
+ */
+export interface SubAgentSession extends SubAgentRunOptions {
+  depth: number;
+  parent?: SessionState;
+  toolPolicy?: ToolPolicy;
+  signal?: AbortSignal;
+}
+
+/**
+ * OpenAI Call Options
+ * Model for per-call overrides applied when building a chat completion request
+ */
+export interface OpenAICallOptions {
+  iteration?: number;
+  maxTokens?: number;
+  toolChoice?: 'none' | 'auto';
+  responseFormat?: ResponseFormatJSONSchema;
+  signal?: AbortSignal;
+  /** Model override, e.g. for sub-agents */
+  model?: string;
+  /** Set to false to keep the call's deltas off the stream sink */
+  stream?: boolean;
+}
+
+/**
+ * Tool Execution Context
+ * Model for session-scoped settings applied while executing a turn's tool calls
+ */
+export interface ToolExecutionContext {
+  signal?: AbortSignal;
+  /** Collects the fingerprints of successful calls, for loop detection */
+  succeededToolCalls?: Set<string>;
+  toolPolicy?: ToolPolicy;
+  /** Tool call ids turned down by an approver, with the reason returned to the model */
+  rejectedToolCalls?: Record<string, string>;
+  /** Session details passed on to internal tools */
+  internalToolContext?: InternalToolContext;
+}
+
+/**
+ * Chat Completion Options
+ * Model for transport options passed to a ChatProvider alongside the request
+ */
+export interface ChatCompletionOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Completion Budget
+ * Model for the completion allowance of the next call within the session token budget
+ */
+export interface CompletionBudget {
+  maxTokens: number;
+  forceFinal: boolean;
+}
+
+/**
+ * Stream Event
+ * Model for incremental output forwarded to streaming-capable transports
+ */
+export type StreamEvent =
+  | { type: 'delta'; iteration: number; content: string }
+  | { type: 'done'; content: string; usedToken: number };
+
+/**
+ * Context Fit Result
+ * Model for the outcome of fitting session messages into the model's context window
+ */
+export interface ContextFitResult {
+  messages: ChatCompletionMessageParam[];
+  usedTokens: number;
+}
+
+/**
+ * Incomplete Reason
+ * Why a session ended with a wrap-up answer instead of a natural final response
+ */
+/**
+ * Tool Loop Incident
+ * Model for a detected tool-call loop: an identical call repeated, or two batches alternating
+ */
+export interface ToolLoopIncident {
+  type: 'repeat' | 'ping_pong';
+  iteration: number;
+  tools: string[];
+}
+
+/**
+ * Approval Decision
+ * Model for an approver's answer to a paused tool call, from a follow-up message or the admin endpoint
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+  source: 'message' | 'admin';
+  /** Sender id of the approver, for decisions made by message */
+  approver?: string;
+}
+
+/**
+ * Pending Approval
+ * Model for a session paused until sensitive tool calls are approved or rejected
+ */
+export interface PendingApproval {
+  id: string;
+  /** Agent identifier and requesting sender; its next message resumes the session once decided */
+  conversationKey: string;
+  /** The model turn whose tool calls run once the session resumes */
+  pendingResponse: OpenAIResponse;
+  /** Calls in that turn that need approval */
+  toolCalls: ChatCompletionMessageToolCall[];
+  sessionState: SessionState;
+  createdAt: number;
+  expiresAt: number;
+  decision?: ApprovalDecision;
+}
+
+/**
+ * Pending Approval Summary
+ * Model for describing a paused session to the requester and approvers
+ */
+export interface PendingApprovalSummary {
+  id: string;
+  expiresAt: string;
+  toolCalls: Array<{ id: string; name: string; arguments: string }>;
+}
+
+export type IncompleteReason = 'max_iterations' | 'token_budget' | 'deadline';
+
+/**
+ * Response Metadata
+ * Model for additional session details attached to the agent response
+ */
+export interface ResponseMetadata {
+  incomplete?: boolean;
+  incompleteReason?: IncompleteReason;
+  structuredOutput?: JSONValue;
+  structuredOutputErrors?: string[];
+  reasoningTokens?: number;
+  loopIncidents?: ToolLoopIncident[];
+  pendingApproval?: PendingApprovalSummary;
+  speech?: SpeechOutput;
+  plan?: PlanSummary;
+  review?: ReviewVerdict;
+  /** Model that produced the answer, reported when a fallback chain is configured */
+  model?: string;
+  fallbackCalls?: number;
+}
+
+/**
+ * OpenAI Agent Response
+ * RawAgentResponse returned to Cubicler, optionally carrying session metadata
+ */
+export type OpenAIAgentResponse = RawAgentResponse & {
+  metadata?: ResponseMetadata;
+};
+
+/**
+ * Structured Output Result
+ * Model for the final structured answer after validation and any repair attempts
+ */
+export interface StructuredOutputResult {
+  content: string;
+  value?: JSONValue;
+  errors: string[];
 }
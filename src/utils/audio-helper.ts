@@ -0,0 +1,49 @@
+import type { AudioInput } from '../models/types.js';
+import { loadMessageContent, type ContentFetchOptions } from './content-helper.js';
+
+/**
+ * Audio Helper Utilities
+ * Format detection and loading for Cubicler audio messages
+ */
+
+/** Formats chat completions accept as input_audio parts */
+const NATIVE_AUDIO_FORMATS = ['wav', 'mp3'] as const;
+/** Upper bound for downloaded audio, matching the OpenAI transcription upload limit */
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+const DEFAULT_AUDIO_FORMAT = 'mp3';
+
+export type NativeAudioFormat = typeof NATIVE_AUDIO_FORMATS[number];
+
+/**
+ * Audio format from metadata.fileExtension, falling back to the URL's extension
+ */
+export function getAudioFormat(fileExtension?: string, content?: string): string {
+  const fromMetadata = (fileExtension || '').toLowerCase().replace(/^\./, '');
+  if (fromMetadata) {
+    return fromMetadata === 'mpeg' ? 'mp3' : fromMetadata;
+  }
+  const fromUrl = content && /^https?:\/\//i.test(content)
+    ? /\.([a-z0-9]+)(?:[?#]|$)/i.exec(content)?.[1]?.toLowerCase()
+    : undefined;
+  return fromUrl ?? DEFAULT_AUDIO_FORMAT;
+}
+
+export function isNativeAudioFormat(format: string): format is NativeAudioFormat {
+  return (NATIVE_AUDIO_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Load audio bytes from a base64 message or download them from its URL
+ */
+export async function loadAudio(
+  content: string,
+  contentFormat: 'base64' | 'url' | undefined,
+  format: string,
+  options: ContentFetchOptions = {}
+): Promise<AudioInput> {
+  try {
+    return { data: await loadMessageContent(content, contentFormat, MAX_AUDIO_BYTES, options), format };
+  } catch (error) {
+    throw new Error(`Audio message could not be loaded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
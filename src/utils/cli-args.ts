@@ -13,11 +13,13 @@ export interface CLIArgs {
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  maxCompletionTokens?: number;
   apiKey?: string;
   baseUrl?: string;
   openaiTimeout?: number;
   openaiMaxRetries?: number;
   summarizerModel?: string;
+  stream?: boolean;
   
   // Transport Configuration
   transport?: 'http' | 'stdio' | 'sse';
@@ -34,6 +36,7 @@ export interface CLIArgs {
   mcpMaxRetries?: number;
   sessionMaxIteration?: number;
   agentPort?: number;
+  toolConcurrency?: number;
   
   // JWT Configuration
   jwt?: boolean;
@@ -76,6 +79,10 @@ export function parseArgs(argv: string[] = process.argv): CLIArgs {
         if (nextArg) args.maxTokens = parseInt(nextArg);
         i++;
         break;
+      case '--max-completion-tokens':
+        if (nextArg) args.maxCompletionTokens = parseInt(nextArg);
+        i++;
+        break;
       case '--api-key':
         if (nextArg) args.apiKey = nextArg;
         i++;
@@ -96,6 +103,9 @@ export function parseArgs(argv: string[] = process.argv): CLIArgs {
         if (nextArg) args.summarizerModel = nextArg;
         i++;
         break;
+      case '--stream':
+        args.stream = true;
+        break;
       case '--transport':
         if (nextArg) args.transport = nextArg as 'http' | 'stdio' | 'sse';
         i++;
@@ -124,6 +134,10 @@ export function parseArgs(argv: string[] = process.argv): CLIArgs {
         if (nextArg) args.sessionMaxIteration = parseInt(nextArg);
         i++;
         break;
+      case '--tool-concurrency':
+        if (nextArg) args.toolConcurrency = parseInt(nextArg);
+        i++;
+        break;
       case '--agent-port':
         if (nextArg) args.agentPort = parseInt(nextArg);
         i++;
@@ -163,11 +177,13 @@ OpenAI Options:
   --model <model>              OpenAI model to use (default: gpt-4o)
   --temperature <temp>         Temperature for responses (default: 0.7)
   --max-tokens <tokens>        Maximum tokens per session (default: 4096)
+  --max-completion-tokens <n>  Maximum completion tokens per OpenAI call
   --api-key <key>              OpenAI API key (or use OPENAI_API_KEY env var)
   --base-url <url>             OpenAI base URL
   --timeout <ms>               Request timeout in milliseconds (default: 600000)
   --max-retries <num>          Maximum number of retries (default: 2)
   --summarizer-model <model>   Model for memory summarization
+  --stream                     Stream final answers over stdio/SSE transports
 
 Transport Options:
   --transport <mode>           Transport mode: http, stdio, sse (default: stdio)
@@ -182,6 +198,7 @@ Memory Options:
 Dispatch Options:
   --session-max-iteration <num>  Maximum iterations per session (default: 10)
   --agent-port <port>            Agent server port for HTTP mode (default: 3000)
+  --tool-concurrency <num>       Maximum tool calls executed in parallel (default: 4)
 
 JWT Options:
   --jwt                        Enable JWT authentication
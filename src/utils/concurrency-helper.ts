@@ -0,0 +1,28 @@
+/**
+ * Concurrency Helper Utilities
+ * Bounded parallel execution that preserves input order in its results
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results are returned in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
@@ -10,13 +10,15 @@ export function mergeConfigWithArgs(baseConfig: Config, args: CLIArgs): Config {
     openai: {
       ...baseConfig.openai,
       ...(args.apiKey && { apiKey: args.apiKey }),
-      ...(args.model && { model: args.model as Config['openai']['model'] }),
+      ...(args.model && { model: args.model }),
       ...(args.temperature !== undefined && { temperature: args.temperature }),
       ...(args.maxTokens !== undefined && { sessionMaxTokens: args.maxTokens }),
+      ...(args.maxCompletionTokens !== undefined && { maxCompletionTokens: args.maxCompletionTokens }),
       ...(args.baseUrl && { baseURL: args.baseUrl }),
       ...(args.openaiTimeout !== undefined && { timeout: args.openaiTimeout }),
       ...(args.openaiMaxRetries !== undefined && { maxRetries: args.openaiMaxRetries }),
-      ...(args.summarizerModel && { summarizerModel: args.summarizerModel as Config['openai']['summarizerModel'] }),
+      ...(args.summarizerModel && { summarizerModel: args.summarizerModel }),
+      ...(args.stream !== undefined && { stream: args.stream }),
     },
     transport: {
       ...baseConfig.transport,
@@ -43,6 +45,7 @@ export function mergeConfigWithArgs(baseConfig: Config, args: CLIArgs): Config {
       ...(args.mcpMaxRetries !== undefined && { mcpMaxRetries: args.mcpMaxRetries }),
       ...(args.sessionMaxIteration !== undefined && { sessionMaxIteration: args.sessionMaxIteration }),
       ...(args.agentPort !== undefined && { agentPort: args.agentPort }),
+      ...(args.toolConcurrency !== undefined && { toolConcurrency: args.toolConcurrency }),
     },
     jwt: {
       ...baseConfig.jwt,
@@ -50,5 +53,7 @@ export function mergeConfigWithArgs(baseConfig: Config, args: CLIArgs): Config {
       ...(args.jwtType && { type: args.jwtType }),
       ...(args.jwtToken && { token: args.jwtToken }),
     },
+    ...(baseConfig.agents && { agents: baseConfig.agents }),
+    ...(baseConfig.subAgents && { subAgents: baseConfig.subAgents }),
   };
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { URL } from 'url';
+
+/**
+ * Content Helper Utilities
+ * Loads the bytes behind Cubicler file-like messages (base64 content or a URL)
+ */
+
+const DEFAULT_FETCH_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 3;
+
+export interface ContentFetchOptions {
+  /** Aborts the download, e.g. the session deadline */
+  signal?: AbortSignal;
+  /** Longest a download may take (default 30s) */
+  timeoutMs?: number;
+  /**
+   * Hosts URL content may come from: exact names or "*.example.com". When unset, any
+   * host resolving to a public address is allowed; private, loopback and link-local
+   * addresses are always refused unless their host is listed
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * Decode base64 message content or download it from its URL, refusing anything over maxBytes.
+ * Downloads are limited to http(s) URLs on allowed hosts (redirects included), time out, and
+ * stop reading as soon as the body passes maxBytes
+ */
+export async function loadMessageContent(
+  content: string,
+  contentFormat: 'base64' | 'url' | undefined,
+  maxBytes: number,
+  options: ContentFetchOptions = {}
+): Promise<Buffer> {
+  if (contentFormat === 'base64') {
+    const data = Buffer.from(content, 'base64');
+    if (data.length > maxBytes) {
+      throw new Error(`Content exceeds ${maxBytes} bytes`);
+    }
+    return data;
+  }
+  if (!isUrlContent(content, contentFormat)) {
+    throw new Error('Content is neither base64 nor a URL');
+  }
+
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+  let url = parseUrl(content);
+  for (let redirects = 0; ; redirects++) {
+    await assertFetchableUrl(url, options.allowedHosts);
+    const response = await globalThis.fetch(url, { signal, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Download exceeded ${MAX_REDIRECTS} redirects`);
+      }
+      url = parseUrl(location, url);
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length') ?? 0) > maxBytes) {
+      throw new Error(`Content exceeds ${maxBytes} bytes`);
+    }
+    return await readBody(response, maxBytes);
+  }
+}
+
+export function isUrlContent(content: string, contentFormat?: 'base64' | 'url'): boolean {
+  return contentFormat === 'url' || (contentFormat !== 'base64' && /^https?:\/\//i.test(content));
+}
+
+/**
+ * Refuse URLs that are not http(s), or whose host is not allowed: outside allowedHosts when
+ * set, otherwise resolving to a private, loopback or link-local address
+ */
+async function assertFetchableUrl(url: URL, allowedHosts?: string[]): Promise<void> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Refusing to download from a ${url.protocol} URL`);
+  }
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (allowedHosts && allowedHosts.length > 0) {
+    if (!allowedHosts.some((pattern) => matchesHost(hostname, pattern))) {
+      throw new Error(`Refusing to download from ${hostname}: host is not allowed`);
+    }
+    return;
+  }
+  const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to download from ${hostname}: private or local address`);
+  }
+}
+
+function matchesHost(hostname: string, pattern: string): boolean {
+  const normalized = pattern.trim().toLowerCase();
+  return normalized.startsWith('*.')
+    ? hostname.endsWith(normalized.slice(1))
+    : hostname === normalized;
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return isPrivateAddress(mapped);
+  }
+  if (isIP(address) === 4) {
+    const [a = 0, b = 0] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || a >= 224;
+  }
+  const normalized = address.toLowerCase();
+  return normalized === '::' || normalized === '::1'
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized);
+}
+
+function parseUrl(value: string, base?: URL): URL {
+  try {
+    return new URL(value, base);
+  } catch {
+    throw new Error('Content URL is invalid');
+  }
+}
+
+async function readBody(response: Awaited<ReturnType<typeof globalThis.fetch>>, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Content exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+}
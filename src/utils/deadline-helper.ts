@@ -0,0 +1,57 @@
+/**
+ * Deadline Helper Utilities
+ * AbortSignal-based deadlines for bounding a dispatch session in wall-clock time
+ */
+
+export interface Deadline {
+  signal: AbortSignal;
+  /** Clear the pending timer once the guarded work has finished */
+  dispose(): void;
+}
+
+/**
+ * Create a deadline whose signal aborts after timeoutMs
+ */
+export function createDeadline(timeoutMs: number): Deadline {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Deadline of ${timeoutMs}ms exceeded`)),
+    Math.max(0, timeoutMs)
+  );
+  return {
+    signal: controller.signal,
+    dispose: () => clearTimeout(timer),
+  };
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason as soon as the signal aborts
+ * Used for calls that cannot be cancelled themselves; their result is discarded
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(toAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function toAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+}
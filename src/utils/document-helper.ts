@@ -0,0 +1,331 @@
+import { inflateRawSync, inflateSync } from 'zlib';
+
+/**
+ * Document Helper Utilities
+ * Local text extraction and pagination for document attachments (PDF, DOCX, CSV,
+ * Markdown, plain text). Extraction is dependency-free: DOCX is read straight from
+ * its zip container and PDF text from its (Flate-compressed) content streams, so
+ * scanned or encrypted PDFs yield no text. Font encodings and ToUnicode maps are not
+ * interpreted: streams whose strings do not decode to readable text (CID fonts such as
+ * Identity-H) are skipped rather than returned as garbage. Decompression and the extracted text are
+ * both capped, so a small compressed document cannot expand without bound.
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'csv' | 'markdown' | 'text';
+
+const DOCUMENT_EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  csv: 'csv',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+};
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const DEFAULT_MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MAX_TEXT_CHARS = 4 * 1024 * 1024;
+const MAX_UNREADABLE_RATIO = 0.1;
+
+export interface DocumentLimits {
+  /** Most bytes decompressed from one document, across all its streams (default 64 MiB) */
+  maxInflatedBytes?: number;
+  /** Most characters of text extracted from one document (default 4 Mi) */
+  maxTextChars?: number;
+}
+
+/**
+ * Document format from metadata.fileExtension, falling back to the file name's extension
+ */
+export function getDocumentFormat(fileExtension?: string, fileName?: string): DocumentFormat | undefined {
+  const extension = (fileExtension || fileName?.split('.').pop() || '').toLowerCase().replace(/^\./, '');
+  return DOCUMENT_EXTENSIONS[extension];
+}
+
+/**
+ * Whether the format is plain text, so message content may be the document itself
+ */
+export function isTextDocumentFormat(format: DocumentFormat): boolean {
+  return format === 'csv' || format === 'markdown' || format === 'text';
+}
+
+/**
+ * Extract the text of a document, refusing documents that decompress or extract past the limits
+ */
+export function extractDocumentText(data: Buffer, format: DocumentFormat, limits: DocumentLimits = {}): string {
+  const maxInflatedBytes = limits.maxInflatedBytes ?? DEFAULT_MAX_INFLATED_BYTES;
+  const maxTextChars = limits.maxTextChars ?? DEFAULT_MAX_TEXT_CHARS;
+  let text: string;
+  switch (format) {
+    case 'pdf':
+      text = extractPdfText(data, maxInflatedBytes, maxTextChars);
+      break;
+    case 'docx':
+      text = extractDocxText(data, maxInflatedBytes);
+      break;
+    default:
+      text = data.toString('utf-8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  }
+  if (text.length > maxTextChars) {
+    throw new Error(`Document text exceeds ${maxTextChars} characters`);
+  }
+  return text;
+}
+
+/**
+ * Split text into pages of at most pageChars, breaking at line ends where possible
+ * When a header line is given (CSV), it is repeated at the top of every page
+ */
+export function paginateText(text: string, pageChars: number, header?: string): string[] {
+  const pages: string[] = [];
+  const prefix = header ? `${header}\n` : '';
+  const budget = Math.max(1, pageChars - prefix.length);
+  let current = '';
+
+  const flush = () => {
+    if (current) {
+      pages.push(prefix + current);
+      current = '';
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += budget) {
+      const piece = line.slice(start, start + budget);
+      const next = current ? `${current}\n${piece}` : piece;
+      if (next.length > budget) {
+        flush();
+        current = piece;
+      } else {
+        current = next;
+      }
+    }
+  }
+  flush();
+  return pages.length > 0 ? pages : [prefix.trimEnd()];
+}
+
+function extractDocxText(data: Buffer, maxInflatedBytes: number): string {
+  const documentXml = readZipEntry(data, 'word/document.xml', maxInflatedBytes);
+  if (!documentXml) {
+    throw new Error('DOCX has no word/document.xml');
+  }
+  return decodeXmlEntities(
+    documentXml.toString('utf-8')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>|<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).trim();
+}
+
+/**
+ * Read one entry of a zip archive (stored or deflated) via its central directory
+ */
+function readZipEntry(data: Buffer, entryName: string, maxInflatedBytes: number): Buffer | undefined {
+  let endOfDirectory = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 65557); offset--) {
+    if (data.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOfDirectory = offset;
+      break;
+    }
+  }
+  if (endOfDirectory < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = data.readUInt16LE(endOfDirectory + 10);
+  let offset = data.readUInt32LE(endOfDirectory + 16);
+  for (let index = 0; index < entryCount && data.readUInt32LE(offset) === ZIP_CENTRAL_DIRECTORY_ENTRY; index++) {
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localHeader = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (data.readUInt32LE(localHeader) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt zip entry ${entryName}`);
+      }
+      const dataStart = localHeader + 30 + data.readUInt16LE(localHeader + 26) + data.readUInt16LE(localHeader + 28);
+      const compressed = data.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return compressed;
+      }
+      if (method === 8) {
+        try {
+          return inflateRawSync(compressed, { maxOutputLength: maxInflatedBytes });
+        } catch (error) {
+          throw isInflateLimitError(error) ? new Error(`Document decompresses to more than ${maxInflatedBytes} bytes`) : error;
+        }
+      }
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return undefined;
+}
+
+/**
+ * Collect the text shown by each content stream (uncompressed or FlateDecode)
+ */
+function extractPdfText(data: Buffer, maxInflatedBytes: number, maxTextChars: number): string {
+  const raw = data.toString('latin1');
+  const streamPattern = /\bobj\b((?:(?!endobj)[\s\S])*?)\bstream\r?\n/g;
+  const texts: string[] = [];
+  let inflatedBytes = 0;
+  let textChars = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw)) !== null) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) {
+      break;
+    }
+    streamPattern.lastIndex = end;
+
+    const dictionary = match[1] ?? '';
+    let content: Buffer = data.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = inflateSync(content, { maxOutputLength: Math.max(1, maxInflatedBytes - inflatedBytes) });
+      } catch (error) {
+        if (isInflateLimitError(error)) {
+          throw new Error(`Document decompresses to more than ${maxInflatedBytes} bytes`);
+        }
+        continue;
+      }
+      inflatedBytes += content.length;
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const text = extractPdfContentText(content.toString('latin1')).trim();
+    if (text && isReadableText(text)) {
+      textChars += text.length;
+      if (textChars > maxTextChars) {
+        throw new Error(`Document text exceeds ${maxTextChars} characters`);
+      }
+      texts.push(text);
+    }
+  }
+
+  if (texts.length === 0) {
+    throw new Error('PDF has no extractable text (it may be scanned, encrypted or use fonts without a standard encoding)');
+  }
+  return texts.join('\n\n');
+}
+
+/**
+ * Interpret the text operators of a content stream (Tj, TJ, ', ", T*, Td, TD, ET)
+ */
+function extractPdfContentText(content: string): string {
+  const tokenPattern = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|[A-Za-z'"*]+/g;
+  let text = '';
+  let operands: Array<string | number> = [];
+  let inArray = false;
+  let arrayParts: string[] = [];
+
+  for (const [token] of content.matchAll(tokenPattern)) {
+    if (token.startsWith('(') || (token.startsWith('<') && token.length > 1)) {
+      const value = token.startsWith('(') ? decodePdfLiteral(token.slice(1, -1)) : decodePdfHex(token.slice(1, -1));
+      if (inArray) {
+        arrayParts.push(value);
+      } else {
+        operands.push(value);
+      }
+    } else if (token === '[') {
+      inArray = true;
+      arrayParts = [];
+    } else if (token === ']') {
+      inArray = false;
+      operands.push(arrayParts.join(''));
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      const value = parseFloat(token);
+      if (inArray) {
+        // Large negative kerning inside TJ usually separates words
+        if (value < -200) arrayParts.push(' ');
+      } else {
+        operands.push(value);
+      }
+    } else {
+      const strings = operands.filter((operand): operand is string => typeof operand === 'string');
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += strings.join('');
+          break;
+        case '\'':
+        case '"':
+          text += `\n${strings.join('')}`;
+          break;
+        case 'T*':
+        case 'ET':
+          text += '\n';
+          break;
+        case 'Td':
+        case 'TD':
+          if (operands[1] !== 0) text += '\n';
+          break;
+      }
+      operands = [];
+    }
+  }
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Whether decoded PDF strings read as text: strings shown in CID or custom-encoded fonts
+ * decode to glyph ids, which come out as control characters (e.g. every other byte NUL)
+ */
+function isReadableText(text: string): boolean {
+  const visible = text.replace(/\s/g, '');
+  let unreadable = 0;
+  for (let index = 0; index < visible.length; index++) {
+    const code = visible.charCodeAt(index);
+    if (code < 0x20 || (code >= 0x7f && code <= 0x9f) || code === 0xfffd) unreadable++;
+  }
+  return unreadable <= visible.length * MAX_UNREADABLE_RATIO;
+}
+
+function isInflateLimitError(error: unknown): boolean {
+  return error instanceof RangeError && (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE';
+}
+
+function decodePdfLiteral(value: string): string {
+  return value.replace(/\\(\d{1,3}|\r?\n|[\s\S])/g, (_, escape: string) => {
+    if (/^\d/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    switch (escape) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '\n':
+      case '\r\n': return '';
+      default: return escape;
+    }
+  });
+}
+
+function decodePdfHex(value: string): string {
+  const hex = value.replace(/\s/g, '');
+  const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+  return Buffer.from(padded, 'hex').toString('latin1');
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,291 @@
+/**
+ * JSON Schema Validator
+ * Minimal validator for the JSON Schema subset used by tool parameters and structured outputs:
+ * type, enum, const, properties, required, additionalProperties, items, anyOf, oneOf, allOf,
+ * minimum, maximum, minLength, maxLength, pattern, minItems and maxItems, plus local $ref
+ * ("#/$defs/...", "#/definitions/...").
+ * A reference that cannot be followed (remote, missing or circular) and a pattern that is not
+ * a valid regular expression are skipped, so a schema the validator does not fully understand
+ * never rejects every value; each unresolvable reference is logged once.
+ */
+
+import type { Logger } from './logger.interface.js';
+
+export interface JsonSchemaValidationError {
+  path: string;
+  message: string;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+interface ValidationContext {
+  /** Schema that local $ref pointers resolve against */
+  root: JsonSchema;
+  /** References followed for the current value, to stop reference cycles */
+  refs: string[];
+  logger: Logger | undefined;
+}
+
+const MAX_REF_DEPTH = 32;
+
+/** References already reported as unresolvable, so each is logged only once */
+const reportedReferences = new Set<string>();
+
+/**
+ * Validate a value against a JSON Schema, returning every violation found
+ * An empty array means the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: unknown, path: string = '$', logger?: Logger): JsonSchemaValidationError[] {
+  return isSchemaObject(schema) ? validateValue(value, schema, path, { root: schema, refs: [], logger }) : [];
+}
+
+/**
+ * Render validation errors as a compact, model-readable list
+ */
+export function formatValidationErrors(errors: JsonSchemaValidationError[]): string {
+  return errors.map((error) => `${error.path}: ${error.message}`).join('; ');
+}
+
+function validateValue(value: unknown, schema: unknown, path: string, context: ValidationContext): JsonSchemaValidationError[] {
+  if (!isSchemaObject(schema)) {
+    return [];
+  }
+
+  const errors: JsonSchemaValidationError[] = [];
+
+  if (typeof schema['$ref'] === 'string') {
+    errors.push(...validateReference(value, schema['$ref'], path, context));
+  }
+
+  if (schema['type'] !== undefined && !matchesType(value, schema['type'])) {
+    errors.push({ path, message: `expected ${formatType(schema['type'])}, got ${describeType(value)}` });
+    return errors;
+  }
+
+  if (Array.isArray(schema['enum']) && !schema['enum'].some((option) => isDeepEqual(option, value))) {
+    errors.push({ path, message: `must be one of ${JSON.stringify(schema['enum'])}` });
+  }
+
+  if ('const' in schema && !isDeepEqual(schema['const'], value)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(schema['const'])}` });
+  }
+
+  errors.push(...validateCombinators(value, schema, path, context));
+
+  if (typeof value === 'string') {
+    errors.push(...validateString(value, schema, path));
+  } else if (typeof value === 'number') {
+    errors.push(...validateNumber(value, schema, path));
+  } else if (Array.isArray(value)) {
+    errors.push(...validateArray(value, schema, path, context));
+  } else if (isPlainObject(value)) {
+    errors.push(...validateObject(value, schema, path, context));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate against the schema a local $ref points to (a JSON pointer into the root schema).
+ * A reference that cannot be followed accepts any value: no argument could ever satisfy it.
+ */
+function validateReference(value: unknown, ref: string, path: string, context: ValidationContext): JsonSchemaValidationError[] {
+  if (context.refs.includes(ref) || context.refs.length >= MAX_REF_DEPTH) {
+    reportUnresolvedReference(ref, 'is circular', context.logger);
+    return [];
+  }
+  const target = resolveReference(context.root, ref);
+  if (target === undefined) {
+    reportUnresolvedReference(ref, 'cannot be resolved (only local references are supported)', context.logger);
+    return [];
+  }
+  return validateValue(value, target, path, { ...context, refs: [...context.refs, ref] });
+}
+
+function reportUnresolvedReference(ref: string, reason: string, logger: Logger | undefined): void {
+  if (!logger || reportedReferences.has(ref)) {
+    return;
+  }
+  reportedReferences.add(ref);
+  logger.warn(`⚠️ Schema $ref ${ref} ${reason}; values for it are not validated`);
+}
+
+function resolveReference(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (ref !== '#' && !ref.startsWith('#/')) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const segment of ref.split('/').slice(1)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isPlainObject(target) ? target[key] : undefined;
+  }
+  return isSchemaObject(target) ? target : undefined;
+}
+
+function validateCombinators(value: unknown, schema: JsonSchema, path: string, context: ValidationContext): JsonSchemaValidationError[] {
+  const errors: JsonSchemaValidationError[] = [];
+
+  if (Array.isArray(schema['allOf'])) {
+    for (const subschema of schema['allOf']) {
+      errors.push(...validateValue(value, subschema, path, context));
+    }
+  }
+
+  if (Array.isArray(schema['anyOf'])) {
+    const matches = schema['anyOf'].some((subschema) => validateValue(value, subschema, path, context).length === 0);
+    if (!matches) {
+      errors.push({ path, message: 'must match at least one allowed schema (anyOf)' });
+    }
+  }
+
+  if (Array.isArray(schema['oneOf'])) {
+    const matchCount = schema['oneOf'].filter((subschema) => validateValue(value, subschema, path, context).length === 0).length;
+    if (matchCount !== 1) {
+      errors.push({ path, message: `must match exactly one allowed schema (oneOf), matched ${matchCount}` });
+    }
+  }
+
+  return errors;
+}
+
+function validateString(value: string, schema: JsonSchema, path: string): JsonSchemaValidationError[] {
+  const errors: JsonSchemaValidationError[] = [];
+  const minLength = schema['minLength'];
+  const maxLength = schema['maxLength'];
+  const pattern = schema['pattern'];
+
+  if (typeof minLength === 'number' && value.length < minLength) {
+    errors.push({ path, message: `must be at least ${minLength} characters` });
+  }
+  if (typeof maxLength === 'number' && value.length > maxLength) {
+    errors.push({ path, message: `must be at most ${maxLength} characters` });
+  }
+  if (typeof pattern === 'string') {
+    const expression = compilePattern(pattern);
+    if (expression && !expression.test(value)) {
+      errors.push({ path, message: `must match pattern ${pattern}` });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Compile a schema pattern, or undefined when it is not a valid regular expression
+ */
+function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string): JsonSchemaValidationError[] {
+  const errors: JsonSchemaValidationError[] = [];
+  const minimum = schema['minimum'];
+  const maximum = schema['maximum'];
+
+  if (typeof minimum === 'number' && value < minimum) {
+    errors.push({ path, message: `must be >= ${minimum}` });
+  }
+  if (typeof maximum === 'number' && value > maximum) {
+    errors.push({ path, message: `must be <= ${maximum}` });
+  }
+
+  return errors;
+}
+
+function validateArray(value: unknown[], schema: JsonSchema, path: string, context: ValidationContext): JsonSchemaValidationError[] {
+  const errors: JsonSchemaValidationError[] = [];
+  const minItems = schema['minItems'];
+  const maxItems = schema['maxItems'];
+
+  if (typeof minItems === 'number' && value.length < minItems) {
+    errors.push({ path, message: `must contain at least ${minItems} items` });
+  }
+  if (typeof maxItems === 'number' && value.length > maxItems) {
+    errors.push({ path, message: `must contain at most ${maxItems} items` });
+  }
+  if (isSchemaObject(schema['items'])) {
+    const child: ValidationContext = { ...context, refs: [] };
+    for (const [index, item] of value.entries()) {
+      errors.push(...validateValue(item, schema['items'], `${path}[${index}]`, child));
+    }
+  }
+
+  return errors;
+}
+
+function validateObject(value: Record<string, unknown>, schema: JsonSchema, path: string, context: ValidationContext): JsonSchemaValidationError[] {
+  const errors: JsonSchemaValidationError[] = [];
+  const properties = isSchemaObject(schema['properties']) ? schema['properties'] : {};
+  const required = Array.isArray(schema['required']) ? schema['required'] : [];
+
+  for (const key of required) {
+    if (typeof key === 'string' && !Object.prototype.hasOwnProperty.call(value, key)) {
+      errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+  }
+
+  const child: ValidationContext = { ...context, refs: [] };
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (propertySchema !== undefined) {
+      errors.push(...validateValue(propertyValue, propertySchema, `${path}.${key}`, child));
+    } else if (schema['additionalProperties'] === false) {
+      errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+    } else if (isSchemaObject(schema['additionalProperties'])) {
+      errors.push(...validateValue(propertyValue, schema['additionalProperties'], `${path}.${key}`, child));
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  if (Array.isArray(type)) {
+    return type.some((option) => matchesType(value, option));
+  }
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+function formatType(type: unknown): string {
+  return Array.isArray(type) ? type.join(' | ') : String(type);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return isPlainObject(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -2,15 +2,22 @@ import type { AgentRequest, MemoryRepository, JSONValue } from '@cubicler/cubica
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions.js';
 import type { OpenAIConfig, DispatchConfig } from '../config/environment.js';
 import type { Logger } from './logger.interface.js';
+import type { DocumentAttachment, ResolvedMessageContent } from '../models/types.js';
+import { validateJsonSchema, type JsonSchemaValidationError } from './json-schema-validator.js';
+import { getAudioFormat, isNativeAudioFormat } from './audio-helper.js';
 
 /**
  * Message Helper Utilities
  * Handles conversion between Cubicler and OpenAI message formats
  */
 
+const IMAGE_OMITTED_NOTE = '[image omitted: model does not support image input]';
+const AUDIO_OMITTED_NOTE = '[audio omitted: model does not support audio input and it could not be transcribed]';
+
 /**
  * Convert AgentRequest messages to OpenAI message format
  * Handles different message types and builds conversation context
+ * resolvedContent holds transcripts, downloaded audio and extracted documents prepared for file-like messages
  */
 export function buildOpenAIMessages(
   request: AgentRequest, 
@@ -18,7 +25,8 @@ export function buildOpenAIMessages(
   dispatchConfig: DispatchConfig,
   iteration: number = 1,
   memory?: MemoryRepository,
-  logger?: Logger
+  logger?: Logger,
+  resolvedContent?: Map<object, ResolvedMessageContent>
 ): ChatCompletionMessageParam[] {
   const messages: ChatCompletionMessageParam[] = [];
 
@@ -41,21 +49,44 @@ export function buildOpenAIMessages(
         content: message.content
       });
     } else {
-      // User messages: support text and image content
+      // User messages: support text, image, audio and document content
       const senderName = message.sender.name || 'Unknown';
 
       // Build a compact JSON envelope for the text part
       const isImage = message.type === 'image';
+      const isAudio = message.type === 'audio';
+      const resolved = resolvedContent?.get(message);
+      const transcript = resolved && 'transcript' in resolved ? resolved.transcript : undefined;
+      const attachment = resolved && 'attachment' in resolved ? resolved.attachment : undefined;
       const envelope = {
         senderId: message.sender.id,
         name: senderName,
-        // Avoid dumping base64 into the text envelope
+        // Avoid dumping base64 into the text envelope; audio and documents are replaced by their text when available
         content:
-          isImage && message.metadata?.format === 'base64'
-            ? '<base64 image omitted>'
-            : message.content,
+          attachment ? describeAttachment(attachment)
+            : transcript ?? ((isImage || isAudio) && message.metadata?.format === 'base64'
+              ? `<base64 ${message.type} omitted>`
+              : message.content),
         type: message.type || 'text',
-      } as const;
+        ...(attachment && { fileName: attachment.fileName }),
+      };
+
+      if (isAudio && transcript === undefined) {
+        const audio = resolved && 'audio' in resolved
+          ? resolved.audio
+          : buildInputAudioFromMessageContent(message.content, message.metadata?.format, message.metadata?.fileExtension);
+
+        if (audio) {
+          messages.push({
+            role: 'user',
+            content: [
+              { type: 'text', text: JSON.stringify(envelope) },
+              { type: 'input_audio', input_audio: audio },
+            ],
+          });
+          continue;
+        }
+      }
 
       if (isImage) {
         const imageUrl = buildImageUrlFromMessageContent(
@@ -89,6 +120,69 @@ export function buildOpenAIMessages(
   return messages;
 }
 
+/**
+ * Replace image parts with a text note for models without image input
+ * Messages without image parts are returned unchanged
+ */
+export function stripImageParts(messages: ChatCompletionMessageParam[]): ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (message.role !== 'user' || !Array.isArray(message.content)) {
+      return message;
+    }
+    if (!message.content.some((part) => part.type === 'image_url')) {
+      return message;
+    }
+    return {
+      ...message,
+      content: message.content.map((part) =>
+        part.type === 'image_url' ? { type: 'text' as const, text: IMAGE_OMITTED_NOTE } : part
+      ),
+    };
+  });
+}
+
+/**
+ * Replace input_audio parts with a text note for models without audio input
+ * Messages without audio parts are returned unchanged
+ */
+export function stripAudioParts(messages: ChatCompletionMessageParam[]): ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (message.role !== 'user' || !Array.isArray(message.content)) {
+      return message;
+    }
+    if (!message.content.some((part) => part.type === 'input_audio')) {
+      return message;
+    }
+    return {
+      ...message,
+      content: message.content.map((part) =>
+        part.type === 'input_audio' ? { type: 'text' as const, text: AUDIO_OMITTED_NOTE } : part
+      ),
+    };
+  });
+}
+
+/**
+ * Send system instructions under the role the model accepts
+ * Reasoning models take 'developer'; models accepting neither get them as a user message.
+ * Instructions already moved to 'developer' (e.g. for another model) are moved again.
+ */
+export function applySystemRole(
+  messages: ChatCompletionMessageParam[],
+  role: 'system' | 'developer' | 'user'
+): ChatCompletionMessageParam[] {
+  const needsRole = (message: ChatCompletionMessageParam) =>
+    (message.role === 'system' || message.role === 'developer') && message.role !== role;
+  if (!messages.some(needsRole)) {
+    return messages;
+  }
+  return messages.map((message) =>
+    needsRole(message) && (message.role === 'system' || message.role === 'developer')
+      ? { role, content: message.content }
+      : message
+  );
+}
+
 /**
  * Build system message with agent prompt and OpenAI-specific context
  * Includes the agent's prompt from Cubicler dispatch plus iteration and token limits
@@ -129,7 +223,9 @@ Store as complete sentences with tags. Use importance scores 0-1.`;
   // Message format and limits (phrasing aligned with unit tests)
   systemMessage += `\n\nIMPORTANT: Messages from users will be in JSON format with fields senderId, name, content. Always respond in plain text unless calling tools.`;
   systemMessage += `\nThis is iteration ${iteration} of ${dispatchConfig.sessionMaxIteration}`;
-  systemMessage += `\nYou have a maximum of ${openaiConfig.sessionMaxTokens} tokens`;
+  if (openaiConfig.sessionMaxTokens !== undefined) {
+    systemMessage += `\nYou have a maximum of ${openaiConfig.sessionMaxTokens} tokens`;
+  }
   if (request.tools && request.tools.length > 0) {
     const remaining = Math.max(0, dispatchConfig.sessionMaxIteration - iteration);
     systemMessage += `\nYou have ${remaining} remaining iterations to make tool calls`;
@@ -163,6 +259,29 @@ export function cleanFinalResponse(content: string | null, logger?: Logger): str
   return content;
 }
 
+/**
+ * Parse a structured (JSON Schema) response and validate it against the schema
+ * Returns the parsed value when valid, otherwise the list of problems found
+ */
+export function parseStructuredResponse(
+  content: string | null,
+  schema: Record<string, unknown>
+): { value?: JSONValue; errors: JsonSchemaValidationError[] } {
+  if (!content) {
+    return { errors: [{ path: '$', message: 'response is empty' }] };
+  }
+
+  let value: JSONValue;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return { errors: [{ path: '$', message: `response is not valid JSON (${error instanceof Error ? error.message : 'Parse error'})` }] };
+  }
+
+  const errors = validateJsonSchema(value, schema);
+  return errors.length === 0 ? { value, errors } : { errors };
+}
+
 /**
  * Attempt to extract content from JSON response
  * Returns null if not valid JSON or no content field found
@@ -229,6 +348,32 @@ function buildImageUrlFromMessageContent(
   return null;
 }
 
+/**
+ * Text standing in for a document attachment: the whole document when it fits on one
+ * page, otherwise the first page and how to read the rest
+ */
+function describeAttachment(attachment: DocumentAttachment): string {
+  const [firstPage = '', ...rest] = attachment.pages;
+  if (rest.length === 0) {
+    return firstPage;
+  }
+  return `${firstPage}\n\n[Page 1 of ${attachment.pages.length} of attachment ${attachment.id}. Read the other pages with attachment_read_page.]`;
+}
+
+/**
+ * Build an input_audio part from base64 audio in a format chat completions accept (wav, mp3)
+ * URL audio has to be downloaded first, so it is left to the caller
+ */
+function buildInputAudioFromMessageContent(
+  content: string,
+  format?: 'base64' | 'url',
+  fileExtension?: string
+): { data: string; format: 'wav' | 'mp3' } | null {
+  if (!content || format !== 'base64') return null;
+  const audioFormat = getAudioFormat(fileExtension);
+  return isNativeAudioFormat(audioFormat) ? { data: content, format: audioFormat } : null;
+}
+
 function inferMimeType(ext?: string): string {
   const e = (ext || '').toLowerCase().replace(/^\./, '');
   switch (e) {
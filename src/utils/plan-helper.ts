@@ -0,0 +1,114 @@
+import type { PlanState, PlanSummary } from '../models/types.js';
+
+/**
+ * Plan Helper Utilities
+ * Prompts and parsing for plan-and-execute sessions
+ */
+
+const STEP_FAILED_MARKER = 'STEP FAILED:';
+
+/**
+ * Ask for the initial plan
+ */
+export function buildPlanningPrompt(maxSteps: number): string {
+  return `Before doing anything, plan how to handle this request. Reply with only a JSON object of the form {"steps": ["..."]} listing at most ${maxSteps} concrete steps in order, each one action or check. Do not call any tools yet.`;
+}
+
+/**
+ * Ask for replacement steps after a step failed, given what has been done so far
+ */
+export function buildRevisionPrompt(plan: PlanState, failedIndex: number, maxSteps: number): string {
+  const failed = plan.steps[failedIndex];
+  const done = plan.steps
+    .slice(0, failedIndex)
+    .map((step, index) => `${index + 1}. ${step.description} (${step.status})`)
+    .join('\n');
+  return [
+    `Step ${failedIndex + 1} (${failed?.description ?? 'unknown'}) failed: ${failed?.result ?? 'no details'}.`,
+    done ? `Steps so far:\n${done}` : '',
+    `Revise the rest of the plan. Reply with only a JSON object of the form {"steps": ["..."]} listing at most ${maxSteps} remaining steps that still reach the goal, or {"steps": []} if it cannot be reached. Do not call any tools yet.`,
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Instructions for carrying out one step through the tool loop
+ */
+export function buildStepPrompt(plan: PlanState, index: number): string {
+  const step = plan.steps[index];
+  return `Carry out step ${index + 1} of ${plan.steps.length}: ${step?.description ?? ''}\nUse tools as needed. When the step is done, reply with a short report of its outcome. If it cannot be completed, start the reply with "${STEP_FAILED_MARKER}" and say why.`;
+}
+
+/**
+ * Ask for the final answer once the plan has run
+ */
+export function buildPlanFinalPrompt(plan: PlanState): string {
+  const outcome = plan.steps
+    .map((step, index) => `${index + 1}. ${step.description}: ${step.status}`)
+    .join('\n');
+  return `The plan has finished:\n${outcome}\n\nReply to the user now with the overall result, including anything that could not be done.`;
+}
+
+/**
+ * Step descriptions from a planning reply: {"steps": [...]}, a bare JSON array, or a
+ * numbered/bulleted list as a fallback. Steps may be strings or { description } objects
+ */
+export function parsePlanSteps(content: string | null, maxSteps: number): string[] {
+  if (!content) {
+    return [];
+  }
+
+  const json = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+  try {
+    const parsed: unknown = JSON.parse(json);
+    const steps = Array.isArray(parsed) ? parsed : (parsed as { steps?: unknown })?.steps;
+    if (Array.isArray(steps)) {
+      return steps
+        .map((step) => (typeof step === 'string' ? step : (step as { description?: unknown })?.description))
+        .filter((step): step is string => typeof step === 'string' && step.trim().length > 0)
+        .map((step) => step.trim())
+        .slice(0, maxSteps);
+    }
+  } catch {
+    // Not JSON; fall back to a list
+  }
+
+  return content
+    .split('\n')
+    .map((line) => /^\s*(?:\d+[.)]|[-*])\s+(.+)$/.exec(line)?.[1]?.trim())
+    .filter((step): step is string => Boolean(step))
+    .slice(0, maxSteps);
+}
+
+/**
+ * Whether a step report says the step could not be completed
+ */
+export function isStepFailure(report: string | null): boolean {
+  return !report || report.trimStart().toUpperCase().startsWith(STEP_FAILED_MARKER);
+}
+
+/**
+ * Index of the step to work on next (the running one, else the first pending one), or -1
+ */
+export function findNextStep(plan: PlanState): number {
+  const running = plan.steps.findIndex((step) => step.status === 'running');
+  return running >= 0 ? running : plan.steps.findIndex((step) => step.status === 'pending');
+}
+
+export function skipRemainingSteps(plan: PlanState): void {
+  for (const step of plan.steps) {
+    if (step.status === 'pending' || step.status === 'running') {
+      step.status = 'skipped';
+    }
+  }
+}
+
+export function summarizePlan(plan: PlanState): PlanSummary {
+  return {
+    steps: plan.steps.map(({ description, status, result }) => ({
+      description,
+      status,
+      ...(result !== undefined && { result }),
+    })),
+    revisions: plan.revisions,
+  };
+}
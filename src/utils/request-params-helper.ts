@@ -0,0 +1,62 @@
+import type { OpenAIConfig } from '../config/environment.js';
+import { resolveModelCapabilities } from '../config/model-registry.js';
+import type { OpenAIRequestParams } from '../models/types.js';
+import { applySystemRole, stripAudioParts, stripImageParts } from './message-helper.js';
+
+/**
+ * Request Params Helper
+ * Shapes chat completion params to the registry capabilities of their model, so the
+ * same request can be sent to models with different parameter quirks
+ */
+
+/**
+ * Settings used to shape a request: declared model capabilities and the configured
+ * temperature and reasoning effort, applied when the params carry none
+ */
+export type RequestShapingSettings = Partial<Pick<OpenAIConfig, 'models' | 'temperature' | 'reasoningEffort'>>;
+
+/**
+ * Shape request params to the capabilities of params.model: completion tokens are capped
+ * at its max output and sent as max_tokens or max_completion_tokens, system instructions
+ * use the model's role, and temperature, reasoning_effort, tools, response_format, image
+ * and audio parts are only sent when the model supports them.
+ * Params shaped for another model can be reshaped, e.g. when falling back to it.
+ */
+export function shapeRequestParams(params: OpenAIRequestParams, settings: RequestShapingSettings = {}): OpenAIRequestParams {
+  const capabilities = resolveModelCapabilities(params.model, settings.models);
+  const visionMessages = capabilities.supportsVision ? params.messages : stripImageParts(params.messages);
+  const shaped: OpenAIRequestParams = {
+    model: params.model,
+    messages: applySystemRole(
+      capabilities.supportsAudioInput ? visionMessages : stripAudioParts(visionMessages),
+      capabilities.systemRole
+    ),
+  };
+
+  const maxTokens = params.max_completion_tokens ?? params.max_tokens;
+  if (maxTokens !== undefined) {
+    if (capabilities.usesMaxCompletionTokens) {
+      shaped.max_completion_tokens = Math.min(maxTokens, capabilities.maxOutputTokens);
+    } else {
+      shaped.max_tokens = Math.min(maxTokens, capabilities.maxOutputTokens);
+    }
+  }
+  const temperature = params.temperature ?? settings.temperature;
+  if (capabilities.supportsTemperature && temperature !== undefined) {
+    shaped.temperature = temperature;
+  }
+  const reasoningEffort = params.reasoning_effort ?? settings.reasoningEffort;
+  if (capabilities.supportsReasoningEffort && reasoningEffort) {
+    shaped.reasoning_effort = reasoningEffort;
+  }
+  if (params.tools && params.tools.length > 0 && capabilities.supportsTools) {
+    shaped.tools = params.tools;
+    if (params.tool_choice) {
+      shaped.tool_choice = params.tool_choice;
+    }
+  }
+  if (params.response_format && capabilities.supportsJsonSchema) {
+    shaped.response_format = params.response_format;
+  }
+  return shaped;
+}
@@ -0,0 +1,170 @@
+import { setTimeout as delay } from 'timers/promises';
+import type { AgentClient, JSONObject, JSONValue } from '@cubicler/cubicagentkit';
+import type { Logger } from './logger.interface.js';
+import { abortable } from './deadline-helper.js';
+import { matchesToolPattern } from './tool-policy-helper.js';
+
+/**
+ * Retry Helper Utilities
+ * Exponential backoff with full jitter for transient failures of remote calls
+ */
+
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+const RETRYABLE_ERROR_CODES = new Set(['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET']);
+const MODEL_UNAVAILABLE_MESSAGE_PATTERN = /overloaded|rate limit|too many requests|service unavailable|bad gateway|gateway timeout|connection error/i;
+const RETRYABLE_MESSAGE_PATTERN = /timed? ?out|socket hang up|connection (reset|refused|closed)|network error|\bstatus(?: code)?:? (?:429|5\d\d)\b|too many requests|service unavailable|bad gateway|gateway timeout/i;
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  sleep?: (ms: number) => Promise<void>;
+  /** Stops further attempts (and pending backoff) once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Retry policy for remote tool calls. Retries are opt-in per tool, since a retried call
+ * may run twice: tools matching retryableTools (names or globs) get maxRetries, and
+ * toolOverrides sets a tool's own count. Other tools are not retried
+ */
+export interface ToolRetryPolicy {
+  maxRetries: number;
+  retryableTools?: string[];
+  toolOverrides?: Record<string, number>;
+}
+
+/**
+ * Run fn, retrying retryable failures up to maxRetries times
+ * Delays grow exponentially from baseDelayMs (capped at maxDelayMs) with full jitter
+ */
+export async function callWithRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  const sleep = options.sleep ?? ((ms: number) => delay(ms, undefined, options.signal ? { signal: options.signal } : {}));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryable(error) || options.signal?.aborted) {
+        throw error;
+      }
+      const delayMs = Math.floor(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Transient failures worth retrying: timeouts, connection errors, 429 and 5xx responses.
+ * Aborted calls are never retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'APIUserAbortError')) {
+    return false;
+  }
+
+  const { code, status, statusCode } = error as { code?: unknown; status?: unknown; statusCode?: unknown };
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  const httpStatus = typeof status === 'number' ? status : typeof statusCode === 'number' ? statusCode : undefined;
+  if (httpStatus !== undefined) {
+    return httpStatus === 429 || httpStatus >= 500;
+  }
+
+  return error instanceof Error && (error.name === 'TimeoutError' || RETRYABLE_MESSAGE_PATTERN.test(error.message));
+}
+
+/**
+ * Model call failures another model or endpoint may not share: rate limits, overloaded
+ * and 5xx responses, and connection errors. Aborted calls never qualify
+ */
+export function isModelUnavailableError(error: unknown): boolean {
+  if (!(error instanceof Error) || error.name === 'AbortError' || error.name === 'APIUserAbortError') {
+    return false;
+  }
+
+  const { code, status } = error as { code?: unknown; status?: unknown };
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  return error.name.startsWith('APIConnection') || MODEL_UNAVAILABLE_MESSAGE_PATTERN.test(error.message);
+}
+
+/**
+ * Wait requested by an error's retry-after-ms or Retry-After header (seconds or an HTTP date), in milliseconds
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const headers = (error as { headers?: unknown } | undefined)?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  const read = (name: string): string | undefined => {
+    const value = typeof (headers as { get?: unknown }).get === 'function'
+      ? (headers as { get(name: string): string | null }).get(name)
+      : (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const milliseconds = Number(read('retry-after-ms'));
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+  const retryAfter = read('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Number of retries allowed for a tool: its override, maxRetries when it is retryable, otherwise none
+ */
+export function resolveToolRetries(policy: ToolRetryPolicy, toolName: string): number {
+  const override = policy.toolOverrides?.[toolName];
+  if (override !== undefined) {
+    return override;
+  }
+  return policy.retryableTools?.some((pattern) => matchesToolPattern(toolName, pattern)) ? policy.maxRetries : 0;
+}
+
+/**
+ * Call a Cubicler tool, retrying transient failures per the tool retry policy
+ * An aborted signal abandons the pending call and any further attempts
+ */
+export async function callToolWithRetry(
+  client: AgentClient,
+  toolName: string,
+  parameters: JSONObject,
+  policy: ToolRetryPolicy,
+  logger?: Logger,
+  signal?: AbortSignal
+): Promise<JSONValue> {
+  return callWithRetry(() => abortable(client.callTool(toolName, parameters), signal), {
+    maxRetries: resolveToolRetries(policy, toolName),
+    ...(signal && { signal }),
+    onRetry: (error, attempt, delayMs) => {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      logger?.warn(`⚠️ Retrying ${toolName} (attempt ${attempt}) in ${delayMs}ms after transient failure: ${reason}`);
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions.js';
+import type { ReviewVerdict } from '../models/types.js';
+
+/**
+ * Review Helper Utilities
+ * Prompts and parsing for the self-critique pass over a draft final answer
+ */
+
+/** Upper bound for each section shown to the reviewer, keeping the review call small */
+const MAX_SECTION_CHARS = 6000;
+
+const REVIEWER_PROMPT = 'You review an assistant\'s draft answer before it is sent. Check it against the agent instructions, the user\'s request and the tool results: flag claims the tool results do not support, instructions or parts of the request it missed, and anything wrong. Reply with only a JSON object: {"approved": true} when the draft can be sent as is, or {"approved": false, "notes": "<specific changes to make>"}.';
+
+/**
+ * Messages for the reviewer: its instructions and one message holding the agent's
+ * instructions, the user's messages, the tool results and the draft
+ */
+export function buildReviewMessages(messages: ChatCompletionMessageParam[], draft: string): ChatCompletionMessageParam[] {
+  const instructions = messages.filter((message) => message.role === 'system').slice(0, 1).map(getMessageText);
+  const userMessages = messages.filter((message) => message.role === 'user').map(getMessageText);
+  const toolResults = messages.filter((message) => message.role === 'tool').map(getMessageText);
+
+  const sections = [
+    ['Agent instructions', instructions.join('\n')],
+    ['User request', userMessages.join('\n\n')],
+    ['Tool results', toolResults.join('\n\n') || '(no tools were called)'],
+    ['Draft answer', draft],
+  ];
+  return [
+    { role: 'system', content: REVIEWER_PROMPT },
+    {
+      role: 'user',
+      content: sections
+        .filter(([, text]) => text)
+        .map(([title, text]) => `## ${title}\n${truncate(text ?? '')}`)
+        .join('\n\n'),
+    },
+  ];
+}
+
+/**
+ * Reviewer verdict from its reply, or undefined when the reply cannot be read
+ */
+export function parseReviewVerdict(content: string | null): ReviewVerdict | undefined {
+  if (!content) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    const { approved, notes } = (parsed ?? {}) as { approved?: unknown; notes?: unknown };
+    if (typeof approved !== 'boolean') {
+      return undefined;
+    }
+    const trimmedNotes = typeof notes === 'string' ? notes.trim() : '';
+    // A rejection without notes gives the model nothing to act on
+    if (!approved && !trimmedNotes) {
+      return undefined;
+    }
+    return { approved, ...(trimmedNotes && { notes: trimmedNotes }) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Instructions for the revision round that follows a rejected draft
+ */
+export function buildReviewFeedbackPrompt(notes: string): string {
+  return `A reviewer checked your draft answer and asked for changes:\n${notes}\n\nRevise the answer accordingly, using tools if you need to verify something, then reply to the user with the corrected answer only.`;
+}
+
+function getMessageText(message: ChatCompletionMessageParam): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return (message.content ?? [])
+    .map((part) => ('text' in part ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SECTION_CHARS ? `${text.slice(0, MAX_SECTION_CHARS)}\n[truncated]` : text;
+}
@@ -0,0 +1,71 @@
+import type { AgentRequest } from '@cubicler/cubicagentkit';
+import type { OpenAIConfig, SpeechConfig } from '../config/environment.js';
+import type { SpeechFormat, SpeechSettings } from '../models/types.js';
+
+/**
+ * Speech Helper Utilities
+ * Decides whether and how a session's final answer is spoken
+ */
+
+const DEFAULT_TTS_VOICE = 'alloy';
+const DEFAULT_TTS_FORMAT = 'mp3';
+const SPEECH_FORMATS: readonly SpeechFormat[] = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'];
+const SPEECH_MODES: readonly SpeechSettings['mode'][] = ['attach', 'replace'];
+
+type RequestedSpeech = Partial<SpeechSettings>;
+
+/**
+ * Speech settings for a request, or undefined when the answer stays text-only.
+ * The requester's latest message can set metadata.speech to true, false or
+ * { voice, format, mode }, overriding the agent's speech profile; voice and format
+ * fall back to TTS_VOICE and TTS_FORMAT
+ */
+export function resolveSpeechSettings(
+  request: AgentRequest,
+  profile: SpeechConfig | undefined,
+  openaiConfig: OpenAIConfig
+): SpeechSettings | undefined {
+  const requested = getRequestedSpeech(request);
+  const enabled = requested !== undefined ? requested !== false : profile?.enabled === true;
+  if (!enabled) {
+    return undefined;
+  }
+
+  const overrides = typeof requested === 'object' ? requested : {};
+  return {
+    voice: overrides.voice ?? profile?.voice ?? openaiConfig.ttsVoice ?? DEFAULT_TTS_VOICE,
+    format: overrides.format ?? profile?.format ?? openaiConfig.ttsFormat ?? DEFAULT_TTS_FORMAT,
+    mode: overrides.mode ?? profile?.mode ?? 'attach',
+  };
+}
+
+/**
+ * metadata.speech of the latest message not sent by the agent; invalid values are ignored
+ */
+function getRequestedSpeech(request: AgentRequest): boolean | RequestedSpeech | undefined {
+  const messages = Array.isArray(request.messages) ? request.messages : [];
+  const latest = [...messages].reverse().find((message) => message.sender.id !== request.agent.identifier);
+  const value: unknown = (latest?.metadata as Record<string, unknown> | undefined)?.['speech'];
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { enabled, voice, format, mode } = value as Record<string, unknown>;
+  if (enabled === false) {
+    return false;
+  }
+  const isValid = (voice === undefined || (typeof voice === 'string' && voice.length > 0))
+    && (format === undefined || SPEECH_FORMATS.includes(format as SpeechFormat))
+    && (mode === undefined || SPEECH_MODES.includes(mode as SpeechSettings['mode']));
+  if (!isValid) {
+    return undefined;
+  }
+  return {
+    ...(voice !== undefined && { voice: voice as string }),
+    ...(format !== undefined && { format: format as SpeechFormat }),
+    ...(mode !== undefined && { mode: mode as SpeechSettings['mode'] }),
+  };
+}
@@ -0,0 +1,88 @@
+import type { ChatCompletionChunk, ChatCompletionMessageToolCall } from 'openai/resources/chat/completions.js';
+import type { OpenAIResponse } from '../models/types.js';
+
+/**
+ * Stream Helper Utilities
+ * Assembles streamed chat completion chunks into a single OpenAIResponse
+ */
+
+/**
+ * Consume a chat completion stream, forwarding content deltas as they arrive
+ * Tool call fragments are merged by their index so that ids, names and
+ * argument strings split across chunks end up in one complete tool call
+ */
+export async function accumulateChatCompletionStream(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onContentDelta?: (delta: string) => void | Promise<void>
+): Promise<OpenAIResponse> {
+  let content = '';
+  let usedTokens = 0;
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let reasoningTokens = 0;
+  const toolCallsByIndex = new Map<number, ChatCompletionMessageToolCall>();
+
+  for await (const chunk of stream) {
+    if (chunk.usage) {
+      usedTokens = chunk.usage.total_tokens || 0;
+      promptTokens = chunk.usage.prompt_tokens || 0;
+      completionTokens = chunk.usage.completion_tokens || 0;
+      reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens || 0;
+    }
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (!delta) {
+      continue;
+    }
+
+    if (delta.content) {
+      content += delta.content;
+      if (onContentDelta) {
+        await onContentDelta(delta.content);
+      }
+    }
+
+    for (const toolCallDelta of delta.tool_calls ?? []) {
+      const existing = toolCallsByIndex.get(toolCallDelta.index);
+      if (!existing) {
+        toolCallsByIndex.set(toolCallDelta.index, {
+          id: toolCallDelta.id ?? '',
+          type: 'function',
+          function: {
+            name: toolCallDelta.function?.name ?? '',
+            arguments: toolCallDelta.function?.arguments ?? '',
+          },
+        });
+        continue;
+      }
+
+      if (toolCallDelta.id) {
+        existing.id = toolCallDelta.id;
+      }
+      if (toolCallDelta.function?.name) {
+        existing.function.name += toolCallDelta.function.name;
+      }
+      if (toolCallDelta.function?.arguments) {
+        existing.function.arguments += toolCallDelta.function.arguments;
+      }
+    }
+  }
+
+  const result: OpenAIResponse = {
+    content: content.length > 0 ? content : null,
+    usedTokens,
+    promptTokens,
+    completionTokens,
+  };
+
+  if (reasoningTokens > 0) {
+    result.reasoningTokens = reasoningTokens;
+  }
+  if (toolCallsByIndex.size > 0) {
+    result.toolCalls = [...toolCallsByIndex.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, toolCall]) => toolCall);
+  }
+
+  return result;
+}
@@ -0,0 +1,88 @@
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions.js';
+
+/**
+ * Token Helper Utilities
+ * Lightweight prompt token estimation (roughly 4 characters per token)
+ */
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_PART_TOKENS = 765;
+/** Audio input is billed by duration, roughly one token per 100 ms */
+const AUDIO_TOKENS_PER_SECOND = 10;
+/** Byte rate assumed for mp3 (128 kbps) and for wav without a readable header (16 kHz, 16-bit mono) */
+const MP3_BYTES_PER_SECOND = 16000;
+const WAV_BYTES_PER_SECOND = 32000;
+
+/**
+ * Estimate the token count of a plain string
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text down to roughly the given number of tokens
+ */
+export function truncateTextToTokens(text: string, maxTokens: number): string {
+  return text.slice(0, maxTokens * CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the token count of a single chat message including role overhead
+ */
+export function estimateMessageTokens(message: ChatCompletionMessageParam): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  const content = message.content;
+
+  if (typeof content === 'string') {
+    tokens += estimateTextTokens(content);
+  } else if (Array.isArray(content)) {
+    for (const part of content) {
+      if (part.type === 'text') {
+        tokens += estimateTextTokens(part.text);
+      } else if (part.type === 'image_url') {
+        tokens += IMAGE_PART_TOKENS;
+      } else if (part.type === 'input_audio') {
+        tokens += estimateAudioTokens(part.input_audio.data, part.input_audio.format);
+      } else {
+        tokens += estimateTextTokens(JSON.stringify(part));
+      }
+    }
+  }
+
+  if (message.role === 'assistant' && message.tool_calls) {
+    for (const toolCall of message.tool_calls) {
+      tokens += estimateTextTokens(toolCall.function.name) + estimateTextTokens(toolCall.function.arguments);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the tokens of base64 audio from its duration: the wav header's byte rate when
+ * present, otherwise a typical byte rate for the format
+ */
+export function estimateAudioTokens(base64Data: string, format: string): number {
+  const padding = base64Data.endsWith('==') ? 2 : base64Data.endsWith('=') ? 1 : 0;
+  const byteLength = Math.floor(base64Data.length * 3 / 4) - padding;
+  const header = Buffer.from(base64Data.slice(0, 64), 'base64');
+  const wavByteRate = format === 'wav' && header.length >= 32 && header.toString('ascii', 0, 4) === 'RIFF'
+    ? header.readUInt32LE(28)
+    : 0;
+  const bytesPerSecond = wavByteRate > 0 ? wavByteRate : format === 'wav' ? WAV_BYTES_PER_SECOND : MP3_BYTES_PER_SECOND;
+  return Math.ceil(byteLength / bytesPerSecond * AUDIO_TOKENS_PER_SECOND);
+}
+
+/**
+ * Estimate the prompt tokens for a full request (messages plus tool definitions)
+ */
+export function estimatePromptTokens(
+  messages: ChatCompletionMessageParam[],
+  tools: ChatCompletionTool[] = []
+): number {
+  const messageTokens = messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  const toolTokens = tools.length > 0 ? estimateTextTokens(JSON.stringify(tools)) : 0;
+  return messageTokens + toolTokens;
+}
@@ -0,0 +1,50 @@
+/**
+ * Tool Loop Helper Utilities
+ * Fingerprints tool calls so a session can spot the model repeating itself
+ */
+
+/**
+ * Stable fingerprint of a tool call: name plus arguments with object keys sorted,
+ * so {"a":1,"b":2} and {"b":2,"a":1} match. Unparseable arguments are used verbatim.
+ */
+export function fingerprintToolCall(name: string, argumentsString: string): string {
+  try {
+    return `${name}:${canonicalJson(JSON.parse(argumentsString))}`;
+  } catch {
+    return `${name}:${argumentsString}`;
+  }
+}
+
+/**
+ * Fingerprint of one model turn's batch of tool calls, independent of call order
+ */
+export function fingerprintToolBatch(fingerprints: string[]): string {
+  return [...fingerprints].sort().join('|');
+}
+
+/**
+ * Whether the latest batches alternate between two different batches (A, B, A, B)
+ */
+export function isPingPong(batches: string[]): boolean {
+  if (batches.length < 4) {
+    return false;
+  }
+  const [a, b, c, d] = batches.slice(-4);
+  return a === c && b === d && a !== b;
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
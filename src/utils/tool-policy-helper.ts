@@ -0,0 +1,69 @@
+import type { ChatCompletionTool } from 'openai/resources/chat/completions.js';
+import type { ToolPolicy } from '../config/environment.js';
+
+/**
+ * Tool Policy Helper Utilities
+ * Per-agent tool scoping: allow/deny lists by name or glob and read-only agents
+ */
+
+const SUMMARIZER_TOOL_PREFIX = 'summarize_';
+
+/**
+ * Match a tool name against a pattern where * matches any run of characters and ? a single one
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.|+()[\]{}]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Why a tool is off-limits under the policy, or undefined when it may be used.
+ * Summarizer tools (summarize_<tool>) follow the tool they wrap unless denied by name
+ */
+export function getToolDenialReason(name: string, policy?: ToolPolicy): string | undefined {
+  if (!policy) {
+    return undefined;
+  }
+
+  if (matchesAnyToolPattern(name, policy.deny)) {
+    return `${name} is denied for this agent`;
+  }
+  if (name.startsWith(SUMMARIZER_TOOL_PREFIX)) {
+    return getToolDenialReason(name.slice(SUMMARIZER_TOOL_PREFIX.length), policy);
+  }
+  if (policy.allow && !matchesAnyToolPattern(name, policy.allow)) {
+    return `${name} is not in this agent's allowed tools`;
+  }
+  if (policy.readOnly && !matchesAnyToolPattern(name, policy.readOnlyTools)) {
+    return `${name} is not marked read-only and this agent may only use read-only tools`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether calls to a tool must be approved by a human before they run
+ */
+export function requiresApproval(name: string, policy?: ToolPolicy): boolean {
+  if (!policy?.requireApproval) {
+    return false;
+  }
+  const wrapped = name.startsWith(SUMMARIZER_TOOL_PREFIX) ? name.slice(SUMMARIZER_TOOL_PREFIX.length) : name;
+  return matchesAnyToolPattern(name, policy.requireApproval) || matchesAnyToolPattern(wrapped, policy.requireApproval);
+}
+
+/**
+ * Drop the tools the policy does not let the agent use
+ */
+export function filterToolsByPolicy(tools: ChatCompletionTool[], policy?: ToolPolicy): ChatCompletionTool[] {
+  if (!policy) {
+    return tools;
+  }
+  return tools.filter((tool) => getToolDenialReason(tool.function.name, policy) === undefined);
+}
+
+function matchesAnyToolPattern(name: string, patterns: string[] = []): boolean {
+  return patterns.some((pattern) => matchesToolPattern(name, pattern));
+}
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { loadConfig, openAIConfigSchema, dispatchConfigSchema, configSchema, jwtConfigSchema } from '../../src/config/environment.js';
 
 describe('Environment Configuration', () => {
@@ -24,6 +27,42 @@ describe('Environment Configuration', () => {
     delete process.env.DISPATCH_SESSION_MAX_ITERATION;
     delete process.env.DISPATCH_ENDPOINT;
     delete process.env.AGENT_PORT;
+    delete process.env.AGENT_PROFILES_PATH;
+    delete process.env.SUB_AGENTS_PATH;
+    delete process.env.SUB_AGENT_MAX_DEPTH;
+    delete process.env.OPENAI_PROVIDER;
+    delete process.env.OPENAI_MODELS_PATH;
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    delete process.env.AZURE_OPENAI_API_VERSION;
+    delete process.env.AZURE_OPENAI_DEPLOYMENT;
+    delete process.env.AZURE_OPENAI_SUMMARIZER_DEPLOYMENT;
+    delete process.env.AZURE_OPENAI_API_KEY;
+    delete process.env.AZURE_OPENAI_AD_TOKEN;
+    delete process.env.AZURE_OPENAI_MODEL_DEPLOYMENTS;
+    delete process.env.AZURE_OPENAI_MANAGED_IDENTITY;
+    delete process.env.AZURE_TENANT_ID;
+    delete process.env.AZURE_CLIENT_ID;
+    delete process.env.AZURE_CLIENT_SECRET;
+    delete process.env.MCP_TOOL_RETRIES;
+    delete process.env.MCP_RETRYABLE_TOOLS;
+    delete process.env.TOOL_CACHE_TTLS;
+    delete process.env.TOOL_CACHE_MAX_ENTRIES;
+    delete process.env.ATTACHMENT_INLINE_MAX_CHARS;
+    delete process.env.ATTACHMENT_PAGE_CHARS;
+    delete process.env.TRANSCRIPTION_PROVIDER;
+    delete process.env.TRANSCRIPTION_MODEL;
+    delete process.env.TRANSCRIPTION_BASE_URL;
+    delete process.env.TTS_PROVIDER;
+    delete process.env.TTS_MODEL;
+    delete process.env.TTS_BASE_URL;
+    delete process.env.TTS_VOICE;
+    delete process.env.TTS_FORMAT;
+    delete process.env.OPENAI_FALLBACK_MODELS;
+    delete process.env.OPENAI_FALLBACK_MAX_WAIT;
+    delete process.env.OPENAI_RPM_LIMITS;
+    delete process.env.OPENAI_TPM_LIMITS;
+    delete process.env.OPENAI_RATE_LIMIT_MAX_WAIT;
+    delete process.env.OPENAI_RATE_LIMIT_MAX_QUEUE;
   });
 
   afterEach(() => {
@@ -58,7 +97,7 @@ describe('Environment Configuration', () => {
       const result = openAIConfigSchema.parse(minimalConfig);
       expect(result.model).toBe('gpt-4o');
       expect(result.temperature).toBe(0.7);
-      expect(result.sessionMaxTokens).toBe(4096);
+      expect(result.sessionMaxTokens).toBeUndefined();
       expect(result.timeout).toBe(600000);
       expect(result.maxRetries).toBe(2);
     });
@@ -71,13 +110,24 @@ describe('Environment Configuration', () => {
       expect(() => openAIConfigSchema.parse(invalidConfig)).toThrow('OpenAI API key is required');
     });
 
-    it('should reject invalid model', () => {
+    it('should reject an empty model', () => {
       const invalidConfig = {
         apiKey: 'sk-test-api-key',
-        model: 'invalid-model' as any
+        model: ''
       };
 
-      expect(() => openAIConfigSchema.parse(invalidConfig)).toThrow();
+      expect(() => openAIConfigSchema.parse(invalidConfig)).toThrow('OpenAI model is required');
+    });
+
+    it('should accept fine-tuned and unknown model ids', () => {
+      const result = openAIConfigSchema.parse({
+        apiKey: 'sk-test-api-key',
+        model: 'ft:gpt-4o-2024-08-06:acme::abc123',
+        summarizerModel: 'llama3.1:8b'
+      });
+
+      expect(result.model).toBe('ft:gpt-4o-2024-08-06:acme::abc123');
+      expect(result.summarizerModel).toBe('llama3.1:8b');
     });
 
     it('should reject invalid temperature range', () => {
@@ -329,7 +379,7 @@ describe('Environment Configuration', () => {
 
       expect(result.openai.model).toBe('gpt-4o');
       expect(result.openai.temperature).toBe(0.7);
-      expect(result.openai.sessionMaxTokens).toBe(4096);
+      expect(result.openai.sessionMaxTokens).toBeUndefined();
       expect(result.openai.timeout).toBe(600000);
       expect(result.openai.maxRetries).toBe(2);
       expect(result.dispatch.timeout).toBe(30000);
@@ -351,16 +401,271 @@ describe('Environment Configuration', () => {
       expect(result.openai.baseURL).toBeUndefined();
     });
 
+    it('should load agent profiles from AGENT_PROFILES_PATH', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'agent-profiles-'));
+      const path = join(dir, 'agents.json');
+      writeFileSync(path, JSON.stringify({
+        reporter: { structuredOutput: { schema: { type: 'object', properties: {} } } }
+      }));
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.AGENT_PROFILES_PATH = path;
+
+      try {
+        const result = loadConfig();
+        expect(result.agents?.['reporter']?.structuredOutput).toEqual({
+          name: 'response',
+          schema: { type: 'object', properties: {} },
+          strict: true,
+          maxRepairAttempts: 2
+        });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should apply planning and review defaults in agent profiles', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'agent-profiles-'));
+      const path = join(dir, 'agents.json');
+      writeFileSync(path, JSON.stringify({ researcher: { planning: { stepMaxIterations: 3 }, review: {} } }));
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.AGENT_PROFILES_PATH = path;
+
+      try {
+        const result = loadConfig();
+        expect(result.agents?.['researcher']?.planning).toEqual({ maxSteps: 6, maxRevisions: 2, stepMaxIterations: 3 });
+        expect(result.agents?.['researcher']?.review).toEqual({ maxTokens: 512 });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should load sub-agents from SUB_AGENTS_PATH', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'sub-agents-'));
+      const path = join(dir, 'sub-agents.json');
+      writeFileSync(path, JSON.stringify({
+        researcher: { description: 'Finds facts', prompt: 'You research.', model: 'gpt-4o-mini', tools: ['search*'], maxIterations: 3 }
+      }));
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.SUB_AGENTS_PATH = path;
+      process.env.SUB_AGENT_MAX_DEPTH = '1';
+
+      try {
+        const result = loadConfig();
+        expect(result.subAgents?.['researcher']).toEqual({
+          description: 'Finds facts',
+          prompt: 'You research.',
+          model: 'gpt-4o-mini',
+          tools: ['search*'],
+          maxIterations: 3
+        });
+        expect(result.dispatch.subAgentMaxDepth).toBe(1);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject sub-agent names that are not identifiers', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'sub-agents-'));
+      const path = join(dir, 'sub-agents.json');
+      writeFileSync(path, JSON.stringify({ 'bad name': { description: 'd', prompt: 'p' } }));
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.SUB_AGENTS_PATH = path;
+
+      try {
+        expect(() => loadConfig()).toThrow();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should throw a descriptive error when agent profiles cannot be read', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.AGENT_PROFILES_PATH = '/nonexistent/agents.json';
+
+      expect(() => loadConfig()).toThrow('Failed to read agent profiles from /nonexistent/agents.json');
+    });
+
+    it('should load Azure OpenAI configuration', () => {
+      process.env.OPENAI_PROVIDER = 'azure';
+      process.env.AZURE_OPENAI_ENDPOINT = 'https://tenant.openai.azure.com';
+      process.env.AZURE_OPENAI_DEPLOYMENT = 'prod-gpt4o';
+      process.env.AZURE_OPENAI_SUMMARIZER_DEPLOYMENT = 'prod-gpt4o-mini';
+      process.env.AZURE_OPENAI_AD_TOKEN = 'bearer-token';
+
+      const result = loadConfig();
+
+      expect(result.openai.provider).toBe('azure');
+      expect(result.openai.azure).toEqual({
+        endpoint: 'https://tenant.openai.azure.com',
+        apiVersion: '2024-10-21',
+        deployment: 'prod-gpt4o',
+        summarizerDeployment: 'prod-gpt4o-mini',
+        adToken: 'bearer-token'
+      });
+    });
+
+    it('should load Azure model deployments and Entra ID credentials', () => {
+      process.env.OPENAI_PROVIDER = 'azure';
+      process.env.AZURE_OPENAI_ENDPOINT = 'https://tenant.openai.azure.com';
+      process.env.AZURE_OPENAI_DEPLOYMENT = 'prod-gpt4o';
+      process.env.AZURE_OPENAI_MODEL_DEPLOYMENTS = 'gpt-4o-mini=prod-mini, o3-mini = prod-o3';
+      process.env.AZURE_TENANT_ID = 'tenant';
+      process.env.AZURE_CLIENT_ID = 'app';
+      process.env.AZURE_CLIENT_SECRET = 'secret';
+
+      const azure = loadConfig().openai.azure;
+
+      expect(azure?.modelDeployments).toEqual({ 'gpt-4o-mini': 'prod-mini', 'o3-mini': 'prod-o3' });
+      expect(azure).toMatchObject({ tenantId: 'tenant', clientId: 'app', clientSecret: 'secret' });
+
+      delete process.env.AZURE_TENANT_ID;
+      expect(() => loadConfig()).toThrow('Azure client secret authentication requires AZURE_TENANT_ID and AZURE_CLIENT_ID');
+
+      delete process.env.AZURE_CLIENT_SECRET;
+      process.env.AZURE_OPENAI_MANAGED_IDENTITY = 'true';
+      expect(loadConfig().openai.azure?.managedIdentity).toBe(true);
+    });
+
+    it('should require Azure settings and credentials when provider is azure', () => {
+      process.env.OPENAI_PROVIDER = 'azure';
+      expect(() => loadConfig()).toThrow('Azure OpenAI endpoint and deployment are required');
+
+      process.env.AZURE_OPENAI_ENDPOINT = 'https://tenant.openai.azure.com';
+      process.env.AZURE_OPENAI_DEPLOYMENT = 'prod-gpt4o';
+      expect(() => loadConfig()).toThrow('Azure OpenAI requires an API key or a bearer token');
+
+      process.env.AZURE_OPENAI_API_KEY = 'azure-key';
+      expect(loadConfig().openai.azure?.apiKey).toBe('azure-key');
+    });
+
+    it('should parse retryable tools and per-tool retry overrides', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.MCP_RETRYABLE_TOOLS = 'get*, search';
+      process.env.MCP_TOOL_RETRIES = 'createOrder=0, sendEmail=1';
+
+      const result = loadConfig();
+
+      expect(result.dispatch.retryableTools).toEqual(['get*', 'search']);
+      expect(result.dispatch.toolRetries).toEqual({ createOrder: 0, sendEmail: 1 });
+    });
+
+    it('should parse tool cache TTLs and size from the environment', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.TOOL_CACHE_TTLS = 'cubicler_fetch_server_tools=300000, get*=60000';
+      process.env.TOOL_CACHE_MAX_ENTRIES = '200';
+
+      const result = loadConfig();
+
+      expect(result.dispatch.toolCacheTtls).toEqual({ cubicler_fetch_server_tools: 300000, 'get*': 60000 });
+      expect(result.dispatch.toolCacheMaxEntries).toBe(200);
+    });
+
+    it('should parse attachment sizes from the environment', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.ATTACHMENT_INLINE_MAX_CHARS = '8000';
+      process.env.ATTACHMENT_PAGE_CHARS = '2000';
+
+      const result = loadConfig();
+
+      expect(result.dispatch.attachmentInlineChars).toBe(8000);
+      expect(result.dispatch.attachmentPageChars).toBe(2000);
+    });
+
+    it('should parse transcription settings from the environment', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.TRANSCRIPTION_PROVIDER = 'openai';
+      process.env.TRANSCRIPTION_MODEL = 'gpt-4o-mini-transcribe';
+      process.env.TRANSCRIPTION_BASE_URL = 'http://localhost:9000/v1';
+
+      const result = loadConfig();
+
+      expect(result.openai.transcriptionProvider).toBe('openai');
+      expect(result.openai.transcriptionModel).toBe('gpt-4o-mini-transcribe');
+      expect(result.openai.transcriptionBaseURL).toBe('http://localhost:9000/v1');
+    });
+
+    it('should parse text-to-speech settings from the environment', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.TTS_PROVIDER = 'stub';
+      process.env.TTS_MODEL = 'tts-1';
+      process.env.TTS_VOICE = 'nova';
+      process.env.TTS_FORMAT = 'opus';
+
+      const result = loadConfig();
+
+      expect(result.openai.ttsProvider).toBe('stub');
+      expect(result.openai.ttsModel).toBe('tts-1');
+      expect(result.openai.ttsVoice).toBe('nova');
+      expect(result.openai.ttsFormat).toBe('opus');
+    });
+
+    it('should reject unsupported text-to-speech formats', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.TTS_FORMAT = 'ogg';
+
+      expect(() => loadConfig()).toThrow();
+    });
+
+    it('should parse the model fallback chain', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.OPENAI_FALLBACK_MODELS = 'gpt-4o-mini, gpt-4o@https://backup.example.com/v1';
+      process.env.OPENAI_FALLBACK_MAX_WAIT = '2000';
+
+      const result = loadConfig();
+
+      expect(result.openai.fallbackModels).toEqual([
+        { model: 'gpt-4o-mini' },
+        { model: 'gpt-4o', baseURL: 'https://backup.example.com/v1' }
+      ]);
+      expect(result.openai.fallbackMaxWait).toBe(2000);
+    });
+
+    it('should parse client-side rate limits per model', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.OPENAI_RPM_LIMITS = 'gpt-4o=500,*=1000';
+      process.env.OPENAI_TPM_LIMITS = 'gpt-4o=30000';
+      process.env.OPENAI_RATE_LIMIT_MAX_WAIT = '15000';
+      process.env.OPENAI_RATE_LIMIT_MAX_QUEUE = '20';
+
+      const result = loadConfig();
+
+      expect(result.openai.rpmLimits).toEqual({ 'gpt-4o': 500, '*': 1000 });
+      expect(result.openai.tpmLimits).toEqual({ 'gpt-4o': 30000 });
+      expect(result.openai.rateLimitMaxWait).toBe(15000);
+      expect(result.openai.rateLimitMaxQueue).toBe(20);
+    });
+
+    it('should reject fallback endpoints that are not URLs', () => {
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.OPENAI_FALLBACK_MODELS = 'gpt-4o@backup';
+
+      expect(() => loadConfig()).toThrow();
+    });
+
     it('should throw validation error for missing API key', () => {
       // Don't set OPENAI_API_KEY
       expect(() => loadConfig()).toThrow('OpenAI API key is required');
     });
 
-    it('should throw validation error for invalid model', () => {
+    it('should accept models outside the built-in registry', () => {
       process.env.OPENAI_API_KEY = 'sk-test-api-key';
-      process.env.OPENAI_MODEL = 'invalid-model';
+      process.env.OPENAI_MODEL = 'my-local-model';
 
-      expect(() => loadConfig()).toThrow();
+      expect(loadConfig().openai.model).toBe('my-local-model');
+    });
+
+    it('should load declared model capabilities from OPENAI_MODELS_PATH', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'model-registry-'));
+      const path = join(dir, 'models.json');
+      writeFileSync(path, JSON.stringify({ 'my-local-model': { contextWindow: 32768, supportsTools: false } }));
+      process.env.OPENAI_API_KEY = 'sk-test-api-key';
+      process.env.OPENAI_MODELS_PATH = path;
+
+      try {
+        expect(loadConfig().openai.models).toEqual({ 'my-local-model': { contextWindow: 32768, supportsTools: false } });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
     });
 
     it('should throw validation error for invalid temperature', () => {
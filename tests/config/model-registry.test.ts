@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MODEL_CAPABILITIES, isKnownModel, resolveModelCapabilities } from '../../src/config/model-registry.js';
+
+describe('Model Registry', () => {
+  it('should resolve built-in models', () => {
+    expect(resolveModelCapabilities('gpt-4').contextWindow).toBe(8192);
+    expect(resolveModelCapabilities('gpt-4o')).toEqual(expect.objectContaining({ contextWindow: 128000, supportsVision: true }));
+    expect(resolveModelCapabilities('gpt-4o-audio-preview-2024-12-17').supportsAudioInput).toBe(true);
+    expect(resolveModelCapabilities('gpt-4o').supportsAudioInput).toBe(false);
+  });
+
+  it('should resolve dated snapshots to the longest matching family', () => {
+    expect(resolveModelCapabilities('gpt-4o-mini-2024-07-18')).toEqual(resolveModelCapabilities('gpt-4o-mini'));
+    expect(resolveModelCapabilities('gpt-4-0613')).toEqual(resolveModelCapabilities('gpt-4'));
+  });
+
+  it('should resolve fine-tuned models to their base model', () => {
+    expect(resolveModelCapabilities('ft:gpt-4o-2024-08-06:acme::abc123')).toEqual(resolveModelCapabilities('gpt-4o'));
+    expect(isKnownModel('ft:gpt-4o-mini:acme::abc123')).toBe(true);
+  });
+
+  it('should fall back to conservative defaults for unknown models', () => {
+    expect(resolveModelCapabilities('llama3.1:8b')).toEqual(DEFAULT_MODEL_CAPABILITIES);
+    expect(isKnownModel('llama3.1:8b')).toBe(false);
+  });
+
+  it('should apply declared capabilities on top', () => {
+    const declared = { 'llama3.1:8b': { contextWindow: 131072, supportsTools: false } };
+
+    expect(resolveModelCapabilities('llama3.1:8b', declared)).toEqual({
+      ...DEFAULT_MODEL_CAPABILITIES,
+      contextWindow: 131072,
+      supportsTools: false
+    });
+    expect(isKnownModel('llama3.1:8b', declared)).toBe(true);
+  });
+
+  it('should describe reasoning model quirks', () => {
+    expect(resolveModelCapabilities('o3-mini-2025-01-31')).toEqual(expect.objectContaining({
+      supportsTemperature: false,
+      usesMaxCompletionTokens: true,
+      supportsReasoningEffort: true,
+      systemRole: 'developer'
+    }));
+    expect(resolveModelCapabilities('o1-mini').systemRole).toBe('user');
+  });
+});
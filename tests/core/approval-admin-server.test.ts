@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ApprovalAdminServer } from '../../src/core/approval-admin-server.js';
+import { ApprovalManager } from '../../src/core/approval-manager.js';
+
+const request = {
+  agent: { identifier: 'ops', name: 'Ops', description: '', prompt: '' },
+  messages: [{ type: 'text', sender: { id: 'u1' }, content: 'delete user 7' }]
+} as any;
+const toolCall = { id: 'call_1', type: 'function', function: { name: 'deleteUser', arguments: '{"id":7}' } } as any;
+
+describe('ApprovalAdminServer', () => {
+  let server: ApprovalAdminServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+  });
+
+  const auth = { headers: { Authorization: 'Bearer secret' } };
+
+  const startServer = async (manager: ApprovalManager) => {
+    server = new ApprovalAdminServer(manager, { port: 0, token: 'secret' });
+    await server.start();
+    return `http://127.0.0.1:${server.getPort()}`;
+  };
+
+  it('lists pending approvals and records decisions', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.createPending(request, { currentMessages: [] } as any, { content: null, usedTokens: 0, promptTokens: 0, completionTokens: 0 }, [toolCall]);
+    const baseUrl = await startServer(manager);
+
+    const list = await (await fetch(`${baseUrl}/approvals`, auth)).json();
+    expect(list.approvals).toEqual([expect.objectContaining({ id: approval.id })]);
+
+    const decision = await fetch(`${baseUrl}/approvals/${approval.id}/reject`, {
+      ...auth,
+      method: 'POST',
+      body: JSON.stringify({ reason: 'wrong user' })
+    });
+    expect(decision.status).toBe(200);
+    expect((await manager.takeResumable({ ...request, messages: [{ ...request.messages[0], content: 'status?' }] }))?.decision)
+      .toEqual({ approved: false, reason: 'wrong user', source: 'admin' });
+  });
+
+  it('returns 404 for unknown approvals', async () => {
+    const baseUrl = await startServer(new ApprovalManager());
+
+    const response = await fetch(`${baseUrl}/approvals/deadbeef/approve`, { ...auth, method: 'POST' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('requires the bearer token', async () => {
+    const baseUrl = await startServer(new ApprovalManager());
+
+    expect((await fetch(`${baseUrl}/approvals`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/approvals`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/approvals`, auth)).status).toBe(200);
+  });
+
+  it('refuses to start without a token', async () => {
+    const unprotected = new ApprovalAdminServer(new ApprovalManager(), { port: 0, token: '' });
+
+    await expect(unprotected.start()).rejects.toThrow('requires a token');
+    expect(unprotected.getPort()).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ApprovalManager, parseApprovalCommand, toApprovalSummary } from '../../src/core/approval-manager.js';
+
+const request = (content: string, senderId = 'u1') => ({
+  agent: { identifier: 'ops', name: 'Ops', description: '', prompt: '' },
+  tools: [],
+  servers: [],
+  messages: [{ type: 'text', sender: { id: senderId }, content }]
+}) as any;
+
+const toolCall = { id: 'call_1', type: 'function', function: { name: 'deleteUser', arguments: '{"id":7}' } } as any;
+
+const sessionState = () => ({
+  iteration: 1,
+  currentMessages: [],
+  currentTools: [],
+  totalUsedTokens: 5,
+  promptTokens: 0,
+  completionTokens: 0,
+  reasoningTokens: 0,
+  succeededToolCalls: new Set(),
+  toolBatchHistory: [],
+  loopIncidents: [],
+  signal: new AbortController().signal
+});
+
+const pendingResponse = { content: null, toolCalls: [toolCall], usedTokens: 5, promptTokens: 4, completionTokens: 1 };
+
+describe('parseApprovalCommand', () => {
+  it('parses approvals and rejections with an id and optional reason', () => {
+    expect(parseApprovalCommand('approve 1a2b3c4d')).toEqual({ approved: true, id: '1a2b3c4d' });
+    expect(parseApprovalCommand('Reject 1A2B3C4D wrong account')).toEqual({ approved: false, id: '1a2b3c4d', reason: 'wrong account' });
+  });
+
+  it('ignores other messages and commands without an approval id', () => {
+    expect(parseApprovalCommand('reject')).toBeUndefined();
+    expect(parseApprovalCommand('approve the budget please')).toBeUndefined();
+    expect(parseApprovalCommand('please delete user 7')).toBeUndefined();
+    expect(parseApprovalCommand(undefined)).toBeUndefined();
+  });
+});
+
+describe('ApprovalManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores paused sessions without the dispatch deadline signal', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.createPending(request('delete user 7'), sessionState() as any, pendingResponse, [toolCall]);
+
+    expect(approval.id).toMatch(/^[a-f0-9]{8}$/);
+    expect(approval.sessionState).not.toHaveProperty('signal');
+    expect(toApprovalSummary(approval).toolCalls).toEqual([{ id: 'call_1', name: 'deleteUser', arguments: '{"id":7}' }]);
+  });
+
+  it('records decisions only from approvers other than the requester', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.createPending(request('delete user 7'), sessionState() as any, pendingResponse, [toolCall]);
+
+    expect(await manager.decideFromMessage(request(`approve ${approval.id}`), ['u1', 'lead'])).toBeUndefined();
+    expect(await manager.decideFromMessage(request(`approve ${approval.id}`, 'someone-else'), ['lead'])).toBeUndefined();
+    expect(await manager.decideFromMessage(request('approve', 'lead'), ['lead'])).toBeUndefined();
+    expect(await manager.takeResumable(request(`approve ${approval.id}`))).toBeUndefined();
+
+    const decided = await manager.decideFromMessage(request(`approve ${approval.id}`, 'lead'), ['lead']);
+    expect(decided?.decision).toEqual({ approved: true, source: 'message', approver: 'lead' });
+
+    const resumed = await manager.takeResumable(request('any update?'));
+    expect(resumed?.id).toBe(approval.id);
+    expect(await manager.listPending()).toEqual([]);
+  });
+
+  it('resumes an admin decision on the next message', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.createPending(request('delete user 7'), sessionState() as any, pendingResponse, [toolCall]);
+
+    expect(await manager.takeResumable(request('any update?'))).toBeUndefined();
+    await manager.decide(approval.id, false, 'not allowed');
+    const resumed = await manager.takeResumable(request('any update?'));
+
+    expect(resumed?.decision).toEqual({ approved: false, reason: 'not allowed', source: 'admin' });
+  });
+
+  it('keeps the first decision recorded for an approval', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.createPending(request('delete user 7'), sessionState() as any, pendingResponse, [toolCall]);
+
+    await manager.decideFromMessage(request(`reject ${approval.id} wrong user`, 'lead'), ['lead', 'ops-admin']);
+
+    expect(await manager.decide(approval.id, true)).toBeUndefined();
+    expect(await manager.decideFromMessage(request(`approve ${approval.id}`, 'ops-admin'), ['lead', 'ops-admin'])).toBeUndefined();
+    const resumed = await manager.takeResumable(request('any update?'));
+    expect(resumed?.decision).toEqual({ approved: false, source: 'message', approver: 'lead', reason: 'wrong user' });
+  });
+
+  it('never pauses or resumes requests without a sender', async () => {
+    const manager = new ApprovalManager();
+    const trigger = { ...request('unused'), messages: [] };
+
+    await expect(manager.createPending(trigger, sessionState() as any, pendingResponse, [toolCall])).rejects.toThrow('cannot be paused');
+    expect(await manager.takeResumable(trigger)).toBeUndefined();
+  });
+
+  it('drops approvals once they expire', async () => {
+    vi.useFakeTimers();
+    const manager = new ApprovalManager(undefined, undefined, 1000);
+    const approval = await manager.createPending(request('delete user 7'), sessionState() as any, pendingResponse, [toolCall]);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await manager.decide(approval.id, true)).toBeUndefined();
+    expect(await manager.takeResumable(request(`approve ${approval.id}`))).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AzureADTokenProvider, createAzureADTokenProvider } from '../../src/core/azure-token-provider.js';
+
+const azureConfig = { endpoint: 'https://tenant.openai.azure.com', apiVersion: '2024-10-21', deployment: 'prod-gpt4o' };
+const tokenResponse = (token: string, expiresIn: number | string) =>
+  ({ ok: true, status: 200, json: async () => ({ access_token: token, expires_in: expiresIn }) });
+
+describe('AzureADTokenProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('fetches a client credentials token and refreshes it before it expires', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(tokenResponse('first', 3600))
+      .mockResolvedValueOnce(tokenResponse('second', 3600));
+    vi.stubGlobal('fetch', fetch);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const provider = new AzureADTokenProvider({ ...azureConfig, tenantId: 'tenant', clientId: 'app', clientSecret: 'secret' });
+
+    const [first, concurrent] = await Promise.all([provider.getToken(), provider.getToken()]);
+    vi.setSystemTime(Date.now() + 50 * 60 * 1000);
+    const cached = await provider.getToken();
+    vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+    const refreshed = await provider.getToken();
+
+    expect([first, concurrent, cached, refreshed]).toEqual(['first', 'first', 'first', 'second']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://login.microsoftonline.com/tenant/oauth2/v2.0/token');
+    expect(init.body).toContain('grant_type=client_credentials');
+    expect(init.body).toContain('scope=https%3A%2F%2Fcognitiveservices.azure.com%2F.default');
+  });
+
+  it('uses the managed identity endpoint, with a user-assigned client id when set', async () => {
+    const fetch = vi.fn().mockResolvedValue(tokenResponse('msi', '3599'));
+    vi.stubGlobal('fetch', fetch);
+    const provider = new AzureADTokenProvider({ ...azureConfig, managedIdentity: true, clientId: 'identity' });
+
+    await expect(provider.getToken()).resolves.toBe('msi');
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(String(url)).toContain('http://169.254.169.254/metadata/identity/oauth2/token?');
+    expect(String(url)).toContain('client_id=identity');
+    expect(init.headers).toEqual({ Metadata: 'true' });
+  });
+
+  it('reports failed token requests', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401 }));
+    const provider = new AzureADTokenProvider({ ...azureConfig, managedIdentity: true });
+
+    await expect(provider.getToken()).rejects.toThrow('Azure AD token request failed with status 401');
+  });
+
+  it('falls back to the fixed bearer token, or none for API keys', async () => {
+    await expect(createAzureADTokenProvider({ ...azureConfig, adToken: 'fixed' })?.()).resolves.toBe('fixed');
+    expect(createAzureADTokenProvider({ ...azureConfig, apiKey: 'key' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ContextManager } from '../../src/core/context-manager.js';
+import { estimatePromptTokens } from '../../src/utils/token-helper.js';
+
+describe('ContextManager', () => {
+  let mockProvider: any;
+  let config: any;
+
+  const bigResult = 'x'.repeat(8000); // ~2000 tokens
+
+  const buildMessages = (): any[] => [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: 'question' },
+    { role: 'assistant', content: null, tool_calls: [{ id: 'a', type: 'function', function: { name: 'one', arguments: '{}' } }] },
+    { role: 'tool', tool_call_id: 'a', content: bigResult },
+    { role: 'assistant', content: null, tool_calls: [{ id: 'b', type: 'function', function: { name: 'two', arguments: '{}' } }] },
+    { role: 'tool', tool_call_id: 'b', content: bigResult },
+    { role: 'assistant', content: null, tool_calls: [{ id: 'c', type: 'function', function: { name: 'three', arguments: '{}' } }] },
+    { role: 'tool', tool_call_id: 'c', content: 'latest' }
+  ];
+
+  beforeEach(() => {
+    mockProvider = { complete: vi.fn() };
+    // gpt-4 has an 8192 token window; reserve 4096 for completion => budget ~3686 at 0.9
+    config = { apiKey: 'x', model: 'gpt-4', temperature: 0.7, sessionMaxTokens: 4096, timeout: 1, maxRetries: 0 };
+  });
+
+  it('returns messages untouched when under budget', async () => {
+    const manager = new ContextManager(mockProvider, { ...config, model: 'gpt-4o' });
+    const messages = buildMessages();
+    const result = await manager.fit(messages, []);
+    expect(result).toEqual({ messages, usedTokens: 0 });
+  });
+
+  it('budgets for the model the call goes to', async () => {
+    const manager = new ContextManager(mockProvider, config);
+    const messages = buildMessages();
+
+    expect(manager.getPromptBudget('gpt-4o')).toBeGreaterThan(manager.getPromptBudget());
+    await expect(manager.fit(messages, [], 'gpt-4o')).resolves.toEqual({ messages, usedTokens: 0 });
+  });
+
+  it('truncates oldest tool results just enough to fit', async () => {
+    const manager = new ContextManager(mockProvider, config);
+    const result = await manager.fit(buildMessages(), []);
+
+    expect(estimatePromptTokens(result.messages, [])).toBeLessThanOrEqual(manager.getPromptBudget());
+    expect(result.messages[3].content).toContain('[truncated');
+    expect(result.messages[5].content).toBe(bigResult);
+    expect(result.messages).toHaveLength(8);
+  });
+
+  it('drops older tool payloads but keeps tool_call pairing and the latest turn', async () => {
+    const manager = new ContextManager(mockProvider, { ...config, contextStrategy: 'drop' });
+    const result = await manager.fit(buildMessages(), []);
+
+    const toolIds = result.messages.filter((m: any) => m.role === 'tool').map((m: any) => m.tool_call_id);
+    expect(toolIds).toEqual(['a', 'b', 'c']);
+    expect(result.messages[3].content).toBe('[tool result removed to free context space]');
+    expect(result.messages[7].content).toBe('latest');
+  });
+
+  it('summarizes earlier tool turns into a single message', async () => {
+    mockProvider.complete.mockResolvedValue({
+      content: 'one and two returned x', usedTokens: 42, promptTokens: 30, completionTokens: 12
+    });
+    const manager = new ContextManager(mockProvider, { ...config, contextStrategy: 'summarize', summarizerModel: 'gpt-4o-mini' });
+    const result = await manager.fit(buildMessages(), []);
+
+    expect(mockProvider.complete).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4o-mini' }));
+    expect(result.usedTokens).toBe(42);
+    expect(result.messages.map((m: any) => m.role)).toEqual(['system', 'user', 'assistant', 'assistant', 'tool']);
+    expect(result.messages[2].content).toContain('one and two returned x');
+  });
+
+  it('shapes the compaction call for a reasoning summarizer model', async () => {
+    mockProvider.complete.mockResolvedValue({ content: 'summary', usedTokens: 5, promptTokens: 3, completionTokens: 2 });
+    const manager = new ContextManager(mockProvider, { ...config, contextStrategy: 'summarize', summarizerModel: 'o3-mini' });
+    await manager.fit(buildMessages(), []);
+
+    const request = mockProvider.complete.mock.calls[0][0];
+    expect(request.temperature).toBeUndefined();
+    expect(request.messages[0].role).toBe('developer');
+  });
+
+  it('falls back to dropping payloads when summarization fails', async () => {
+    mockProvider.complete.mockRejectedValue(new Error('boom'));
+    const manager = new ContextManager(mockProvider, { ...config, contextStrategy: 'summarize' });
+    const result = await manager.fit(buildMessages(), []);
+
+    expect(result.usedTokens).toBe(0);
+    expect(result.messages[3].content).toBe('[tool result removed to free context space]');
+  });
+
+  it('passes the session signal to the summarization call and stops once it aborts', async () => {
+    const controller = new AbortController();
+    mockProvider.complete.mockImplementation(async () => {
+      controller.abort();
+      throw new Error('Request was aborted.');
+    });
+    const manager = new ContextManager(mockProvider, { ...config, contextStrategy: 'summarize' });
+
+    await expect(manager.fit(buildMessages(), [], 'gpt-4', { signal: controller.signal })).rejects.toThrow('Request was aborted.');
+    expect(mockProvider.complete).toHaveBeenCalledWith(expect.anything(), undefined, { signal: controller.signal });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FallbackChatProvider } from '../../src/core/fallback-chat-provider.js';
+import type { ChatProvider } from '../../src/models/interfaces.js';
+
+const params = { model: 'gpt-4o', messages: [{ role: 'user' as const, content: 'hi' }] };
+const ok = (content: string) => ({ content, usedTokens: 1, promptTokens: 1, completionTokens: 0 });
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`${status} status code`), { status, headers });
+const createProvider = (): ChatProvider & { complete: ReturnType<typeof vi.fn> } => ({ complete: vi.fn() });
+
+describe('FallbackChatProvider', () => {
+  it('reports the requested model when it answers', async () => {
+    const primary = createProvider();
+    primary.complete.mockResolvedValue(ok('hello'));
+    const provider = new FallbackChatProvider(primary, [{ model: 'gpt-4o-mini' }]);
+
+    await expect(provider.complete(params)).resolves.toEqual({ ...ok('hello'), model: 'gpt-4o' });
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('walks the chain on rate limits and 5xx errors, including other endpoints', async () => {
+    const primary = createProvider();
+    const secondary = createProvider();
+    primary.complete
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(503));
+    secondary.complete.mockResolvedValue(ok('from backup'));
+    const provider = new FallbackChatProvider(primary, [
+      { model: 'gpt-4o-mini' },
+      { model: 'gpt-4o', provider: secondary, label: 'gpt-4o@https://backup.example.com/v1' }
+    ]);
+
+    const result = await provider.complete(params);
+
+    expect(result).toEqual({ ...ok('from backup'), model: 'gpt-4o', fallback: true });
+    expect(primary.complete.mock.calls.map(([request]) => request.model)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    expect(secondary.complete.mock.calls[0][0].model).toBe('gpt-4o');
+  });
+
+  it('reshapes the request for a fallback model with other capabilities', async () => {
+    const primary = createProvider();
+    primary.complete
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValue(ok('from mini'));
+    const provider = new FallbackChatProvider(primary, [{ model: 'gpt-4o-mini' }], {
+      requestSettings: { temperature: 0.2 }
+    });
+    const reasoningParams = {
+      model: 'o3-mini',
+      messages: [{ role: 'developer' as const, content: 'instructions' }, { role: 'user' as const, content: 'hi' }],
+      max_completion_tokens: 50000,
+      reasoning_effort: 'high' as const
+    };
+
+    await provider.complete(reasoningParams);
+
+    expect(primary.complete.mock.calls[0][0]).toBe(reasoningParams);
+    expect(primary.complete.mock.calls[1][0]).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'system', content: 'instructions' }, { role: 'user', content: 'hi' }],
+      max_tokens: 16384,
+      temperature: 0.2
+    });
+  });
+
+  it('surfaces other errors without falling back', async () => {
+    const primary = createProvider();
+    primary.complete.mockRejectedValue(apiError(400));
+    const provider = new FallbackChatProvider(primary, [{ model: 'gpt-4o-mini' }]);
+
+    await expect(provider.complete(params)).rejects.toThrow('400 status code');
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a model until its Retry-After has passed', async () => {
+    const primary = createProvider();
+    primary.complete
+      .mockRejectedValueOnce(apiError(429, { 'retry-after': '60' }))
+      .mockResolvedValue(ok('mini'));
+    const provider = new FallbackChatProvider(primary, [{ model: 'gpt-4o-mini' }]);
+
+    await provider.complete(params);
+    const second = await provider.complete(params);
+
+    expect(second.model).toBe('gpt-4o-mini');
+    expect(primary.complete.mock.calls.map(([request]) => request.model)).toEqual(['gpt-4o', 'gpt-4o-mini', 'gpt-4o-mini']);
+  });
+
+  it('waits out a short Retry-After once the whole chain is unavailable', async () => {
+    const primary = createProvider();
+    primary.complete
+      .mockRejectedValueOnce(apiError(429, { 'retry-after-ms': '50' }))
+      .mockRejectedValueOnce(apiError(429, { 'retry-after-ms': '500' }))
+      .mockResolvedValueOnce(ok('after wait'));
+    const sleep = vi.fn(async (ms: number) => {
+      vi.setSystemTime(Date.now() + ms);
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const provider = new FallbackChatProvider(primary, [{ model: 'gpt-4o-mini' }], { sleep });
+
+      const result = await provider.complete(params);
+
+      expect(result).toEqual({ ...ok('after wait'), model: 'gpt-4o' });
+      expect(sleep).toHaveBeenCalledWith(50, undefined);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives up when the shortest Retry-After exceeds the maximum wait', async () => {
+    const primary = createProvider();
+    primary.complete.mockRejectedValue(apiError(429, { 'retry-after': '30' }));
+    const sleep = vi.fn();
+    const provider = new FallbackChatProvider(primary, [{ model: 'gpt-4o-mini' }], { maxWaitMs: 1000, sleep });
+
+    await expect(provider.complete(params)).rejects.toThrow('429 status code');
+    await expect(provider.complete(params)).rejects.toThrow('All models are rate limited (gpt-4o, gpt-4o-mini)');
+    expect(sleep).not.toHaveBeenCalled();
+    expect(primary.complete).toHaveBeenCalledTimes(2);
+  });
+});
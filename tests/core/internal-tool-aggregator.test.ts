@@ -265,6 +265,15 @@ describe('InternalToolAggregator', () => {
       });
     });
 
+    it('should pass the session context through to the tool', async () => {
+      const executeSpy = vi.spyOn(searchTool, 'execute');
+      const context = { request: {} as any, client: {} as any, tools: [], depth: 1, runSubAgent: vi.fn() };
+
+      await aggregator.executeFunction('agentmemory_search', { query: 'test query' }, context);
+
+      expect(executeSpy).toHaveBeenCalledWith({ query: 'test query' }, context);
+    });
+
     it('should return error for unknown function', async () => {
       const result = await aggregator.executeFunction('unknown_function', {});
       
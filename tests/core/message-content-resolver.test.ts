@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MessageContentResolver } from '../../src/core/message-content-resolver.js';
+import { AttachmentStore } from '../../src/core/attachment-store.js';
+
+const requestWith = (...messages: any[]) => ({
+  agent: { identifier: 'agent', name: 'Agent', description: '', prompt: '' },
+  tools: [],
+  servers: [],
+  messages
+}) as any;
+
+const fileMessage = (content: string, metadata: Record<string, unknown>) => ({
+  type: 'text',
+  sender: { id: 'u', name: 'U' },
+  content,
+  metadata
+});
+
+describe('MessageContentResolver', () => {
+  it('extracts small documents whole and stores them', async () => {
+    const attachmentStore = new AttachmentStore();
+    const resolver = new MessageContentResolver({ attachmentStore });
+    const message = fileMessage(Buffer.from('# Notes\nShip it').toString('base64'), { format: 'base64', fileExtension: 'md', fileName: 'notes.md' });
+
+    const resolved = await resolver.resolve(requestWith(message), false);
+
+    const content = resolved.get(message) as any;
+    expect(content.attachment).toEqual(expect.objectContaining({ fileName: 'notes.md', format: 'markdown', pages: ['# Notes\nShip it'] }));
+    expect(attachmentStore.get(content.attachment.id)).toBe(content.attachment);
+  });
+
+  it('paginates large documents, repeating the CSV header', async () => {
+    const resolver = new MessageContentResolver({ inlineChars: 10, pageChars: 12 });
+    const message = fileMessage('id,v\n1,aaa\n2,bbb', { fileExtension: 'csv' });
+
+    const resolved = await resolver.resolve(requestWith(message), false);
+
+    expect((resolved.get(message) as any).attachment.pages).toEqual(['id,v\n1,aaa', 'id,v\n2,bbb']);
+  });
+
+  it('extracts a repeated document only once', async () => {
+    const resolver = new MessageContentResolver();
+    const first = fileMessage('same text', { fileExtension: 'txt' });
+    const second = fileMessage('same text', { fileExtension: 'txt' });
+
+    const resolved = await resolver.resolve(requestWith(first, second), false);
+
+    expect((resolved.get(second) as any).attachment).toBe((resolved.get(first) as any).attachment);
+  });
+
+  it('leaves plain messages, images and unreadable documents alone', async () => {
+    const resolver = new MessageContentResolver();
+    const text = { type: 'text', sender: { id: 'u' }, content: 'hello' };
+    const image = { type: 'image', sender: { id: 'u' }, content: 'AAAA', metadata: { format: 'base64', fileExtension: 'png' } };
+    const brokenPdf = fileMessage('not base64 or url', { fileExtension: 'pdf' });
+
+    const resolved = await resolver.resolve(requestWith(text, image, brokenPdf), false);
+
+    expect(resolved.size).toBe(0);
+  });
+
+  it('transcribes audio unless the model takes it natively', async () => {
+    const transcriptionProvider = { transcribe: vi.fn().mockResolvedValue('hi there') };
+    const resolver = new MessageContentResolver({ transcriptionProvider });
+    const message = { type: 'audio', sender: { id: 'u' }, content: Buffer.from('OggS').toString('base64'), metadata: { format: 'base64', fileExtension: 'ogg' } };
+
+    expect((await resolver.resolve(requestWith(message), false)).get(message)).toEqual({ transcript: 'hi there' });
+    expect((await resolver.resolve(requestWith({ ...message, metadata: { format: 'base64', fileExtension: 'mp3' } }), true)).size).toBe(0);
+  });
+
+  it('transcribes audio repeated in later dispatches only once', async () => {
+    const transcriptionProvider = { transcribe: vi.fn().mockResolvedValue('hi there') };
+    const resolver = new MessageContentResolver({ transcriptionProvider });
+    const audio = (content: string) => ({ type: 'audio', sender: { id: 'u' }, content, metadata: { format: 'base64', fileExtension: 'ogg' } });
+    const first = audio(Buffer.from('OggS-1').toString('base64'));
+    const second = audio(Buffer.from('OggS-2').toString('base64'));
+
+    await resolver.resolve(requestWith(first), false);
+    const resolved = await resolver.resolve(requestWith({ ...first }, second), false);
+
+    expect(transcriptionProvider.transcribe).toHaveBeenCalledTimes(2);
+    expect([...resolved.values()]).toEqual([{ transcript: 'hi there' }, { transcript: 'hi there' }]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAIChatProvider, toChatProvider } from '../../src/core/openai-chat-provider.js';
+
+describe('OpenAIChatProvider', () => {
+  let mockOpenAI: any;
+
+  const params = { model: 'gpt-4o', messages: [{ role: 'user' as const, content: 'hi' }], temperature: 0.7, max_tokens: 100 };
+
+  beforeEach(() => {
+    mockOpenAI = { chat: { completions: { create: vi.fn() } } };
+  });
+
+  it('parses content, tool calls and usage', async () => {
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{}' } }];
+    mockOpenAI.chat.completions.create.mockResolvedValue({
+      choices: [{ message: { content: 'Hello', tool_calls: toolCalls } }],
+      usage: { total_tokens: 10, prompt_tokens: 7, completion_tokens: 3 }
+    });
+
+    const result = await new OpenAIChatProvider(mockOpenAI).complete(params);
+
+    expect(result).toEqual({ content: 'Hello', usedTokens: 10, promptTokens: 7, completionTokens: 3, toolCalls });
+  });
+
+  it('rejects responses without choices', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue({});
+    await expect(new OpenAIChatProvider(mockOpenAI).complete(params)).rejects.toThrow('missing choices array');
+  });
+
+  it('streams when a delta callback is given', async () => {
+    async function* chunks() {
+      yield { choices: [{ delta: { content: 'Hel' } }] };
+      yield { choices: [{ delta: { content: 'lo' } }], usage: { total_tokens: 4, prompt_tokens: 2, completion_tokens: 2 } };
+    }
+    mockOpenAI.chat.completions.create.mockResolvedValue(chunks());
+    const deltas: string[] = [];
+
+    const result = await new OpenAIChatProvider(mockOpenAI).complete(params, (delta) => { deltas.push(delta); });
+
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(result.content).toBe('Hello');
+  });
+
+  it('maps model names to Azure deployment names', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'ok' } }] });
+    const provider = new OpenAIChatProvider(mockOpenAI, { 'gpt-4o': 'prod-gpt4o' });
+
+    await provider.complete(params);
+    await provider.complete({ ...params, model: 'gpt-4o-mini' });
+
+    expect(mockOpenAI.chat.completions.create.mock.calls[0][0].model).toBe('prod-gpt4o');
+    expect(mockOpenAI.chat.completions.create.mock.calls[1][0].model).toBe('gpt-4o-mini');
+  });
+
+  it('wraps raw OpenAI clients but passes providers through', () => {
+    const provider = { complete: vi.fn() };
+    expect(toChatProvider(provider)).toBe(provider);
+    expect(toChatProvider(mockOpenAI)).toBeInstanceOf(OpenAIChatProvider);
+  });
+});
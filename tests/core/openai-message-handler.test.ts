@@ -2,6 +2,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import OpenAI from 'openai';
 // Adjust relative paths (one too many ../ levels previously)
 import { OpenAIMessageHandler } from '../../src/core/openai-message-handler.js';
+import { StubSpeechProvider } from '../../src/core/stub-speech-provider.js';
+import { FallbackChatProvider } from '../../src/core/fallback-chat-provider.js';
+import { OpenAIChatProvider } from '../../src/core/openai-chat-provider.js';
+import { InternalToolAggregator } from '../../src/core/internal-tool-aggregator.js';
+import { DelegateToAgentTool } from '../../src/internal-tools/subagents/delegate-to-agent-tool.js';
+import { estimatePromptTokens } from '../../src/utils/token-helper.js';
 import type { DispatchConfig, OpenAIConfig } from '../../src/config/environment.js';
 
 vi.mock('openai');
@@ -60,5 +66,1274 @@ describe('OpenAIMessageHandler (core loop + tools)', () => {
     expect(client.callTool).toHaveBeenCalledWith('tool', { x: 1 });
     expect(res).toEqual({ type: 'text', content: 'Done', usedToken: 12 });
   });
-});
 
+  it('retries transient failures of retryable tools before feeding the result back', async () => {
+    mockDispatchConfig.retryableTools = ['to*'];
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{"x":1}' } }];
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({ choices: [{ message: { content: null, tool_calls: toolCalls } }], usage: { total_tokens: 5 } })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Done', tool_calls: undefined } }], usage: { total_tokens: 7 } });
+    client.callTool
+      .mockRejectedValueOnce(Object.assign(new Error('connect ECONNRESET'), { code: 'ECONNRESET' }))
+      .mockResolvedValueOnce({ ok: true });
+
+    const res = await handler.handleMessage(request, client, {});
+
+    expect(client.callTool).toHaveBeenCalledTimes(2);
+    const toolMessage = mockOpenAI.chat.completions.create.mock.calls[1][0].messages.find((m: any) => m.tool_call_id === '1');
+    expect(JSON.parse(toolMessage.content)).toEqual({ ok: true });
+    expect(res.content).toBe('Done');
+  });
+
+  it('does not retry tools that are not retryable', async () => {
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{"x":1}' } }];
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({ choices: [{ message: { content: null, tool_calls: toolCalls } }], usage: { total_tokens: 5 } })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Done', tool_calls: undefined } }], usage: { total_tokens: 7 } });
+    client.callTool.mockRejectedValueOnce(Object.assign(new Error('connect ECONNRESET'), { code: 'ECONNRESET' }));
+
+    await handler.handleMessage(request, client, {});
+
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry tools whose retries are overridden to zero', async () => {
+    const retryHandler = new OpenAIMessageHandler(
+      new (OpenAI as any)(), mockOpenAIConfig, { ...mockDispatchConfig, retryableTools: ['*'], toolRetries: { tool: 0 } }
+    );
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{"x":1}' } }];
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({ choices: [{ message: { content: null, tool_calls: toolCalls } }], usage: { total_tokens: 5 } })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Done', tool_calls: undefined } }], usage: { total_tokens: 7 } });
+    client.callTool.mockRejectedValueOnce(Object.assign(new Error('connect ECONNRESET'), { code: 'ECONNRESET' }));
+
+    await retryHandler.handleMessage(request, client, {});
+
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+    const toolMessage = mockOpenAI.chat.completions.create.mock.calls[1][0].messages.find((m: any) => m.tool_call_id === '1');
+    expect(JSON.parse(toolMessage.content).error).toContain('ECONNRESET');
+  });
+
+  it('accepts a ChatProvider in place of the OpenAI client', async () => {
+    const provider = {
+      complete: vi.fn().mockResolvedValue({ content: 'From provider', usedTokens: 4, promptTokens: 3, completionTokens: 1 })
+    };
+    const providerHandler = new OpenAIMessageHandler(provider, mockOpenAIConfig, mockDispatchConfig, undefined);
+
+    const res = await providerHandler.handleMessage(request, client, {});
+
+    expect(provider.complete).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gpt-4o' }), undefined, { signal: expect.any(AbortSignal) }
+    );
+    expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
+    expect(res).toEqual({ type: 'text', content: 'From provider', usedToken: 4 });
+  });
+
+  it('shapes requests to the declared model capabilities', async () => {
+    const localConfig = {
+      ...mockOpenAIConfig,
+      sessionMaxTokens: 16000,
+      model: 'local-model',
+      models: { 'local-model': { maxOutputTokens: 200, supportsTools: false, supportsTemperature: false } }
+    } as any;
+    const localHandler = new OpenAIMessageHandler(mockOpenAI, localConfig, mockDispatchConfig, undefined);
+    mockOpenAI.chat.completions.create.mockResolvedValue({
+      choices: [{ message: { content: 'ok' } }],
+      usage: { total_tokens: 1 }
+    });
+    const imageRequest = {
+      ...request,
+      tools: [{ name: 'tool', description: 'd', parameters: { type: 'object', properties: {} } }],
+      messages: [{ type: 'image', sender: { id: 'u' }, content: 'https://example.com/a.png', metadata: { format: 'url' } }]
+    };
+
+    await localHandler.handleMessage(imageRequest, client, {});
+
+    const params = mockOpenAI.chat.completions.create.mock.calls[0][0];
+    expect(params.max_tokens).toBe(200);
+    expect(params).not.toHaveProperty('temperature');
+    expect(params).not.toHaveProperty('tools');
+    expect(params.messages[1].content).toEqual([
+      expect.objectContaining({ type: 'text' }),
+      { type: 'text', text: '[image omitted: model does not support image input]' }
+    ]);
+  });
+
+  it('adapts requests for reasoning models and reports reasoning tokens', async () => {
+    const reasoningConfig = { ...mockOpenAIConfig, model: 'o3-mini', reasoningEffort: 'high' } as any;
+    const reasoningHandler = new OpenAIMessageHandler(mockOpenAI, reasoningConfig, mockDispatchConfig, undefined);
+    mockOpenAI.chat.completions.create.mockResolvedValue({
+      choices: [{ message: { content: 'Thought it through' } }],
+      usage: { total_tokens: 500, prompt_tokens: 100, completion_tokens: 400, completion_tokens_details: { reasoning_tokens: 350 } }
+    });
+
+    const res = await reasoningHandler.handleMessage(request, client, {});
+
+    const params = mockOpenAI.chat.completions.create.mock.calls[0][0];
+    expect(params.max_completion_tokens).toBeGreaterThan(0);
+    expect(params).not.toHaveProperty('max_tokens');
+    expect(params).not.toHaveProperty('temperature');
+    expect(params.reasoning_effort).toBe('high');
+    expect(params.messages[0].role).toBe('developer');
+    expect(res).toEqual({
+      type: 'text',
+      content: 'Thought it through',
+      usedToken: 500,
+      metadata: { reasoningTokens: 350 }
+    });
+  });
+
+  it('feeds schema violations back to the model instead of calling the tool', async () => {
+    const toolRequest = {
+      ...request,
+      tools: [{
+        name: 'getUser',
+        description: 'd',
+        parameters: { type: 'object', properties: { id: { type: 'number' } }, required: ['id'] }
+      }]
+    };
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'getUser', arguments: '{"id":"7"}' } }] } }],
+        usage: { total_tokens: 5 }
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: null, tool_calls: [{ id: '2', type: 'function', function: { name: 'getUser', arguments: '{"id":7}' } }] } }],
+        usage: { total_tokens: 5 }
+      })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Done' } }], usage: { total_tokens: 5 } });
+    client.callTool.mockResolvedValueOnce({ name: 'Ada' });
+
+    await handler.handleMessage(toolRequest, client, {});
+
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+    expect(client.callTool).toHaveBeenCalledWith('getUser', { id: 7 });
+    const messages = mockOpenAI.chat.completions.create.mock.calls[2][0].messages;
+    const toolMessage = JSON.parse(messages.find((m: any) => m.tool_call_id === '1').content);
+    expect(toolMessage).toEqual({
+      error: 'Invalid arguments for getUser; fix them and call the tool again',
+      validationErrors: [{ path: '$.id', message: 'expected number, got string' }],
+      toolCallId: '1'
+    });
+  });
+
+  it('streams deltas to the sink and still returns the full response', async () => {
+    async function* chunks() {
+      yield { choices: [{ delta: { content: 'Fi' } }] };
+      yield { choices: [{ delta: { content: 'nal' } }] };
+      yield { choices: [], usage: { total_tokens: 9 } };
+    }
+    mockOpenAI.chat.completions.create.mockResolvedValue(chunks());
+    const streamSink = { write: vi.fn().mockResolvedValue(undefined) };
+    const streamingHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { streamSink });
+
+    const res = await streamingHandler.handleMessage(request, client, {});
+
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true, stream_options: { include_usage: true } }),
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(streamSink.write.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'delta', iteration: 1, content: 'Fi' },
+      { type: 'delta', iteration: 1, content: 'nal' },
+      { type: 'done', content: 'Final', usedToken: 9 }
+    ]);
+    expect(res).toEqual({ type: 'text', content: 'Final', usedToken: 9 });
+  });
+
+  it('executes parallel tool calls concurrently and keeps tool_call order', async () => {
+    const toolCalls = [
+      { id: 'a', type: 'function', function: { name: 'slow', arguments: '{}' } },
+      { id: 'b', type: 'function', function: { name: 'fast', arguments: '{}' } }
+    ];
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({ choices: [{ message: { content: null, tool_calls: toolCalls } }], usage: { total_tokens: 5 } })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Done' } }], usage: { total_tokens: 5 } });
+
+    const started: string[] = [];
+    client.callTool.mockImplementation(async (name: string) => {
+      started.push(name);
+      await new Promise(resolve => setTimeout(resolve, name === 'slow' ? 20 : 1));
+      started.push(`end:${name}`);
+      return { name };
+    });
+
+    await handler.handleMessage(request, client, {});
+
+    expect(started).toEqual(['slow', 'fast', 'end:fast', 'end:slow']);
+    const secondCallMessages = mockOpenAI.chat.completions.create.mock.calls[1][0].messages;
+    const toolMessages = secondCallMessages.filter((m: any) => m.role === 'tool');
+    expect(toolMessages).toEqual([
+      { role: 'tool', tool_call_id: 'a', content: JSON.stringify({ name: 'slow' }) },
+      { role: 'tool', tool_call_id: 'b', content: JSON.stringify({ name: 'fast' }) }
+    ]);
+  });
+
+  it('runs internal tools one at a time unless they are parallel-safe', async () => {
+    const started: string[] = [];
+    const createTool = (toolName: string, delayMs: number, parallelSafe?: boolean) => ({
+      toolName,
+      ...(parallelSafe && { parallelSafe }),
+      getToolDefinition: () => ({ type: 'function' as const, function: { name: toolName, parameters: { type: 'object' } } }),
+      canHandle: (name: string) => name === toolName,
+      execute: async () => {
+        started.push(toolName);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        started.push(`end:${toolName}`);
+        return { success: true };
+      }
+    });
+    const internalHandler = new OpenAIMessageHandler(
+      new (OpenAI as any)(), mockOpenAIConfig, mockDispatchConfig,
+      new InternalToolAggregator([createTool('remember', 20), createTool('forget', 1), createTool('lookup', 1, true)])
+    );
+    const toolCalls = ['remember', 'forget', 'lookup'].map((name) => ({ id: name, type: 'function', function: { name, arguments: '{}' } }));
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({ choices: [{ message: { content: null, tool_calls: toolCalls } }], usage: { total_tokens: 5 } })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Done' } }], usage: { total_tokens: 5 } });
+
+    await internalHandler.handleMessage(request, client, {});
+
+    // forget waits for remember; the parallel-safe lookup does not
+    expect(started.indexOf('forget')).toBeGreaterThan(started.indexOf('end:remember'));
+    expect(started.indexOf('end:lookup')).toBeLessThan(started.indexOf('end:remember'));
+  });
+
+  it('clamps per-call max_tokens to the configured completion limit', async () => {
+    mockOpenAIConfig.maxCompletionTokens = 300;
+    mockOpenAI.chat.completions.create.mockResolvedValue({
+      choices: [{ message: { content: 'Final' } }],
+      usage: { total_tokens: 10, prompt_tokens: 8, completion_tokens: 2 }
+    });
+
+    await handler.handleMessage(request, client, {});
+
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(
+      expect.objectContaining({ max_tokens: 300 }), { signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('forces a final answer without tools when the session budget runs low', async () => {
+    const toolRequest = {
+      ...request,
+      tools: [{ name: 'tool', description: 'd', parameters: { type: 'object', properties: {} } }]
+    };
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{}' } }];
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: null, tool_calls: toolCalls } }],
+        usage: { total_tokens: 800, prompt_tokens: 700, completion_tokens: 100 }
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: 'Wrapped up', tool_calls: toolCalls } }],
+        usage: { total_tokens: 150, prompt_tokens: 120, completion_tokens: 30 }
+      });
+    client.callTool.mockResolvedValue({ ok: true });
+
+    const res = await handler.handleMessage(toolRequest, client, {});
+
+    const secondCall = mockOpenAI.chat.completions.create.mock.calls[1][0];
+    expect(secondCall.tool_choice).toBe('none');
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+    expect(secondCall.messages.at(-1).role).toBe('system');
+    expect(res).toEqual({
+      type: 'text',
+      content: 'Wrapped up',
+      usedToken: 950,
+      metadata: { incomplete: true, incompleteReason: 'token_budget' }
+    });
+  });
+
+  it('never asks for more completion tokens than the session budget has left', async () => {
+    const budgetHandler = new OpenAIMessageHandler(mockOpenAI, { ...mockOpenAIConfig, sessionMaxTokens: 2000 }, mockDispatchConfig);
+    const toolRequest = {
+      ...request,
+      tools: [{ name: 'tool', description: 'd', parameters: { type: 'object', properties: {} } }]
+    };
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{}' } }];
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce({ choices: [{ message: { content: null, tool_calls: toolCalls } }], usage: { total_tokens: 1700 } })
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'Short answer' } }], usage: { total_tokens: 100 } });
+    client.callTool.mockResolvedValue({ ok: true });
+
+    await budgetHandler.handleMessage(toolRequest, client, {});
+
+    const finalCall = mockOpenAI.chat.completions.create.mock.calls[1][0];
+    const promptEstimate = estimatePromptTokens(finalCall.messages, finalCall.tools);
+    expect(finalCall.max_tokens).toBeGreaterThan(0);
+    expect(1700 + promptEstimate + finalCall.max_tokens).toBeLessThanOrEqual(2000);
+  });
+
+  it('returns the incomplete result without another call once the session budget is used up', async () => {
+    const toolRequest = {
+      ...request,
+      tools: [{ name: 'tool', description: 'd', parameters: { type: 'object', properties: {} } }]
+    };
+    const toolCalls = [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{}' } }];
+    mockOpenAI.chat.completions.create.mockResolvedValueOnce({
+      choices: [{ message: { content: 'Looking that up', tool_calls: toolCalls } }],
+      usage: { total_tokens: 1020 }
+    });
+    client.callTool.mockResolvedValue({ ok: true });
+
+    const res = await handler.handleMessage(toolRequest, client, {});
+
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
+    expect(res).toEqual({
+      type: 'text',
+      content: 'Looking that up',
+      usedToken: 1020,
+      metadata: { incomplete: true, incompleteReason: 'token_budget' }
+    });
+  });
+
+  it('runs several tool rounds with a realistic prompt when no session budget is set', async () => {
+    const { sessionMaxTokens: _unset, ...unlimitedConfig } = mockOpenAIConfig;
+    const unlimitedHandler = new OpenAIMessageHandler(mockOpenAI, unlimitedConfig, mockDispatchConfig);
+    const toolRequest = {
+      ...request,
+      agent: { ...request.agent, prompt: 'You are a support agent. '.repeat(500) },
+      tools: [{ name: 'tool', description: 'd', parameters: { type: 'object', properties: { page: { type: 'number' } } } }]
+    };
+    const toolRound = (page: number) => ({
+      choices: [{ message: { content: null, tool_calls: [{ id: `${page}`, type: 'function', function: { name: 'tool', arguments: `{"page":${page}}` } }] } }],
+      usage: { total_tokens: 3600, prompt_tokens: 3500, completion_tokens: 100 }
+    });
+    mockOpenAI.chat.completions.create
+      .mockResolvedValueOnce(toolRound(1))
+      .mockResolvedValueOnce(toolRound(2))
+      .mockResolvedValueOnce(toolRound(3))
+      .mockResolvedValueOnce({ choices: [{ message: { content: 'All pages read' } }], usage: { total_tokens: 3700 } });
+    client.callTool.mockResolvedValue({ ok: true });
+
+    const res = await unlimitedHandler.handleMessage(toolRequest, client, {});
+
+    expect(client.callTool).toHaveBeenCalledTimes(3);
+    const calls = mockOpenAI.chat.completions.create.mock.calls.map(([params]: any[]) => params);
+    expect(calls.every((params: any) => params.tool_choice !== 'none' && params.max_tokens === 16384)).toBe(true);
+    expect(res).toEqual({ type: 'text', content: 'All pages read', usedToken: 14500 });
+  });
+
+  describe('max iterations', () => {
+    const toolRequest = {
+      ...request,
+      tools: [{ name: 'tool', description: 'd', parameters: { type: 'object', properties: {} } }]
+    };
+    const toolCallResponse = {
+      choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'tool', arguments: '{}' } }] } }],
+      usage: { total_tokens: 1 }
+    };
+    const nextToolCallResponse = {
+      choices: [{ message: { content: null, tool_calls: [{ id: '2', type: 'function', function: { name: 'tool', arguments: '{"page":2}' } }] } }],
+      usage: { total_tokens: 1 }
+    };
+
+    beforeEach(() => {
+      mockDispatchConfig.sessionMaxIteration = 2;
+      client.callTool.mockResolvedValue({ ok: true });
+    });
+
+    it('runs a wrap-up turn instead of throwing', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(nextToolCallResponse)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Partial summary' } }], usage: { total_tokens: 3 } });
+
+      const res = await handler.handleMessage(toolRequest, client, {});
+
+      const wrapUpCall = mockOpenAI.chat.completions.create.mock.calls[2][0];
+      expect(wrapUpCall.tool_choice).toBe('none');
+      expect(wrapUpCall.messages.at(-1)).toEqual(expect.objectContaining({ role: 'system' }));
+      expect(client.callTool).toHaveBeenCalledTimes(2);
+      expect(res).toEqual({
+        type: 'text',
+        content: 'Partial summary',
+        usedToken: 5,
+        metadata: { incomplete: true, incompleteReason: 'max_iterations' }
+      });
+    });
+
+    it('uses the configured wrap-up prompt', async () => {
+      mockDispatchConfig.wrapUpPrompt = 'Summarise now.';
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(nextToolCallResponse)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'ok' } }], usage: { total_tokens: 1 } });
+
+      await handler.handleMessage(toolRequest, client, {});
+
+      const wrapUpCall = mockOpenAI.chat.completions.create.mock.calls[2][0];
+      expect(wrapUpCall.messages.at(-1)).toEqual({ role: 'system', content: 'Summarise now.' });
+    });
+
+    it('throws when wrap-up is disabled', async () => {
+      mockDispatchConfig.wrapUpOnMaxIteration = false;
+      mockOpenAI.chat.completions.create.mockResolvedValue(toolCallResponse);
+
+      await expect(handler.handleMessage(toolRequest, client, {})).rejects.toThrow('Maximum iterations (2) reached');
+    });
+  });
+
+  describe('structured output', () => {
+    const structuredOutput = {
+      name: 'answer',
+      schema: { type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'], additionalProperties: false },
+      strict: true,
+      maxRepairAttempts: 1
+    };
+
+    beforeEach(() => {
+      const openai = new (OpenAI as any)();
+      handler = new OpenAIMessageHandler(openai, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, {
+        agentProfiles: { agent: { structuredOutput } }
+      });
+    });
+
+    it('requests the JSON schema response format and returns the parsed object', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: '{"answer":"42"}' } }],
+        usage: { total_tokens: 10 }
+      });
+
+      const res = await handler.handleMessage(request, client, {});
+
+      expect(mockOpenAI.chat.completions.create.mock.calls[0][0].response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'answer', schema: structuredOutput.schema, strict: true }
+      });
+      expect(res).toEqual({
+        type: 'text',
+        content: '{"answer":"42"}',
+        usedToken: 10,
+        metadata: { structuredOutput: { answer: '42' } }
+      });
+    });
+
+    it('asks the model to repair an invalid answer', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce({ choices: [{ message: { content: '{"answer":42}' } }], usage: { total_tokens: 10 } })
+        .mockResolvedValueOnce({ choices: [{ message: { content: '{"answer":"42"}' } }], usage: { total_tokens: 12 } });
+
+      const res = await handler.handleMessage(request, client, {});
+
+      const repairCall = mockOpenAI.chat.completions.create.mock.calls[1][0];
+      expect(repairCall.messages.at(-1)).toEqual(expect.objectContaining({
+        role: 'user',
+        content: expect.stringContaining('$.answer: expected string, got integer')
+      }));
+      expect(res.usedToken).toBe(22);
+      expect(res.metadata).toEqual({ structuredOutput: { answer: '42' } });
+    });
+
+    it('reports validation errors once repair attempts are exhausted', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'not json' } }],
+        usage: { total_tokens: 5 }
+      });
+
+      const res = await handler.handleMessage(request, client, {});
+
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2);
+      expect(res.content).toBe('not json');
+      expect(res.metadata?.structuredOutputErrors).toHaveLength(1);
+    });
+
+    it('leaves agents without a profile untouched', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Final' } }],
+        usage: { total_tokens: 10 }
+      });
+
+      const res = await handler.handleMessage({ ...request, agent: { ...request.agent, identifier: 'other' } }, client, {});
+
+      expect(mockOpenAI.chat.completions.create.mock.calls[0][0].response_format).toBeUndefined();
+      expect(res).toEqual({ type: 'text', content: 'Final', usedToken: 10 });
+    });
+  });
+  describe('dispatch deadline', () => {
+    const toolRequest = {
+      ...request,
+      tools: [{ name: 'slowTool', description: 'd', parameters: { type: 'object', properties: {} } }]
+    };
+    const hangUntilAborted = (_params: unknown, _onDelta: unknown, options?: { signal?: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+      });
+
+    beforeEach(() => {
+      mockDispatchConfig.timeout = 200;
+    });
+
+    it('abandons slow tools and returns a wrap-up answer when the deadline approaches', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'slowTool', arguments: '{}' } }] } }],
+          usage: { total_tokens: 5 }
+        })
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Partial answer' } }], usage: { total_tokens: 3 } });
+      client.callTool.mockImplementation(() => new Promise(() => {}));
+
+      const res = await handler.handleMessage(toolRequest, client, {});
+
+      const wrapUpCall = mockOpenAI.chat.completions.create.mock.calls[1][0];
+      expect(wrapUpCall.tool_choice).toBe('none');
+      expect(wrapUpCall.messages.find((m: any) => m.tool_call_id === '1').content).toContain('Deadline');
+      expect(res).toEqual({
+        type: 'text',
+        content: 'Partial answer',
+        usedToken: 8,
+        metadata: { incomplete: true, incompleteReason: 'deadline' }
+      });
+    });
+
+    it('aborts in-flight model calls and falls back when the wrap-up cannot finish', async () => {
+      const provider = { complete: vi.fn(hangUntilAborted) };
+      const deadlineHandler = new OpenAIMessageHandler(provider, mockOpenAIConfig, mockDispatchConfig);
+
+      const res = await deadlineHandler.handleMessage(request, client, {});
+
+      expect(provider.complete).toHaveBeenCalledTimes(2);
+      expect(provider.complete.mock.calls[0][2]?.signal?.aborted).toBe(true);
+      expect(res.content).toContain('ran out of time');
+      expect(res.metadata).toEqual({ incomplete: true, incompleteReason: 'deadline' });
+    });
+
+    it('counts attachment preparation against the deadline', async () => {
+      const transcriptionProvider = { transcribe: vi.fn((_audio: unknown, options?: { signal?: AbortSignal }) => hangUntilAborted(undefined, undefined, options)) };
+      const audioHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { transcriptionProvider });
+      mockOpenAI.chat.completions.create.mockResolvedValueOnce({ choices: [{ message: { content: 'Could not listen in time' } }], usage: { total_tokens: 3 } });
+      const audioRequest = {
+        ...request,
+        messages: [{ type: 'audio', sender: { id: 'u', name: 'U' }, content: Buffer.from('ID3').toString('base64'), metadata: { format: 'base64', fileExtension: 'mp3' } }]
+      };
+
+      const res = await audioHandler.handleMessage(audioRequest, client, {});
+
+      expect(transcriptionProvider.transcribe.mock.calls[0][1]?.signal?.aborted).toBe(true);
+      expect(res).toEqual({
+        type: 'text',
+        content: 'Could not listen in time',
+        usedToken: 3,
+        metadata: { incomplete: true, incompleteReason: 'deadline' }
+      });
+    });
+  });
+  describe('tool loop detection', () => {
+    const loopRequest = {
+      ...request,
+      tools: [
+        { name: 'getUser', description: 'd', parameters: { type: 'object', properties: { id: { type: 'number' } } } },
+        { name: 'getOrder', description: 'd', parameters: { type: 'object', properties: { id: { type: 'number' } } } }
+      ]
+    };
+    const callTool = (id: string, name: string, args: string) => ({
+      choices: [{ message: { content: null, tool_calls: [{ id, type: 'function', function: { name, arguments: args } }] } }],
+      usage: { total_tokens: 1 }
+    });
+    const finalAnswer = { choices: [{ message: { content: 'Done' } }], usage: { total_tokens: 1 } };
+
+    it('re-executes repeated identical calls and warns the model', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(callTool('1', 'getUser', '{"id":7}'))
+        .mockResolvedValueOnce(callTool('2', 'getUser', '{ "id": 7 }'))
+        .mockResolvedValueOnce(finalAnswer);
+      client.callTool.mockResolvedValueOnce({ name: 'Ada' }).mockResolvedValueOnce({ name: 'Ada L.' });
+
+      const res = await handler.handleMessage(loopRequest, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(2);
+      const messages = mockOpenAI.chat.completions.create.mock.calls[2][0].messages;
+      expect(messages.find((m: any) => m.tool_call_id === '2').content).toBe(JSON.stringify({ name: 'Ada L.' }));
+      expect(messages.at(-1)).toEqual({ role: 'system', content: expect.stringContaining('You already called getUser') });
+      expect(res.metadata).toEqual({ loopIncidents: [{ type: 'repeat', iteration: 2, tools: ['getUser'] }] });
+    });
+
+    it('answers repeats from cache only for tools opted in through TOOL_CACHE_TTLS', async () => {
+      const cachingHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, { ...mockDispatchConfig, toolCacheTtls: { getUser: 60000 } });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(callTool('1', 'getUser', '{"id":7}'))
+        .mockResolvedValueOnce(callTool('2', 'getUser', '{ "id": 7 }'))
+        .mockResolvedValueOnce(finalAnswer);
+      client.callTool.mockResolvedValue({ name: 'Ada' });
+
+      await cachingHandler.handleMessage(loopRequest, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(1);
+      const messages = mockOpenAI.chat.completions.create.mock.calls[2][0].messages;
+      expect(messages.find((m: any) => m.tool_call_id === '2').content).toBe(JSON.stringify({ name: 'Ada' }));
+    });
+
+    it('does not flag retries of calls whose earlier attempt failed', async () => {
+      mockDispatchConfig.mcpMaxRetries = 0;
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(callTool('1', 'getUser', '{"id":7}'))
+        .mockResolvedValueOnce(callTool('2', 'getUser', '{"id":7}'))
+        .mockResolvedValueOnce(finalAnswer);
+      client.callTool.mockRejectedValueOnce(new Error('User service unavailable')).mockResolvedValueOnce({ name: 'Ada' });
+
+      const res = await handler.handleMessage(loopRequest, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(2);
+      expect(res.metadata).toBeUndefined();
+    });
+
+    it('detects calls alternating between two batches', async () => {
+      mockDispatchConfig.sessionMaxIteration = 5;
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(callTool('1', 'getUser', '{"id":1}'))
+        .mockResolvedValueOnce(callTool('2', 'getOrder', '{"id":2}'))
+        .mockResolvedValueOnce(callTool('3', 'getUser', '{"id":1}'))
+        .mockResolvedValueOnce(callTool('4', 'getOrder', '{"id":2}'))
+        .mockResolvedValueOnce(finalAnswer);
+      client.callTool.mockResolvedValue({ ok: true });
+
+      const res = await handler.handleMessage(loopRequest, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(4);
+      expect(res.metadata?.loopIncidents).toContainEqual({ type: 'ping_pong', iteration: 4, tools: ['getUser', 'getOrder'] });
+      const messages = mockOpenAI.chat.completions.create.mock.calls[4][0].messages;
+      expect(messages.at(-1).content).toContain('alternating between the same tool calls');
+    });
+
+    it('executes every call when loop detection is disabled', async () => {
+      mockDispatchConfig.loopDetection = false;
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(callTool('1', 'getUser', '{"id":7}'))
+        .mockResolvedValueOnce(callTool('2', 'getUser', '{"id":7}'))
+        .mockResolvedValueOnce(finalAnswer);
+      client.callTool.mockResolvedValue({ name: 'Ada' });
+
+      const res = await handler.handleMessage(loopRequest, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(2);
+      expect(res.metadata).toBeUndefined();
+    });
+  });
+  describe('tool access policy', () => {
+    const policyRequest = {
+      ...request,
+      agent: { ...request.agent, identifier: 'support' },
+      tools: [
+        { name: 'getUser', description: 'd', parameters: { type: 'object', properties: {} } },
+        { name: 'deleteUser', description: 'd', parameters: { type: 'object', properties: {} } }
+      ]
+    };
+    const agentProfiles = { support: { toolPolicy: { readOnly: true, readOnlyTools: ['get*'] } } };
+
+    it('hides disallowed tools and rejects calls to them', async () => {
+      const policyHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { agentProfiles });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'deleteUser', arguments: '{}' } }] } }],
+          usage: { total_tokens: 1 }
+        })
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Cannot delete' } }], usage: { total_tokens: 1 } });
+
+      await policyHandler.handleMessage(policyRequest, client, {});
+
+      const firstCall = mockOpenAI.chat.completions.create.mock.calls[0][0];
+      expect(firstCall.tools.map((t: any) => t.function.name)).toEqual(['getUser']);
+      expect(client.callTool).not.toHaveBeenCalled();
+      const toolMessage = mockOpenAI.chat.completions.create.mock.calls[1][0].messages.find((m: any) => m.tool_call_id === '1');
+      expect(JSON.parse(toolMessage.content)).toEqual({
+        error: 'Tool not allowed: deleteUser is not marked read-only and this agent may only use read-only tools',
+        toolCallId: '1'
+      });
+    });
+
+    it('leaves other agents unrestricted', async () => {
+      const policyHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { agentProfiles });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'ok' } }], usage: { total_tokens: 1 } });
+
+      await policyHandler.handleMessage({ ...policyRequest, agent: request.agent }, client, {});
+
+      const firstCall = mockOpenAI.chat.completions.create.mock.calls[0][0];
+      expect(firstCall.tools.map((t: any) => t.function.name)).toEqual(['getUser', 'deleteUser']);
+    });
+  });
+  describe('tool call approval', () => {
+    const agentProfiles = { ops: { toolPolicy: { requireApproval: ['delete*'], approvers: ['lead'] } } };
+    const opsRequest = (content: string, senderId = 'u') => ({
+      ...request,
+      agent: { ...request.agent, identifier: 'ops' },
+      tools: [{ name: 'deleteUser', description: 'd', parameters: { type: 'object', properties: { id: { type: 'number' } } } }],
+      messages: [{ type: 'text', sender: { id: senderId }, content }]
+    });
+    const deleteCall = {
+      choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'deleteUser', arguments: '{"id":7}' } }] } }],
+      usage: { total_tokens: 2 }
+    };
+
+    let approvalHandler: OpenAIMessageHandler;
+    beforeEach(() => {
+      approvalHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { agentProfiles });
+    });
+
+    it('pauses with a pending-approval response and runs the call once approved', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(deleteCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'User 7 deleted' } }], usage: { total_tokens: 3 } });
+      client.callTool.mockResolvedValue({ deleted: true });
+
+      const paused = await approvalHandler.handleMessage(opsRequest('delete user 7'), client, {});
+
+      expect(client.callTool).not.toHaveBeenCalled();
+      const approvalId = paused.metadata?.pendingApproval?.id;
+      expect(paused.metadata?.pendingApproval?.toolCalls).toEqual([{ id: '1', name: 'deleteUser', arguments: '{"id":7}' }]);
+      expect(paused.content).toContain(`approve ${approvalId}`);
+
+      const acknowledged = await approvalHandler.handleMessage(opsRequest(`approve ${approvalId}`, 'lead'), client, {});
+      expect(acknowledged.content).toContain(`Approval ${approvalId} granted`);
+      expect(client.callTool).not.toHaveBeenCalled();
+
+      const resumed = await approvalHandler.handleMessage(opsRequest('any update?'), client, {});
+
+      expect(client.callTool).toHaveBeenCalledWith('deleteUser', { id: 7 });
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2);
+      expect(resumed.content).toBe('User 7 deleted');
+    });
+
+    it('returns the rejection to the model instead of calling the tool', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(deleteCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Not deleted' } }], usage: { total_tokens: 3 } });
+
+      const paused = await approvalHandler.handleMessage(opsRequest('delete user 7'), client, {});
+      await approvalHandler.handleMessage(opsRequest(`reject ${paused.metadata?.pendingApproval?.id} wrong user`, 'lead'), client, {});
+      await approvalHandler.handleMessage(opsRequest('any update?'), client, {});
+
+      expect(client.callTool).not.toHaveBeenCalled();
+      const toolMessage = mockOpenAI.chat.completions.create.mock.calls[1][0].messages.find((m: any) => m.tool_call_id === '1');
+      expect(JSON.parse(toolMessage.content)).toEqual({ error: 'Rejected by approver: wrong user', toolCallId: '1' });
+    });
+
+    it('adds the requester\'s resuming message after the approved tool results', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(deleteCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Deleted, and user 8 is next' } }], usage: { total_tokens: 3 } });
+      client.callTool.mockResolvedValue({ deleted: true });
+
+      const paused = await approvalHandler.handleMessage(opsRequest('delete user 7'), client, {});
+      await approvalHandler.handleMessage(opsRequest(`approve ${paused.metadata?.pendingApproval?.id}`, 'lead'), client, {});
+      await approvalHandler.handleMessage(opsRequest('also delete user 8 afterwards'), client, {});
+
+      const messages = mockOpenAI.chat.completions.create.mock.calls[1][0].messages;
+      expect(messages.at(-2).tool_call_id).toBe('1');
+      expect(messages.at(-1)).toEqual({ role: 'user', content: expect.stringContaining('also delete user 8 afterwards') });
+    });
+
+    it('rejects calls needing approval in sessions without a requester instead of pausing', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(deleteCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Deletion needs approval' } }], usage: { total_tokens: 3 } });
+
+      const result = await approvalHandler.handleMessage({ ...opsRequest('unused'), messages: [] }, client, {});
+
+      expect(result.metadata?.pendingApproval).toBeUndefined();
+      expect(result.content).toBe('Deletion needs approval');
+      expect(client.callTool).not.toHaveBeenCalled();
+      const toolMessage = mockOpenAI.chat.completions.create.mock.calls[1][0].messages.find((m: any) => m.tool_call_id === '1');
+      expect(JSON.parse(toolMessage.content).error).toContain('sessions without a requester cannot request');
+    });
+  });
+
+  describe('audio messages', () => {
+    const audioRequest = {
+      ...request,
+      messages: [{ type: 'audio', sender: { id: 'u', name: 'U' }, content: Buffer.from('ID3').toString('base64'), metadata: { format: 'base64', fileExtension: 'mp3' } }]
+    };
+
+    it('transcribes audio for models without audio input', async () => {
+      const transcriptionProvider = { transcribe: vi.fn().mockResolvedValue('What is the weather?') };
+      const audioHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { transcriptionProvider });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Sunny' } }], usage: { total_tokens: 1 } });
+
+      await audioHandler.handleMessage(audioRequest, client, {});
+
+      expect(transcriptionProvider.transcribe).toHaveBeenCalledWith({ data: Buffer.from('ID3'), format: 'mp3' }, { signal: expect.any(AbortSignal) });
+      const userMessage = mockOpenAI.chat.completions.create.mock.calls[0][0].messages[1];
+      expect(JSON.parse(userMessage.content)).toEqual({ senderId: 'u', name: 'U', content: 'What is the weather?', type: 'audio' });
+    });
+
+    it('sends input_audio parts to audio-capable models without transcribing', async () => {
+      const transcriptionProvider = { transcribe: vi.fn() };
+      const audioHandler = new OpenAIMessageHandler(
+        mockOpenAI,
+        { ...mockOpenAIConfig, model: 'gpt-4o-audio-preview' },
+        mockDispatchConfig,
+        undefined,
+        undefined,
+        { transcriptionProvider }
+      );
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Sunny' } }], usage: { total_tokens: 1 } });
+
+      await audioHandler.handleMessage(audioRequest, client, {});
+
+      expect(transcriptionProvider.transcribe).not.toHaveBeenCalled();
+      const userMessage = mockOpenAI.chat.completions.create.mock.calls[0][0].messages[1];
+      expect(userMessage.content[1]).toEqual({ type: 'input_audio', input_audio: { data: Buffer.from('ID3').toString('base64'), format: 'mp3' } });
+    });
+
+    it('omits audio the model cannot take when transcription fails', async () => {
+      const transcriptionProvider = { transcribe: vi.fn().mockRejectedValue(new Error('unavailable')) };
+      const audioHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { transcriptionProvider });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Sorry' } }], usage: { total_tokens: 1 } });
+
+      await audioHandler.handleMessage(audioRequest, client, {});
+
+      const userMessage = mockOpenAI.chat.completions.create.mock.calls[0][0].messages[1];
+      expect(userMessage.content.map((part: any) => part.type)).toEqual(['text', 'text']);
+      expect(userMessage.content[1].text).toContain('audio omitted');
+    });
+  });
+
+  describe('document attachments', () => {
+    const documentRequest = {
+      ...request,
+      messages: [{ type: 'text', sender: { id: 'u', name: 'U' }, content: 'line one\nline two\nline three', metadata: { fileExtension: 'txt', fileName: 'notes.txt' } }]
+    };
+
+    it('includes small documents whole without the page tool', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Read it' } }], usage: { total_tokens: 1 } });
+
+      await handler.handleMessage(documentRequest, client, {});
+
+      const params = mockOpenAI.chat.completions.create.mock.calls[0][0];
+      expect(JSON.parse(params.messages[1].content)).toEqual(expect.objectContaining({ content: 'line one\nline two\nline three', fileName: 'notes.txt' }));
+      expect(params.tools?.map((tool: any) => tool.function.name) ?? []).not.toContain('attachment_read_page');
+    });
+
+    it('pages large documents through attachment_read_page', async () => {
+      const documentHandler = new OpenAIMessageHandler(
+        mockOpenAI,
+        mockOpenAIConfig,
+        { ...mockDispatchConfig, attachmentInlineChars: 10, attachmentPageChars: 10 }
+      );
+      mockOpenAI.chat.completions.create
+        .mockImplementationOnce(async (params: any) => {
+          const attachmentId = /attachment ([0-9a-f]+)\./.exec(JSON.parse(params.messages[1].content).content)?.[1];
+          return {
+            choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'attachment_read_page', arguments: JSON.stringify({ attachmentId, page: 2 }) } }] } }],
+            usage: { total_tokens: 1 }
+          };
+        })
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Done' } }], usage: { total_tokens: 1 } });
+
+      await documentHandler.handleMessage(documentRequest, client, {});
+
+      const firstParams = mockOpenAI.chat.completions.create.mock.calls[0][0];
+      expect(firstParams.tools.map((tool: any) => tool.function.name)).toContain('attachment_read_page');
+      const toolMessage = mockOpenAI.chat.completions.create.mock.calls[1][0].messages.find((m: any) => m.tool_call_id === '1');
+      expect(JSON.parse(toolMessage.content)).toEqual(expect.objectContaining({ success: true, page: 2, content: 'line two' }));
+      expect(client.callTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('speech responses', () => {
+    const speechProfile = (mode: 'attach' | 'replace') => ({ '*': { speech: { enabled: true, mode } } });
+
+    it('attaches synthesized audio to the text response', async () => {
+      const speechProvider = { synthesize: vi.fn().mockResolvedValue(Buffer.from('audio')) };
+      const speechHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, {
+        speechProvider,
+        agentProfiles: speechProfile('attach') as any
+      });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Hello' } }], usage: { total_tokens: 1 } });
+
+      const result = await speechHandler.handleMessage(request, client, {});
+
+      expect(speechProvider.synthesize).toHaveBeenCalledWith('Hello', { voice: 'alloy', format: 'mp3', mode: 'attach' }, expect.anything());
+      expect(result).toEqual(expect.objectContaining({ type: 'text', content: 'Hello' }));
+      expect((result as any).metadata.speech).toEqual({ voice: 'alloy', format: 'mp3', data: Buffer.from('audio').toString('base64') });
+    });
+
+    it('returns audio instead of text in replace mode', async () => {
+      const speechHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, {
+        speechProvider: new StubSpeechProvider(),
+        agentProfiles: speechProfile('replace') as any
+      });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Hello' } }], usage: { total_tokens: 1 } });
+
+      const result = await speechHandler.handleMessage(request, client, {});
+
+      expect(result.type).toBe('audio');
+      expect(Buffer.from(result.content as string, 'base64').toString('utf-8')).toBe('stub-speech:alloy:mp3:Hello');
+      expect((result as any).metadata.speech).toEqual({ voice: 'alloy', format: 'mp3', transcript: 'Hello' });
+    });
+
+    it('speaks only when requested through message metadata', async () => {
+      const speechProvider = { synthesize: vi.fn().mockResolvedValue(Buffer.from('audio')) };
+      const speechHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, { speechProvider });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Hello' } }], usage: { total_tokens: 1 } });
+
+      await speechHandler.handleMessage(request, client, {});
+      const spoken = await speechHandler.handleMessage({
+        ...request,
+        messages: [{ type: 'text', sender: { id: 'u', name: 'U' }, content: 'Hi', metadata: { speech: { voice: 'nova' } } }]
+      } as any, client, {});
+
+      expect(speechProvider.synthesize).toHaveBeenCalledTimes(1);
+      expect((spoken as any).metadata.speech.voice).toBe('nova');
+    });
+
+    it('falls back to text when synthesis fails', async () => {
+      const speechProvider = { synthesize: vi.fn().mockRejectedValue(new Error('tts down')) };
+      const speechHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, mockDispatchConfig, undefined, undefined, {
+        speechProvider,
+        agentProfiles: speechProfile('replace') as any
+      });
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: 'Hello' } }], usage: { total_tokens: 1 } });
+
+      const result = await speechHandler.handleMessage(request, client, {});
+
+      expect(result).toEqual({ type: 'text', content: 'Hello', usedToken: 1 });
+    });
+  });
+
+  describe('sub-agent delegation', () => {
+    const toolCall = (name: string, args: object, tokens = 1) => ({
+      choices: [{ message: { content: null, tool_calls: [{ id: name, type: 'function', function: { name, arguments: JSON.stringify(args) } }] } }],
+      usage: { total_tokens: tokens }
+    });
+    const answer = (content: string, tokens = 1) => ({ choices: [{ message: { content } }], usage: { total_tokens: tokens } });
+    const delegatingRequest = {
+      ...request,
+      tools: [
+        { name: 'searchWeb', description: 'Search', parameters: { type: 'object', properties: {} } },
+        { name: 'sendEmail', description: 'Email', parameters: { type: 'object', properties: {} } }
+      ]
+    };
+    const createDelegatingHandler = (options = {}) => new OpenAIMessageHandler(
+      mockOpenAI,
+      mockOpenAIConfig,
+      mockDispatchConfig,
+      new InternalToolAggregator([new DelegateToAgentTool({
+        researcher: { description: 'Finds facts', prompt: 'You research.', model: 'gpt-4o-mini', tools: ['search*', 'send*'] }
+      })]),
+      undefined,
+      options
+    );
+
+    it('runs the sub-agent with its own prompt, model and tools and rolls up its tokens', async () => {
+      client.callTool.mockResolvedValue({ capital: 'Paris' });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(toolCall('delegate_to_agent', { agent: 'researcher', task: 'Capital of France?' }, 10))
+        .mockResolvedValueOnce(toolCall('searchWeb', {}, 3))
+        .mockResolvedValueOnce(answer('Paris', 5))
+        .mockResolvedValueOnce(answer('The capital is Paris', 7));
+
+      const result = await createDelegatingHandler().handleMessage(delegatingRequest, client, {});
+
+      expect(result).toEqual(expect.objectContaining({ content: 'The capital is Paris', usedToken: 25 }));
+      const subAgentParams = mockOpenAI.chat.completions.create.mock.calls[1][0];
+      expect(subAgentParams.model).toBe('gpt-4o-mini');
+      expect(subAgentParams.messages[0].content).toContain('You research.');
+      expect(subAgentParams.tools.map((tool: any) => tool.function.name)).toEqual(['searchWeb', 'sendEmail']);
+      const delegation = mockOpenAI.chat.completions.create.mock.calls[3][0].messages.find((m: any) => m.tool_call_id === 'delegate_to_agent');
+      expect(JSON.parse(delegation.content)).toEqual({ success: true, agent: 'researcher', answer: 'Paris', tokensUsed: 8 });
+    });
+
+    it('gives the sub-agent only what is left of the delegating session\'s token budget', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(toolCall('delegate_to_agent', { agent: 'researcher', task: 'Capital of France?' }, 3500))
+        .mockResolvedValueOnce(answer('Paris, probably', 50))
+        .mockResolvedValueOnce(answer('The capital is Paris', 50));
+      const budgetHandler = new OpenAIMessageHandler(
+        mockOpenAI,
+        { ...mockOpenAIConfig, sessionMaxTokens: 4000 },
+        mockDispatchConfig,
+        new InternalToolAggregator([new DelegateToAgentTool({
+          researcher: { description: 'Finds facts', prompt: 'You research.', tools: ['search*'] }
+        })])
+      );
+
+      const result = await budgetHandler.handleMessage(delegatingRequest, client, {});
+
+      const subAgentParams = mockOpenAI.chat.completions.create.mock.calls[1][0];
+      expect(subAgentParams.tool_choice).toBe('none');
+      expect(subAgentParams.max_tokens).toBeLessThanOrEqual(500);
+      expect(result.usedToken).toBe(3600);
+    });
+
+    it('rejects sub-agent calls that would need approval instead of pausing', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(toolCall('delegate_to_agent', { agent: 'researcher', task: 'Email the report' }))
+        .mockResolvedValueOnce(toolCall('sendEmail', {}))
+        .mockResolvedValueOnce(answer('Could not send'))
+        .mockResolvedValueOnce(answer('The email needs your approval'));
+
+      const result = await createDelegatingHandler({
+        agentProfiles: { '*': { toolPolicy: { requireApproval: ['sendEmail'] } } }
+      }).handleMessage(delegatingRequest, client, {});
+
+      expect(client.callTool).not.toHaveBeenCalled();
+      expect(result.content).toBe('The email needs your approval');
+      const rejection = mockOpenAI.chat.completions.create.mock.calls[2][0].messages.find((m: any) => m.tool_call_id === 'sendEmail');
+      expect(JSON.parse(rejection.content).error).toContain('needs human approval');
+    });
+  });
+
+  describe('plan-and-execute', () => {
+    const toolCall = (name: string) => ({
+      choices: [{ message: { content: null, tool_calls: [{ id: name, type: 'function', function: { name, arguments: '{}' } }] } }],
+      usage: { total_tokens: 1 }
+    });
+    const answer = (content: string) => ({ choices: [{ message: { content } }], usage: { total_tokens: 1 } });
+    const planningRequest = {
+      ...request,
+      tools: [{ name: 'getUser', description: 'Look up a user', parameters: { type: 'object', properties: {} } }]
+    };
+    // Plan and step prompts need more room than the default 1024-token session budget
+    const createPlanningHandler = (maxRevisions = 1) => new OpenAIMessageHandler(
+      mockOpenAI,
+      { ...mockOpenAIConfig, sessionMaxTokens: 16000 },
+      mockDispatchConfig,
+      undefined,
+      undefined,
+      { agentProfiles: { agent: { planning: { maxSteps: 4, maxRevisions } } } }
+    );
+
+    it('plans first, runs each step through the tool loop and reports the plan', async () => {
+      client.callTool.mockResolvedValue({ name: 'Ada' });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('{"steps": ["Look up the user", "Draft a greeting"]}'))
+        .mockResolvedValueOnce(toolCall('getUser'))
+        .mockResolvedValueOnce(answer('The user is Ada'))
+        .mockResolvedValueOnce(answer('Greeting drafted'))
+        .mockResolvedValueOnce(answer('Hello Ada!'));
+
+      const result = await createPlanningHandler().handleMessage(planningRequest, client, {});
+
+      expect(result.content).toBe('Hello Ada!');
+      expect(client.callTool).toHaveBeenCalledTimes(1);
+      const calls = mockOpenAI.chat.completions.create.mock.calls;
+      expect(calls[0][0].tool_choice).toBe('none');
+      expect(calls[1][0].messages.at(-1).content).toContain('step 1 of 2: Look up the user');
+      expect(calls[3][0].messages.at(-1).content).toContain('step 2 of 2: Draft a greeting');
+      expect(calls[4][0].tool_choice).toBe('none');
+      expect(result.metadata?.plan).toEqual({
+        steps: [
+          { description: 'Look up the user', status: 'succeeded', result: 'The user is Ada' },
+          { description: 'Draft a greeting', status: 'succeeded', result: 'Greeting drafted' }
+        ],
+        revisions: 0
+      });
+    });
+
+    it('revises the remaining steps when a step fails', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('1. Read the file\n2. Summarise it'))
+        .mockResolvedValueOnce(answer('STEP FAILED: the file is missing'))
+        .mockResolvedValueOnce(answer('{"steps": ["Ask for the file"]}'))
+        .mockResolvedValueOnce(answer('Asked for the file'))
+        .mockResolvedValueOnce(answer('Please send the file again'));
+
+      const result = await createPlanningHandler().handleMessage(planningRequest, client, {});
+
+      expect(result.content).toBe('Please send the file again');
+      expect(mockOpenAI.chat.completions.create.mock.calls[2][0].messages.at(-1).content).toContain('Step 1 (Read the file) failed');
+      expect(result.metadata?.plan).toEqual({
+        steps: [
+          { description: 'Read the file', status: 'failed', result: 'STEP FAILED: the file is missing' },
+          { description: 'Ask for the file', status: 'succeeded', result: 'Asked for the file' }
+        ],
+        revisions: 1
+      });
+    });
+
+    it('skips the remaining steps once revisions are used up', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('{"steps": ["Read the file", "Summarise it"]}'))
+        .mockResolvedValueOnce(answer('STEP FAILED: the file is missing'))
+        .mockResolvedValueOnce(answer('I could not read the file'));
+
+      const result = await createPlanningHandler(0).handleMessage(planningRequest, client, {});
+
+      expect(result.content).toBe('I could not read the file');
+      expect(result.metadata?.plan?.steps.map((step) => step.status)).toEqual(['failed', 'skipped']);
+    });
+
+    it('streams only the final answer, not the plan or step reports', async () => {
+      async function* finalChunks() {
+        yield { choices: [{ delta: { content: 'Hello ' } }] };
+        yield { choices: [{ delta: { content: 'Ada!' } }] };
+        yield { choices: [], usage: { total_tokens: 1 } };
+      }
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('{"steps": ["Draft a greeting"]}'))
+        .mockResolvedValueOnce(answer('Greeting drafted'))
+        .mockResolvedValueOnce(finalChunks());
+      const streamSink = { write: vi.fn().mockResolvedValue(undefined) };
+      const streamingHandler = new OpenAIMessageHandler(
+        mockOpenAI,
+        { ...mockOpenAIConfig, sessionMaxTokens: 16000 },
+        mockDispatchConfig,
+        undefined,
+        undefined,
+        { streamSink, agentProfiles: { agent: { planning: { maxSteps: 4 } } } }
+      );
+
+      const result = await streamingHandler.handleMessage(planningRequest, client, {});
+
+      expect(result.content).toBe('Hello Ada!');
+      const calls = mockOpenAI.chat.completions.create.mock.calls;
+      expect(calls.map(([params]) => params.stream ?? false)).toEqual([false, false, true]);
+      const deltas = streamSink.write.mock.calls.map(([event]) => event).filter((event) => event.type === 'delta');
+      expect(deltas.map((event) => event.content).join('')).toBe('Hello Ada!');
+    });
+
+    it('continues without a plan when none can be read from the reply', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('There is nothing to plan here.'))
+        .mockResolvedValueOnce(answer('Hi there'));
+
+      const result = await createPlanningHandler().handleMessage(planningRequest, client, {});
+
+      expect(result.content).toBe('Hi there');
+      expect(result.metadata?.plan).toBeUndefined();
+    });
+  });
+
+  describe('self-critique review', () => {
+    const answer = (content: string, tokens = 1) => ({ choices: [{ message: { content } }], usage: { total_tokens: tokens } });
+    const createReviewingHandler = () => new OpenAIMessageHandler(
+      mockOpenAI,
+      mockOpenAIConfig,
+      mockDispatchConfig,
+      undefined,
+      undefined,
+      { agentProfiles: { agent: { review: { model: 'gpt-4o-mini', maxTokens: 200 } } } }
+    );
+
+    it('returns the draft when the reviewer approves it', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('Paris is the capital of France', 5))
+        .mockResolvedValueOnce(answer('{"approved": true}', 2));
+
+      const result = await createReviewingHandler().handleMessage(request, client, {});
+
+      expect(result).toEqual(expect.objectContaining({ content: 'Paris is the capital of France', usedToken: 7 }));
+      expect(result.metadata?.review).toEqual({ approved: true });
+      const reviewParams = mockOpenAI.chat.completions.create.mock.calls[1][0];
+      expect(reviewParams.model).toBe('gpt-4o-mini');
+      expect(reviewParams.max_tokens).toBe(200);
+      expect(reviewParams.tools).toBeUndefined();
+      expect(reviewParams.messages[1].content).toContain('## Draft answer\nParis is the capital of France');
+    });
+
+    it('sends the reviewer notes back for one more round', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('Lyon is the capital of France'))
+        .mockResolvedValueOnce(answer('{"approved": false, "notes": "The capital is Paris"}'))
+        .mockResolvedValueOnce(answer('Paris is the capital of France'));
+
+      const result = await createReviewingHandler().handleMessage(request, client, {});
+
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(3);
+      expect(result.content).toBe('Paris is the capital of France');
+      expect(result.metadata?.review).toEqual({ approved: false, notes: 'The capital is Paris' });
+      const revisionMessages = mockOpenAI.chat.completions.create.mock.calls[2][0].messages;
+      expect(revisionMessages.at(-2)).toEqual({ role: 'assistant', content: 'Lyon is the capital of France' });
+      expect(revisionMessages.at(-1).content).toContain('The capital is Paris');
+    });
+
+    it('streams only the revision, never a draft the reviewer rejects', async () => {
+      async function* revisionChunks() {
+        yield { choices: [{ delta: { content: 'Paris is ' } }] };
+        yield { choices: [{ delta: { content: 'the capital' } }] };
+        yield { choices: [], usage: { total_tokens: 1 } };
+      }
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('Lyon is the capital of France'))
+        .mockResolvedValueOnce(answer('{"approved": false, "notes": "The capital is Paris"}'))
+        .mockResolvedValueOnce(revisionChunks());
+      const streamSink = { write: vi.fn().mockResolvedValue(undefined) };
+      const streamingHandler = new OpenAIMessageHandler(
+        mockOpenAI,
+        mockOpenAIConfig,
+        mockDispatchConfig,
+        undefined,
+        undefined,
+        { streamSink, agentProfiles: { agent: { review: { maxTokens: 200 } } } }
+      );
+
+      const result = await streamingHandler.handleMessage(request, client, {});
+
+      expect(result.content).toBe('Paris is the capital');
+      const calls = mockOpenAI.chat.completions.create.mock.calls;
+      expect(calls.map(([params]) => params.stream ?? false)).toEqual([false, false, true]);
+      const events = streamSink.write.mock.calls.map(([event]) => event);
+      expect(events.filter((event) => event.type === 'delta').map((event) => event.content).join('')).toBe('Paris is the capital');
+      expect(events.at(-1)).toEqual(expect.objectContaining({ type: 'done', content: 'Paris is the capital' }));
+    });
+
+    it('lets the draft through when the review fails', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(answer('Paris'))
+        .mockRejectedValueOnce(new Error('boom'));
+
+      const result = await createReviewingHandler().handleMessage(request, client, {});
+
+      expect(result.content).toBe('Paris');
+      expect(result.metadata?.review).toBeUndefined();
+    });
+  });
+
+  describe('model fallback', () => {
+    it('records the model that answered and how many calls fell back', async () => {
+      mockOpenAI.chat.completions.create
+        .mockRejectedValueOnce(Object.assign(new Error('Rate limit reached'), { status: 429 }))
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Hi from mini' } }], usage: { total_tokens: 3 } });
+      const fallbackHandler = new OpenAIMessageHandler(
+        new FallbackChatProvider(new OpenAIChatProvider(mockOpenAI), [{ model: 'gpt-4o-mini' }]),
+        mockOpenAIConfig,
+        mockDispatchConfig
+      );
+
+      const result = await fallbackHandler.handleMessage(request, client, {});
+
+      expect(result.content).toBe('Hi from mini');
+      expect(result.metadata).toEqual({ model: 'gpt-4o-mini', fallbackCalls: 1 });
+      expect(mockOpenAI.chat.completions.create.mock.calls[1][0].model).toBe('gpt-4o-mini');
+    });
+  });
+
+  describe('tool result cache', () => {
+    const lookupCall = {
+      choices: [{ message: { content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'getUser', arguments: '{"id":7}' } }] } }],
+      usage: { total_tokens: 1 }
+    };
+
+    it('reuses cached results for configured tools across sessions', async () => {
+      const cacheHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, { ...mockDispatchConfig, toolCacheTtls: { getUser: 60000 } });
+      client.callTool.mockResolvedValue({ id: 7, name: 'Ada' });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(lookupCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Ada' } }], usage: { total_tokens: 1 } })
+        .mockResolvedValueOnce(lookupCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Still Ada' } }], usage: { total_tokens: 1 } });
+
+      await cacheHandler.handleMessage(request, client, {});
+      await cacheHandler.handleMessage(request, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(1);
+      const toolMessage = mockOpenAI.chat.completions.create.mock.calls[3][0].messages.find((m: any) => m.tool_call_id === '1');
+      expect(JSON.parse(toolMessage.content)).toEqual({ id: 7, name: 'Ada' });
+    });
+
+    it('calls tools without a configured TTL every time', async () => {
+      const cacheHandler = new OpenAIMessageHandler(mockOpenAI, mockOpenAIConfig, { ...mockDispatchConfig, toolCacheTtls: { listUsers: 60000 } });
+      client.callTool.mockResolvedValue({ id: 7 });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(lookupCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'ok' } }], usage: { total_tokens: 1 } })
+        .mockResolvedValueOnce(lookupCall)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'ok' } }], usage: { total_tokens: 1 } });
+
+      await cacheHandler.handleMessage(request, client, {});
+      await cacheHandler.handleMessage(request, client, {});
+
+      expect(client.callTool).toHaveBeenCalledTimes(2);
+    });
+  });
+});
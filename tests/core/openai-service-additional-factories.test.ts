@@ -5,6 +5,9 @@ import {
   createOpenAIServiceBasic
 } from '../../src/core/openai-service-factory.js';
 import { OpenAIService } from '../../src/core/openai-service.js';
+import { OpenAIMessageHandler } from '../../src/core/openai-message-handler.js';
+import { FallbackChatProvider } from '../../src/core/fallback-chat-provider.js';
+import { RateLimitedChatProvider } from '../../src/core/rate-limited-chat-provider.js';
 
 // Mocks for cubicagentkit pieces we need
 vi.mock('@cubicler/cubicagentkit', () => ({
@@ -107,4 +110,24 @@ describe('Additional Factory Functions', () => {
     );
     expect(service).toBeInstanceOf(OpenAIService);
   });
+
+  it('applies the rate limiter, fallback chain and handler options with a supplied provider', () => {
+    const chatProvider = { complete: vi.fn() };
+    const openaiConfig = {
+      ...baseOpenAIConfig,
+      rpmLimits: { '*': 100 },
+      fallbackModels: [{ model: 'gpt-4o-mini' }, { model: 'gpt-4o', baseURL: 'https://backup.example.com/v1' }]
+    };
+
+    createOpenAIServiceBasic({} as any, {} as any, openaiConfig, baseDispatchConfig, undefined, chatProvider);
+
+    const [provider, , , , , options] = vi.mocked(OpenAIMessageHandler).mock.calls[0]!;
+    expect(provider).toBeInstanceOf(FallbackChatProvider);
+    const chain = provider as any;
+    expect(chain.primary).toBeInstanceOf(RateLimitedChatProvider);
+    expect(chain.primary.provider).toBe(chatProvider);
+    expect(chain.fallbacks[1].provider).toBeInstanceOf(RateLimitedChatProvider);
+    expect(chain.fallbacks[1].provider.limiter).toBe(chain.primary.limiter);
+    expect(options?.approvalManager).toBeDefined();
+  });
 });
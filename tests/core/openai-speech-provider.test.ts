@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAISpeechProvider } from '../../src/core/openai-speech-provider.js';
+import { StubSpeechProvider } from '../../src/core/stub-speech-provider.js';
+
+describe('OpenAISpeechProvider', () => {
+  let mockOpenAI: any;
+
+  beforeEach(() => {
+    mockOpenAI = {
+      audio: { speech: { create: vi.fn().mockResolvedValue({ arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer }) } }
+    };
+  });
+
+  it('requests speech with the voice and format and returns the audio bytes', async () => {
+    const provider = new OpenAISpeechProvider(mockOpenAI);
+
+    const audio = await provider.synthesize('Hello there', { voice: 'nova', format: 'wav', mode: 'attach' });
+
+    expect(audio).toEqual(Buffer.from([1, 2, 3]));
+    expect(mockOpenAI.audio.speech.create).toHaveBeenCalledWith({
+      model: 'gpt-4o-mini-tts',
+      voice: 'nova',
+      input: 'Hello there',
+      response_format: 'wav'
+    });
+  });
+
+  it('uses the configured model and forwards the abort signal', async () => {
+    const signal = new AbortController().signal;
+    const provider = new OpenAISpeechProvider(mockOpenAI, 'tts-1');
+
+    await provider.synthesize('Hi', { voice: 'alloy', format: 'mp3', mode: 'attach' }, { signal });
+
+    const [params, options] = mockOpenAI.audio.speech.create.mock.calls[0];
+    expect(params.model).toBe('tts-1');
+    expect(options).toEqual({ signal });
+  });
+});
+
+describe('StubSpeechProvider', () => {
+  it('returns a deterministic placeholder naming the voice, format and text', async () => {
+    const audio = await new StubSpeechProvider().synthesize('Hi', { voice: 'alloy', format: 'mp3', mode: 'replace' });
+
+    expect(audio.toString('utf-8')).toBe('stub-speech:alloy:mp3:Hi');
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAITranscriptionProvider } from '../../src/core/openai-transcription-provider.js';
+
+describe('OpenAITranscriptionProvider', () => {
+  let mockOpenAI: any;
+
+  beforeEach(() => {
+    mockOpenAI = { audio: { transcriptions: { create: vi.fn().mockResolvedValue({ text: ' Hello there \n' }) } } };
+  });
+
+  it('uploads the audio with its format and returns the trimmed transcript', async () => {
+    const provider = new OpenAITranscriptionProvider(mockOpenAI);
+
+    const transcript = await provider.transcribe({ data: Buffer.from('ID3'), format: 'mp3' });
+
+    expect(transcript).toBe('Hello there');
+    const [params] = mockOpenAI.audio.transcriptions.create.mock.calls[0];
+    expect(params.model).toBe('whisper-1');
+    expect(params.file.name).toBe('audio.mp3');
+  });
+
+  it('uses the configured model and forwards the abort signal', async () => {
+    const signal = new AbortController().signal;
+    const provider = new OpenAITranscriptionProvider(mockOpenAI, 'gpt-4o-mini-transcribe');
+
+    await provider.transcribe({ data: Buffer.from('RIFF'), format: 'wav' }, { signal });
+
+    const [params, options] = mockOpenAI.audio.transcriptions.create.mock.calls[0];
+    expect(params.model).toBe('gpt-4o-mini-transcribe');
+    expect(options).toEqual({ signal });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { RateLimitedChatProvider } from '../../src/core/rate-limited-chat-provider.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets calls through without limits for the model', async () => {
+    const limiter = new RateLimiter({ rpm: { 'gpt-4o': 1 } });
+
+    await limiter.acquire('gpt-4o-mini', 100);
+    await expect(limiter.acquire('gpt-4o-mini', 100)).resolves.toBeDefined();
+  });
+
+  it('queues calls over the request budget until the window frees up', async () => {
+    const limiter = new RateLimiter({ rpm: { '*': 2 }, maxWaitMs: 120000 });
+    await limiter.acquire('gpt-4o', 10);
+    await limiter.acquire('gpt-4o', 10);
+
+    let granted = false;
+    const third = limiter.acquire('gpt-4o', 10).then(() => { granted = true; });
+    await vi.advanceTimersByTimeAsync(59000);
+    expect(granted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(granted).toBe(true);
+  });
+
+  it('budgets tokens and admits queued calls when actual usage is lower than estimated', async () => {
+    const limiter = new RateLimiter({ tpm: { 'gpt-4o': 1000 } });
+    const first = await limiter.acquire('gpt-4o', 800);
+
+    let granted = false;
+    const second = limiter.acquire('gpt-4o', 400).then(() => { granted = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toBe(false);
+
+    first.settle(300);
+    await second;
+    expect(granted).toBe(true);
+  });
+
+  it('serves waiting calls in arrival order', async () => {
+    const limiter = new RateLimiter({ tpm: { 'gpt-4o': 1000 }, maxWaitMs: 120000 });
+    await limiter.acquire('gpt-4o', 900);
+    const order: string[] = [];
+
+    const large = limiter.acquire('gpt-4o', 800).then(() => order.push('large'));
+    const small = limiter.acquire('gpt-4o', 50).then(() => order.push('small'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    await Promise.all([large, small]);
+    expect(order).toEqual(['large', 'small']);
+  });
+
+  it('rejects calls that wait longer than the maximum wait', async () => {
+    const limiter = new RateLimiter({ rpm: { 'gpt-4o': 1 }, maxWaitMs: 5000 });
+    await limiter.acquire('gpt-4o', 10);
+
+    const waiting = limiter.acquire('gpt-4o', 10);
+    const assertion = expect(waiting).rejects.toThrow('OpenAI client overloaded: waited 5000ms for the gpt-4o rate limit');
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+  });
+
+  it('rejects immediately with an overload error when the queue is full', async () => {
+    const limiter = new RateLimiter({ rpm: { 'gpt-4o': 1 }, maxQueue: 1, maxWaitMs: 120000 });
+    await limiter.acquire('gpt-4o', 10);
+    const queued = limiter.acquire('gpt-4o', 10);
+
+    await expect(limiter.acquire('gpt-4o', 10)).rejects.toThrow('rate limiter queue for gpt-4o is full (1 calls waiting)');
+
+    await vi.advanceTimersByTimeAsync(60000);
+    await expect(queued).resolves.toBeDefined();
+  });
+
+  it('drops waiting calls whose signal aborts', async () => {
+    const limiter = new RateLimiter({ rpm: { 'gpt-4o': 1 } });
+    await limiter.acquire('gpt-4o', 10);
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire('gpt-4o', 10, controller.signal);
+    controller.abort(new Error('deadline'));
+
+    await expect(waiting).rejects.toThrow('deadline');
+  });
+});
+
+describe('RateLimitedChatProvider', () => {
+  it('acquires a slot sized by the prompt and completion cap, then settles with actual usage', async () => {
+    const settle = vi.fn();
+    const limiter = { acquire: vi.fn().mockResolvedValue({ settle }) } as unknown as RateLimiter;
+    const inner = { complete: vi.fn().mockResolvedValue({ content: 'hi', usedTokens: 42, promptTokens: 30, completionTokens: 12 }) };
+    const provider = new RateLimitedChatProvider(inner, limiter);
+
+    const result = await provider.complete({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hello' }], max_tokens: 100 });
+
+    expect(result.usedTokens).toBe(42);
+    const [model, estimate] = (limiter.acquire as ReturnType<typeof vi.fn>).mock.calls[0] ?? [];
+    expect(model).toBe('gpt-4o');
+    expect(estimate).toBeGreaterThan(100);
+    expect(settle).toHaveBeenCalledWith(42);
+  });
+
+  it('keeps the estimate for failed calls', async () => {
+    const settle = vi.fn();
+    const limiter = { acquire: vi.fn().mockResolvedValue({ settle }) } as unknown as RateLimiter;
+    const inner = { complete: vi.fn().mockRejectedValue(new Error('boom')) };
+    const provider = new RateLimitedChatProvider(inner, limiter);
+
+    await expect(provider.complete({ model: 'gpt-4o', messages: [] })).rejects.toThrow('boom');
+    expect(settle).toHaveBeenCalledWith(0);
+  });
+});
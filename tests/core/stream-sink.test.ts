@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TransportStreamSink, isStreamTransport } from '../../src/core/stream-sink.js';
+
+const createTransport = () => ({ sendNotification: vi.fn().mockResolvedValue(undefined) });
+
+describe('TransportStreamSink', () => {
+  it('batches deltas without waiting on the transport and flushes them before done', async () => {
+    const transport = createTransport();
+    transport.sendNotification.mockReturnValue(new Promise(() => {}));
+    const sink = new TransportStreamSink(transport, undefined, 1000);
+
+    await sink.write({ type: 'delta', iteration: 1, content: 'Hel' });
+    await sink.write({ type: 'delta', iteration: 1, content: 'lo' });
+    await sink.write({ type: 'delta', iteration: 2, content: '!' });
+
+    expect(transport.sendNotification).not.toHaveBeenCalled();
+
+    transport.sendNotification.mockResolvedValue(undefined);
+    await sink.write({ type: 'done', content: 'Hello!', usedToken: 3 });
+
+    expect(transport.sendNotification.mock.calls).toEqual([
+      ['agent/stream', { type: 'delta', iteration: 1, content: 'Hello' }],
+      ['agent/stream', { type: 'delta', iteration: 2, content: '!' }],
+      ['agent/stream', { type: 'done', content: 'Hello!', usedToken: 3 }]
+    ]);
+  });
+
+  it('sends buffered deltas after the flush interval', async () => {
+    vi.useFakeTimers();
+    try {
+      const transport = createTransport();
+      const sink = new TransportStreamSink(transport, undefined, 50);
+
+      await sink.write({ type: 'delta', iteration: 1, content: 'Hi' });
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(transport.sendNotification).toHaveBeenCalledWith('agent/stream', { type: 'delta', iteration: 1, content: 'Hi' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('swallows delivery failures and keeps sending', async () => {
+    const transport = createTransport();
+    transport.sendNotification.mockRejectedValueOnce(new Error('closed'));
+    const sink = new TransportStreamSink(transport);
+
+    await sink.write({ type: 'delta', iteration: 1, content: 'a' });
+    await expect(sink.write({ type: 'done', content: 'a', usedToken: 1 })).resolves.toBeUndefined();
+
+    expect(transport.sendNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('recognises servers with a notification channel', () => {
+    expect(isStreamTransport(createTransport())).toBe(true);
+    expect(isStreamTransport({ start: vi.fn() })).toBe(false);
+  });
+});
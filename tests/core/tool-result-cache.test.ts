@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ToolResultCache, createToolResultCache } from '../../src/core/tool-result-cache.js';
+
+describe('ToolResultCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caches configured tools by name and canonicalised arguments', async () => {
+    const cache = new ToolResultCache({ ttls: { getUser: 1000 } });
+    const fn = vi.fn().mockResolvedValue({ id: 7 });
+
+    await cache.getOrCall('getUser', { id: 7, fields: ['name'] }, fn);
+    const result = await cache.getOrCall('getUser', { fields: ['name'], id: 7 }, fn);
+
+    expect(result).toEqual({ id: 7 });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, entries: 1 });
+  });
+
+  it('never caches tools without a TTL', async () => {
+    const cache = new ToolResultCache({ ttls: { getUser: 1000 } });
+    const fn = vi.fn().mockResolvedValue({ ok: true });
+
+    await cache.getOrCall('deleteUser', { id: 7 }, fn);
+    await cache.getOrCall('deleteUser', { id: 7 }, fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 0, entries: 0 });
+  });
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new ToolResultCache({ ttls: { 'get*': 1000 } });
+    const fn = vi.fn().mockResolvedValue({ id: 7 });
+
+    await cache.getOrCall('getUser', { id: 7 }, fn);
+    vi.advanceTimersByTime(1001);
+    await cache.getOrCall('getUser', { id: 7 }, fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('prefers exact tool names over globs', () => {
+    const cache = new ToolResultCache({ ttls: { 'get*': 1000, getAuditLog: 0 } });
+
+    expect(cache.getTtl('getUser')).toBe(1000);
+    expect(cache.getTtl('getAuditLog')).toBeUndefined();
+  });
+
+  it('does not cache error results or thrown errors', async () => {
+    const cache = new ToolResultCache({ ttls: { getUser: 1000 } });
+    const fn = vi.fn()
+      .mockResolvedValueOnce({ error: 'not found' })
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce({ id: 7 });
+
+    await cache.getOrCall('getUser', { id: 7 }, fn);
+    await expect(cache.getOrCall('getUser', { id: 7 }, fn)).rejects.toThrow('boom');
+    await cache.getOrCall('getUser', { id: 7 }, fn);
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(cache.getStats().entries).toBe(1);
+  });
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const cache = new ToolResultCache({ ttls: { getUser: 1000 }, maxEntries: 2 });
+    const fn = vi.fn().mockResolvedValue({});
+
+    await cache.getOrCall('getUser', { id: 1 }, fn);
+    await cache.getOrCall('getUser', { id: 2 }, fn);
+    await cache.getOrCall('getUser', { id: 3 }, fn);
+    await cache.getOrCall('getUser', { id: 1 }, fn);
+
+    expect(fn).toHaveBeenCalledTimes(4);
+    expect(cache.getStats().entries).toBe(2);
+  });
+});
+
+describe('createToolResultCache', () => {
+  it('is only created when tool TTLs are configured', () => {
+    const base = { timeout: 1, mcpMaxRetries: 0, mcpCallTimeout: 1, sessionMaxIteration: 1, endpoint: '/', agentPort: 1 };
+
+    expect(createToolResultCache(base)).toBeUndefined();
+    expect(createToolResultCache({ ...base, toolCacheTtls: { getUser: 1000 } })).toBeInstanceOf(ToolResultCache);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AttachmentReadPageTool } from '../../src/internal-tools/attachments/attachment-read-page-tool.js';
+import { AttachmentStore } from '../../src/core/attachment-store.js';
+
+describe('AttachmentReadPageTool', () => {
+  let store: AttachmentStore;
+  let tool: AttachmentReadPageTool;
+
+  beforeEach(() => {
+    store = new AttachmentStore();
+    store.save({ id: 'abc123', fileName: 'report.pdf', format: 'pdf', pages: ['first', 'second'] });
+    tool = new AttachmentReadPageTool(store);
+  });
+
+  it('defines attachment_read_page with attachmentId and page', () => {
+    const definition = tool.getToolDefinition();
+
+    expect(definition.function.name).toBe('attachment_read_page');
+    expect(definition.function.parameters?.['required']).toEqual(['attachmentId', 'page']);
+    expect(tool.canHandle('attachment_read_page')).toBe(true);
+  });
+
+  it('returns the requested page', async () => {
+    const result = await tool.execute({ attachmentId: 'abc123', page: 2 });
+
+    expect(result).toEqual({ success: true, fileName: 'report.pdf', page: 2, totalPages: 2, content: 'second' });
+  });
+
+  it('reports unknown attachments and out-of-range pages', async () => {
+    expect(await tool.execute({ attachmentId: 'missing', page: 1 })).toEqual({ success: false, error: 'Unknown attachment: missing' });
+    expect(await tool.execute({ attachmentId: 'abc123', page: 3 })).toEqual({ success: false, error: 'Page 3 is out of range (1-2)' });
+    expect((await tool.execute({ attachmentId: 'abc123' })).success).toBe(false);
+  });
+
+  it('drops the oldest attachments beyond the store limit', () => {
+    const small = new AttachmentStore(1);
+    small.save({ id: 'a', fileName: 'a.txt', format: 'text', pages: ['a'] });
+    small.save({ id: 'b', fileName: 'b.txt', format: 'text', pages: ['b'] });
+
+    expect(small.get('a')).toBeUndefined();
+    expect(small.get('b')?.pages).toEqual(['b']);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DelegateToAgentTool } from '../../src/internal-tools/subagents/delegate-to-agent-tool.js';
+import type { InternalToolContext } from '../../src/internal-tools/internal-tool.interface.js';
+
+const tool = (name: string) => ({ type: 'function' as const, function: { name, description: name, parameters: { type: 'object', properties: {} } } });
+
+describe('DelegateToAgentTool', () => {
+  const subAgents = {
+    researcher: { description: 'Finds facts', prompt: 'You research.', model: 'gpt-4o-mini', tools: ['search*', 'delegate_to_agent'], maxIterations: 3 },
+    writer: { description: 'Writes copy', prompt: 'You write.' }
+  };
+  let context: InternalToolContext;
+  let runSubAgent: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    runSubAgent = vi.fn().mockResolvedValue({ type: 'text', content: 'Paris', usedToken: 42 });
+    context = {
+      request: {
+        agent: { identifier: 'main', name: 'Main', description: '', prompt: 'You lead.' },
+        tools: [],
+        servers: [{ identifier: 'search', name: 'Search', description: '' }],
+        messages: [{ type: 'text', sender: { id: 'user' }, content: 'Plan a trip' }]
+      } as any,
+      client: {} as any,
+      tools: [tool('searchWeb'), tool('sendEmail'), tool('delegate_to_agent')],
+      depth: 0,
+      runSubAgent
+    };
+  });
+
+  it('lists the configured sub-agents in its definition', () => {
+    const definition = new DelegateToAgentTool(subAgents).getToolDefinition();
+
+    expect(definition.function.name).toBe('delegate_to_agent');
+    expect(definition.function.description).toContain('researcher: Finds facts; writer: Writes copy');
+    expect((definition.function.parameters?.['properties'] as any).agent.enum).toEqual(['researcher', 'writer']);
+  });
+
+  it('runs the sub-agent with its prompt, model, budget and tool subset', async () => {
+    const result = await new DelegateToAgentTool(subAgents).execute({ agent: 'researcher', task: 'Capital of France?' }, context);
+
+    expect(result).toEqual({ success: true, agent: 'researcher', answer: 'Paris', tokensUsed: 42 });
+    const [request, options] = runSubAgent.mock.calls[0];
+    expect(request.agent).toEqual(expect.objectContaining({ identifier: 'main/researcher', name: 'researcher', prompt: 'You research.' }));
+    expect(request.servers).toEqual(context.request.servers);
+    expect(request.messages).toEqual([{ type: 'text', sender: { id: 'main', name: 'Main' }, content: 'Capital of France?' }]);
+    expect(options.model).toBe('gpt-4o-mini');
+    expect(options.maxIterations).toBe(3);
+    expect(options.tools.map((t: any) => t.function.name)).toEqual(['searchWeb', 'delegate_to_agent']);
+  });
+
+  it('gives sub-agents every tool when none are listed, except delegation at the depth limit', async () => {
+    await new DelegateToAgentTool(subAgents, 1).execute({ agent: 'writer', task: 'Write a tagline' }, context);
+
+    const [, options] = runSubAgent.mock.calls[0];
+    expect(options.tools.map((t: any) => t.function.name)).toEqual(['searchWeb', 'sendEmail']);
+    expect(options.model).toBeUndefined();
+  });
+
+  it('refuses to delegate beyond the maximum depth', async () => {
+    const result = await new DelegateToAgentTool(subAgents, 2).execute({ agent: 'writer', task: 'x' }, { ...context, depth: 2 });
+
+    expect(result).toEqual({ success: false, error: 'Maximum delegation depth (2) reached; complete the task yourself' });
+    expect(runSubAgent).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown sub-agents, missing context and sub-agent failures', async () => {
+    const delegate = new DelegateToAgentTool(subAgents);
+    runSubAgent.mockRejectedValue(new Error('model unavailable'));
+
+    expect(await delegate.execute({ agent: 'nobody', task: 'x' }, context)).toEqual({ success: false, error: 'Unknown sub-agent: nobody' });
+    expect((await delegate.execute({ agent: 'writer', task: 'x' })).success).toBe(false);
+    expect(await delegate.execute({ agent: 'writer', task: 'x' }, context)).toEqual({ success: false, error: 'model unavailable' });
+  });
+
+  it('flags incomplete sub-agent answers', async () => {
+    runSubAgent.mockResolvedValue({ type: 'text', content: 'Partial', usedToken: 5, metadata: { incomplete: true, incompleteReason: 'max_iterations' } });
+
+    const result = await new DelegateToAgentTool(subAgents).execute({ agent: 'writer', task: 'x' }, context);
+
+    expect(result).toEqual(expect.objectContaining({ success: true, incomplete: true, incompleteReason: 'max_iterations' }));
+  });
+});
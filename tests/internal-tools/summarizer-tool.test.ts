@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { AgentTool, AgentClient } from '@cubicler/cubicagentkit';
+import OpenAI from 'openai';
 import { SummarizerToolInstance, createSummarizerTools } from '../../src/internal-tools/summarizer/summarizer-tool.js';
+import { OpenAIChatProvider } from '../../src/core/openai-chat-provider.js';
 
 // Mock OpenAI module
 const mockCreate = vi.fn();
@@ -48,7 +50,7 @@ describe('SummarizerToolInstance', () => {
     summarizerTool = new SummarizerToolInstance(
       mockOriginalTool,
       'gpt-4o-mini',
-      'test-api-key',
+      new OpenAIChatProvider(new OpenAI()),
       mockAgentClient
     );
   });
@@ -266,7 +268,7 @@ describe('createSummarizerTools', () => {
     const summarizerTools = createSummarizerTools(
       mockTools,
       'gpt-4o-mini',
-      'test-api-key',
+      new OpenAIChatProvider(new OpenAI()),
       mockAgentClient
     );
 
@@ -279,7 +281,7 @@ describe('createSummarizerTools', () => {
     const summarizerTools = createSummarizerTools(
       [],
       'gpt-4o-mini',
-      'test-api-key',
+      new OpenAIChatProvider(new OpenAI()),
       mockAgentClient
     );
 
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getAudioFormat, isNativeAudioFormat, loadAudio } from '../../src/utils/audio-helper.js';
+
+vi.mock('dns/promises', () => ({ lookup: vi.fn().mockResolvedValue([{ address: '93.184.216.34', family: 4 }]) }));
+
+describe('audio-helper', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getAudioFormat', () => {
+    it('prefers metadata.fileExtension and falls back to the URL extension', () => {
+      expect(getAudioFormat('.WAV')).toBe('wav');
+      expect(getAudioFormat('mpeg')).toBe('mp3');
+      expect(getAudioFormat(undefined, 'https://example.com/voice/note.ogg?sig=1')).toBe('ogg');
+      expect(getAudioFormat(undefined, 'AAAA')).toBe('mp3');
+    });
+  });
+
+  describe('isNativeAudioFormat', () => {
+    it('accepts only formats chat completions take as input_audio', () => {
+      expect(isNativeAudioFormat('wav')).toBe(true);
+      expect(isNativeAudioFormat('mp3')).toBe(true);
+      expect(isNativeAudioFormat('ogg')).toBe(false);
+    });
+  });
+
+  describe('loadAudio', () => {
+    it('decodes base64 content', async () => {
+      const audio = await loadAudio(Buffer.from('RIFF').toString('base64'), 'base64', 'wav');
+
+      expect(audio).toEqual({ data: Buffer.from('RIFF'), format: 'wav' });
+    });
+
+    it('downloads URL content', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(Buffer.from('ID3')));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const audio = await loadAudio('https://example.com/note.mp3', 'url', 'mp3');
+
+      expect(fetchMock).toHaveBeenCalledWith(new URL('https://example.com/note.mp3'), expect.objectContaining({ redirect: 'manual' }));
+      expect(audio.data.toString()).toBe('ID3');
+    });
+
+    it('rejects failed downloads and content that is neither base64 nor a URL', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('missing', { status: 404 })));
+
+      await expect(loadAudio('https://example.com/note.mp3', 'url', 'mp3')).rejects.toThrow('Audio message could not be loaded: Download failed with status 404');
+      await expect(loadAudio('not audio', undefined, 'mp3')).rejects.toThrow('Content is neither base64 nor a URL');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../src/utils/concurrency-helper.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('preserves input order regardless of completion order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms;
+    });
+    expect(results).toEqual([30, 10, 20]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await delay(5);
+      inFlight--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it('treats limits below one as sequential execution', async () => {
+    let peak = 0;
+    let inFlight = 0;
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await delay(1);
+      inFlight--;
+    });
+    expect(peak).toBe(1);
+  });
+
+  it('returns an empty array for no items', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
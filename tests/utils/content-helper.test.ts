@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { lookup } from 'dns/promises';
+import { loadMessageContent } from '../../src/utils/content-helper.js';
+
+vi.mock('dns/promises', () => ({ lookup: vi.fn() }));
+
+const publicAddress = [{ address: '93.184.216.34', family: 4 }];
+
+describe('content-helper', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(lookup).mockReset();
+  });
+
+  describe('loadMessageContent', () => {
+    it('decodes base64 content within the size cap', async () => {
+      await expect(loadMessageContent(Buffer.from('abc').toString('base64'), 'base64', 10)).resolves.toEqual(Buffer.from('abc'));
+      await expect(loadMessageContent(Buffer.from('abcdef').toString('base64'), 'base64', 3)).rejects.toThrow('Content exceeds 3 bytes');
+    });
+
+    it('downloads from public hosts with the caller signal', async () => {
+      vi.mocked(lookup).mockResolvedValue(publicAddress as any);
+      const fetchMock = vi.fn().mockResolvedValue(new Response('report'));
+      vi.stubGlobal('fetch', fetchMock);
+      const controller = new AbortController();
+
+      const data = await loadMessageContent('https://files.example.com/report.txt', 'url', 100, { signal: controller.signal });
+
+      expect(data.toString()).toBe('report');
+      const { signal } = fetchMock.mock.calls[0][1];
+      controller.abort();
+      expect(signal.aborted).toBe(true);
+    });
+
+    it('refuses non-http schemes and private or local addresses', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as any);
+
+      await expect(loadMessageContent('file:///etc/passwd', 'url', 100)).rejects.toThrow('file: URL');
+      await expect(loadMessageContent('http://127.0.0.1/admin', 'url', 100)).rejects.toThrow('private or local address');
+      await expect(loadMessageContent('http://[::1]/admin', 'url', 100)).rejects.toThrow('private or local address');
+      await expect(loadMessageContent('http://169.254.169.254/latest/meta-data', 'url', 100)).rejects.toThrow('private or local address');
+      await expect(loadMessageContent('https://internal.example.com/x', 'url', 100)).rejects.toThrow('private or local address');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('checks redirect targets too', async () => {
+      vi.mocked(lookup).mockResolvedValue(publicAddress as any);
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 302, headers: { location: 'http://127.0.0.1/secret' } })));
+
+      await expect(loadMessageContent('https://files.example.com/a', 'url', 100)).rejects.toThrow('private or local address');
+    });
+
+    it('only downloads from allowed hosts when they are configured', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok')));
+
+      await expect(loadMessageContent('https://cdn.example.com/a', 'url', 100, { allowedHosts: ['*.example.com'] })).resolves.toEqual(Buffer.from('ok'));
+      await expect(loadMessageContent('https://example.org/a', 'url', 100, { allowedHosts: ['*.example.com'] })).rejects.toThrow('host is not allowed');
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('stops reading bodies that pass the size cap', async () => {
+      vi.mocked(lookup).mockResolvedValue(publicAddress as any);
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('x'.repeat(50))));
+
+      await expect(loadMessageContent('https://files.example.com/big', 'url', 10)).rejects.toThrow('Content exceeds 10 bytes');
+    });
+  });
+});
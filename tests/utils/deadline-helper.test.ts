@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { abortable, createDeadline } from '../../src/utils/deadline-helper.js';
+
+describe('createDeadline', () => {
+  it('aborts its signal once the timeout elapses', async () => {
+    const deadline = createDeadline(5);
+    expect(deadline.signal.aborted).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.signal.reason.message).toContain('Deadline of 5ms exceeded');
+  });
+
+  it('never aborts once disposed', async () => {
+    const deadline = createDeadline(5);
+    deadline.dispose();
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(deadline.signal.aborted).toBe(false);
+  });
+});
+
+describe('abortable', () => {
+  it('passes results through while the signal is live', async () => {
+    const deadline = createDeadline(1000);
+    await expect(abortable(Promise.resolve('ok'), deadline.signal)).resolves.toBe('ok');
+    deadline.dispose();
+  });
+
+  it('rejects with the abort reason without waiting for the underlying call', async () => {
+    const deadline = createDeadline(5);
+
+    await expect(abortable(new Promise(() => {}), deadline.signal)).rejects.toThrow('Deadline of 5ms exceeded');
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+
+    await expect(abortable(Promise.resolve('late'), controller.signal)).rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync, deflateSync } from 'zlib';
+import { extractDocumentText, getDocumentFormat, isTextDocumentFormat, paginateText } from '../../src/utils/document-helper.js';
+
+/**
+ * Minimal single-entry zip archive (deflated), enough for a DOCX body
+ */
+function createZip(name: string, content: string): Buffer {
+  const nameBytes = Buffer.from(name);
+  const data = deflateRawSync(Buffer.from(content));
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+function createPdf(contentStream: string): Buffer {
+  const compressed = deflateSync(Buffer.from(contentStream, 'latin1'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n'),
+    Buffer.from(`4 0 obj\n<< /Length ${compressed.length} /Filter /FlateDecode >>\nstream\n`),
+    compressed,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n'),
+  ]);
+}
+
+describe('document-helper', () => {
+  describe('getDocumentFormat', () => {
+    it('maps extensions from metadata or the file name', () => {
+      expect(getDocumentFormat('PDF')).toBe('pdf');
+      expect(getDocumentFormat('.md')).toBe('markdown');
+      expect(getDocumentFormat(undefined, 'report.docx')).toBe('docx');
+      expect(getDocumentFormat('png')).toBeUndefined();
+      expect(getDocumentFormat()).toBeUndefined();
+    });
+
+    it('identifies plain text formats', () => {
+      expect(isTextDocumentFormat('csv')).toBe(true);
+      expect(isTextDocumentFormat('pdf')).toBe(false);
+    });
+  });
+
+  describe('extractDocumentText', () => {
+    it('reads text formats as UTF-8 with normalised line endings', () => {
+      expect(extractDocumentText(Buffer.from('\uFEFF# Title\r\nBody'), 'markdown')).toBe('# Title\nBody');
+    });
+
+    it('extracts paragraphs from a DOCX body', () => {
+      const docx = createZip(
+        'word/document.xml',
+        '<w:document><w:body><w:p><w:r><w:t>Hello &amp; welcome</w:t></w:r></w:p><w:p><w:r><w:t>Second</w:t><w:tab/><w:t>line</w:t></w:r></w:p></w:body></w:document>'
+      );
+
+      expect(extractDocumentText(docx, 'docx')).toBe('Hello & welcome\nSecond\tline');
+    });
+
+    it('rejects archives without a document body', () => {
+      expect(() => extractDocumentText(createZip('other.xml', '<x/>'), 'docx')).toThrow('DOCX has no word/document.xml');
+      expect(() => extractDocumentText(Buffer.from('not a zip at all, just some text'), 'docx')).toThrow('Not a zip archive');
+    });
+
+    it('extracts text shown by PDF content streams', () => {
+      const pdf = createPdf('BT /F1 12 Tf 72 712 Td (Invoice \\(draft\\)) Tj 0 -14 Td [(To)-250(tal:) 5 (42)] TJ ET');
+
+      expect(extractDocumentText(pdf, 'pdf')).toBe('Invoice (draft)\nTo tal:42');
+    });
+
+    it('refuses documents that decompress past the limit', () => {
+      const docx = createZip('word/document.xml', `<w:body><w:p><w:t>${'a'.repeat(5000)}</w:t></w:p></w:body>`);
+      const pdf = createPdf(`BT (${'a'.repeat(5000)}) Tj ET`);
+
+      expect(() => extractDocumentText(docx, 'docx', { maxInflatedBytes: 1000 })).toThrow('Document decompresses to more than 1000 bytes');
+      expect(() => extractDocumentText(pdf, 'pdf', { maxInflatedBytes: 1000 })).toThrow('Document decompresses to more than 1000 bytes');
+    });
+
+    it('refuses documents whose text exceeds the limit', () => {
+      const pdf = createPdf(`BT (${'a'.repeat(200)}) Tj ET`);
+
+      expect(() => extractDocumentText(pdf, 'pdf', { maxTextChars: 100 })).toThrow('Document text exceeds 100 characters');
+      expect(() => extractDocumentText(Buffer.from('b'.repeat(200)), 'text', { maxTextChars: 100 })).toThrow('Document text exceeds 100 characters');
+      expect(extractDocumentText(Buffer.from('b'.repeat(100)), 'text', { maxTextChars: 100 })).toHaveLength(100);
+    });
+
+    it('reports PDFs without extractable text', () => {
+      expect(() => extractDocumentText(createPdf('0 0 m 10 10 l S'), 'pdf')).toThrow('PDF has no extractable text');
+    });
+
+    it('reports PDFs whose fonts do not decode to text instead of returning garbage', () => {
+      const cidPdf = createPdf('BT /F1 12 Tf 72 712 Td <002B00480050004F0052> Tj ET');
+
+      expect(() => extractDocumentText(cidPdf, 'pdf')).toThrow('PDF has no extractable text');
+    });
+  });
+
+  describe('paginateText', () => {
+    it('splits at line ends within the page size', () => {
+      expect(paginateText('aaaa\nbbbb\ncccc', 9)).toEqual(['aaaa\nbbbb', 'cccc']);
+    });
+
+    it('hard-splits lines longer than a page', () => {
+      expect(paginateText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+
+    it('repeats a header on every page', () => {
+      expect(paginateText('1,a\n2,b\n3,c', 10, 'id,v')).toEqual(['id,v\n1,a', 'id,v\n2,b', 'id,v\n3,c']);
+    });
+  });
+});
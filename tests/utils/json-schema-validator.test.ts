@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatValidationErrors, validateJsonSchema } from '../../src/utils/json-schema-validator.js';
+import type { Logger } from '../../src/utils/logger.interface.js';
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      status: { enum: ['active', 'inactive'] }
+    },
+    required: ['name', 'age'],
+    additionalProperties: false
+  };
+
+  it('accepts a valid value', () => {
+    expect(validateJsonSchema({ name: 'Ada', age: 36, tags: ['x'], status: 'active' }, schema)).toEqual([]);
+  });
+
+  it('reports missing required properties and unexpected ones', () => {
+    const errors = validateJsonSchema({ name: 'Ada', extra: true }, schema);
+    expect(errors).toEqual([
+      { path: '$.age', message: 'is required' },
+      { path: '$.extra', message: 'is not an allowed property' }
+    ]);
+  });
+
+  it('reports nested type and constraint violations with paths', () => {
+    const errors = validateJsonSchema({ name: '', age: 1.5, tags: ['a', 2, 'c'], status: 'gone' }, schema);
+    expect(errors.map((error) => error.path)).toEqual(['$.name', '$.age', '$.tags', '$.tags[1]', '$.status']);
+  });
+
+  it('supports type unions and combinators', () => {
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJsonSchema(3, { anyOf: [{ type: 'string' }, { type: 'boolean' }] })).toHaveLength(1);
+    expect(validateJsonSchema(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toHaveLength(1);
+  });
+
+  it('skips patterns that are not valid regular expressions', () => {
+    expect(validateJsonSchema('abc', { type: 'string', pattern: '([a-z' })).toEqual([]);
+    expect(validateJsonSchema('ABC', { type: 'string', pattern: '^[a-z]+$' })).toHaveLength(1);
+  });
+
+  it('resolves local $ref pointers, including recursive definitions', () => {
+    const treeSchema = {
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/node' } } },
+          required: ['name']
+        }
+      }
+    };
+
+    expect(validateJsonSchema({ name: 'root', children: [{ name: 'leaf', children: [] }] }, treeSchema)).toEqual([]);
+    expect(validateJsonSchema({ name: 'root', children: [{ children: [] }] }, treeSchema)).toEqual([
+      { path: '$.children[0].name', message: 'is required' }
+    ]);
+    expect(validateJsonSchema(5, { $ref: '#/definitions/id', definitions: { id: { type: 'string' } } })).toEqual([
+      { path: '$', message: 'expected string, got integer' }
+    ]);
+  });
+
+  it('accepts values for references it cannot resolve and logs each reference once', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as Logger;
+    const openApiSchema = {
+      type: 'object',
+      properties: { address: { $ref: '#/components/schemas/Address' } },
+      required: ['address']
+    };
+
+    expect(validateJsonSchema({ address: { street: 'Main St' } }, openApiSchema, '$', logger)).toEqual([]);
+    expect(validateJsonSchema({ address: 'Main St' }, openApiSchema, '$', logger)).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('#/components/schemas/Address'));
+
+    expect(validateJsonSchema('x', { $ref: 'https://example.com/schema.json' })).toEqual([]);
+    expect(validateJsonSchema('x', { $ref: '#/$defs/a', $defs: { a: { $ref: '#/$defs/a' } } })).toEqual([]);
+    expect(validateJsonSchema(5, { $ref: '#/$defs/missing', type: 'string' })).toHaveLength(1);
+  });
+
+  it('only counts own properties as present for required', () => {
+    expect(validateJsonSchema({}, { type: 'object', required: ['toString'] })).toEqual([
+      { path: '$.toString', message: 'is required' }
+    ]);
+  });
+
+  it('formats errors into a single line', () => {
+    expect(formatValidationErrors([
+      { path: '$.a', message: 'is required' },
+      { path: '$.b', message: 'expected string, got integer' }
+    ])).toBe('$.a: is required; $.b: expected string, got integer');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
-import { buildOpenAIMessages, buildSystemMessage, cleanFinalResponse } from '../../src/utils/message-helper.js';
+import { applySystemRole, buildOpenAIMessages, buildSystemMessage, cleanFinalResponse, parseStructuredResponse, stripAudioParts } from '../../src/utils/message-helper.js';
 import type { AgentRequest } from '@cubicler/cubicagentkit';
 import type { OpenAIConfig, DispatchConfig } from '../../src/config/environment.js';
 
@@ -187,6 +187,78 @@ describe('MessageHelper', () => {
       expect(parts[1].type).toBe('image_url');
       expect(parts[1].image_url?.url.startsWith('data:image/png;base64,')).toBe(true);
     });
+
+    it('should map base64 wav and mp3 audio messages to input_audio parts', () => {
+      const request = createMockAgentRequest();
+      request.messages?.push({
+        type: 'audio',
+        sender: { id: 'user-1', name: 'Test User' },
+        content: 'UklGRiQAAABXQVZF',
+        metadata: { format: 'base64', fileExtension: 'wav' }
+      } as any);
+
+      const result = buildOpenAIMessages(request, mockOpenAIConfig, mockDispatchConfig, 1);
+      const parts = result[result.length - 1].content as unknown as Array<{ type: string; text?: string; input_audio?: unknown }>;
+      expect(JSON.parse(parts[0].text as string).content).toBe('<base64 audio omitted>');
+      expect(parts[1]).toEqual({ type: 'input_audio', input_audio: { data: 'UklGRiQAAABXQVZF', format: 'wav' } });
+    });
+
+    it('should place audio transcripts in the sender envelope', () => {
+      const request = createMockAgentRequest();
+      const audioMessage = {
+        type: 'audio',
+        sender: { id: 'user-1', name: 'Test User' },
+        content: 'https://example.com/note.ogg',
+        metadata: { format: 'url', fileExtension: 'ogg' }
+      } as any;
+      request.messages?.push(audioMessage);
+
+      const result = buildOpenAIMessages(
+        request, mockOpenAIConfig, mockDispatchConfig, 1, undefined, undefined,
+        new Map([[audioMessage, { transcript: 'Call me back tomorrow' }]])
+      );
+
+      expect(JSON.parse(result[result.length - 1].content as string)).toEqual({
+        senderId: 'user-1',
+        name: 'Test User',
+        content: 'Call me back tomorrow',
+        type: 'audio'
+      });
+    });
+
+    it('should keep unresolved audio URLs as text', () => {
+      const request = createMockAgentRequest();
+      request.messages?.push({
+        type: 'audio',
+        sender: { id: 'user-1', name: 'Test User' },
+        content: 'https://example.com/note.mp3',
+        metadata: { format: 'url', fileExtension: 'mp3' }
+      } as any);
+
+      const result = buildOpenAIMessages(request, mockOpenAIConfig, mockDispatchConfig, 1);
+
+      expect(JSON.parse(result[result.length - 1].content as string).content).toBe('https://example.com/note.mp3');
+    });
+
+    it('should place extracted document text in the sender envelope', () => {
+      const request = createMockAgentRequest();
+      const fileMessage = {
+        type: 'text',
+        sender: { id: 'user-1', name: 'Test User' },
+        content: 'JVBERi0xLjQ=',
+        metadata: { format: 'base64', fileExtension: 'pdf', fileName: 'report.pdf' }
+      } as any;
+      request.messages?.push(fileMessage);
+
+      const result = buildOpenAIMessages(
+        request, mockOpenAIConfig, mockDispatchConfig, 1, undefined, undefined,
+        new Map([[fileMessage, { attachment: { id: 'abc123', fileName: 'report.pdf', format: 'pdf' as const, pages: ['Page one', 'Page two'] } }]])
+      );
+
+      const envelope = JSON.parse(result[result.length - 1].content as string);
+      expect(envelope.fileName).toBe('report.pdf');
+      expect(envelope.content).toBe('Page one\n\n[Page 1 of 2 of attachment abc123. Read the other pages with attachment_read_page.]');
+    });
   });
 
   describe('buildSystemMessage', () => {
@@ -354,4 +426,61 @@ describe('MessageHelper', () => {
       expect(result).toBe(nestedContent);
     });
   });
+
+  describe('parseStructuredResponse', () => {
+    const schema = { type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'] };
+
+    it('should return the parsed value when it matches the schema', () => {
+      expect(parseStructuredResponse('{"answer":"42"}', schema)).toEqual({ value: { answer: '42' }, errors: [] });
+    });
+
+    it('should report schema violations', () => {
+      const result = parseStructuredResponse('{"answer":42}', schema);
+      expect(result.value).toBeUndefined();
+      expect(result.errors).toEqual([{ path: '$.answer', message: 'expected string, got integer' }]);
+    });
+
+    it('should report content that is not JSON', () => {
+      expect(parseStructuredResponse('not json', schema).errors).toHaveLength(1);
+    });
+  });
+
+  describe('stripAudioParts', () => {
+    it('should replace input_audio parts with a note', () => {
+      const result = stripAudioParts([
+        { role: 'system', content: 's' },
+        { role: 'user', content: [{ type: 'text', text: 'hi' }, { type: 'input_audio', input_audio: { data: 'AA==', format: 'mp3' } }] }
+      ]);
+
+      expect(result[0]).toEqual({ role: 'system', content: 's' });
+      expect(result[1]?.content).toEqual([
+        { type: 'text', text: 'hi' },
+        { type: 'text', text: '[audio omitted: model does not support audio input and it could not be transcribed]' }
+      ]);
+    });
+  });
+
+  describe('applySystemRole', () => {
+    const messages: any[] = [
+      { role: 'system', content: 'instructions' },
+      { role: 'user', content: 'hi' }
+    ];
+
+    it('should leave messages untouched for the system role', () => {
+      expect(applySystemRole(messages, 'system')).toBe(messages);
+    });
+
+    it('should move system instructions to the developer role', () => {
+      expect(applySystemRole(messages, 'developer')).toEqual([
+        { role: 'developer', content: 'instructions' },
+        { role: 'user', content: 'hi' }
+      ]);
+    });
+
+    it('should move developer instructions back for models taking the system role', () => {
+      expect(applySystemRole([{ role: 'developer', content: 'instructions' }], 'system')).toEqual([
+        { role: 'system', content: 'instructions' }
+      ]);
+    });
+  });
 });
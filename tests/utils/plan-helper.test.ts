@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildRevisionPrompt, findNextStep, isStepFailure, parsePlanSteps, skipRemainingSteps, summarizePlan } from '../../src/utils/plan-helper.js';
+import type { PlanState } from '../../src/models/types.js';
+
+describe('plan-helper', () => {
+  describe('parsePlanSteps', () => {
+    it('reads a JSON plan, including fenced replies and step objects', () => {
+      expect(parsePlanSteps('{"steps": ["Search", " Answer "]}', 5)).toEqual(['Search', 'Answer']);
+      expect(parsePlanSteps('```json\n{"steps": [{"description": "Search"}]}\n```', 5)).toEqual(['Search']);
+      expect(parsePlanSteps('["Search", "Answer"]', 5)).toEqual(['Search', 'Answer']);
+    });
+
+    it('falls back to a numbered or bulleted list', () => {
+      expect(parsePlanSteps('Plan:\n1. Search\n2) Compare\n- Answer', 5)).toEqual(['Search', 'Compare', 'Answer']);
+    });
+
+    it('caps the number of steps and returns nothing for plain text', () => {
+      expect(parsePlanSteps('{"steps": ["a", "b", "c"]}', 2)).toEqual(['a', 'b']);
+      expect(parsePlanSteps('Just an answer', 5)).toEqual([]);
+      expect(parsePlanSteps(null, 5)).toEqual([]);
+    });
+  });
+
+  it('detects failed step reports', () => {
+    expect(isStepFailure('STEP FAILED: not found')).toBe(true);
+    expect(isStepFailure('  step failed: not found')).toBe(true);
+    expect(isStepFailure('Found it')).toBe(false);
+    expect(isStepFailure(null)).toBe(true);
+  });
+
+  it('tracks the next step, skips the rest and summarises the plan', () => {
+    const plan: PlanState = {
+      steps: [
+        { description: 'Search', status: 'failed', result: 'STEP FAILED: offline', maxIteration: 3 },
+        { description: 'Compare', status: 'pending' },
+        { description: 'Answer', status: 'pending' },
+      ],
+      revisions: 0,
+    };
+
+    expect(findNextStep(plan)).toBe(1);
+    expect(buildRevisionPrompt(plan, 0, 4)).toContain('Step 1 (Search) failed: STEP FAILED: offline');
+
+    skipRemainingSteps(plan);
+    expect(findNextStep(plan)).toBe(-1);
+    expect(summarizePlan(plan)).toEqual({
+      steps: [
+        { description: 'Search', status: 'failed', result: 'STEP FAILED: offline' },
+        { description: 'Compare', status: 'skipped' },
+        { description: 'Answer', status: 'skipped' },
+      ],
+      revisions: 0,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { callToolWithRetry, callWithRetry, getRetryAfterMs, isModelUnavailableError, isRetryableError, resolveToolRetries } from '../../src/utils/retry-helper.js';
+
+const noSleep = async () => {};
+
+const transientError = () => Object.assign(new Error('connect ECONNRESET'), { code: 'ECONNRESET' });
+
+describe('callWithRetry', () => {
+  it('retries transient failures until the call succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(transientError())
+      .mockRejectedValueOnce(new Error('Request timed out'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(callWithRetry(fn, { maxRetries: 3, sleep: noSleep })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxRetries and surfaces the last error', async () => {
+    const fn = vi.fn().mockRejectedValue(transientError());
+
+    await expect(callWithRetry(fn, { maxRetries: 2, sleep: noSleep })).rejects.toThrow('ECONNRESET');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('surfaces non-retryable errors immediately', async () => {
+    const fn = vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }));
+
+    await expect(callWithRetry(fn, { maxRetries: 3, sleep: noSleep })).rejects.toThrow('Bad request');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off exponentially within the jitter cap', async () => {
+    const delays: number[] = [];
+    const fn = vi.fn().mockRejectedValue(transientError());
+
+    await expect(callWithRetry(fn, {
+      maxRetries: 4,
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      sleep: noSleep,
+      onRetry: (_error, _attempt, delayMs) => delays.push(delayMs),
+    })).rejects.toThrow();
+
+    expect(delays).toHaveLength(4);
+    [100, 200, 300, 300].forEach((cap, index) => {
+      expect(delays[index]).toBeGreaterThanOrEqual(0);
+      expect(delays[index]).toBeLessThan(cap);
+    });
+  });
+});
+
+describe('isRetryableError', () => {
+  it('treats timeouts, connection errors, 429 and 5xx as transient', () => {
+    expect(isRetryableError(transientError())).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('x'), { status: 503 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('x'), { statusCode: 429 }))).toBe(true);
+    expect(isRetryableError(new Error('HTTP 502 Bad Gateway'))).toBe(true);
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+    expect(isRetryableError(new Error('Request failed with status code 503'))).toBe(true);
+  });
+
+  it('treats client errors, aborted calls and unknown failures as permanent', () => {
+    expect(isRetryableError(Object.assign(new Error('x'), { status: 404 }))).toBe(false);
+    expect(isRetryableError(new Error('Tool not found'))).toBe(false);
+    expect(isRetryableError(new Error('Order 500 not found'))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }))).toBe(false);
+    expect(isRetryableError('boom')).toBe(false);
+  });
+});
+
+describe('isModelUnavailableError', () => {
+  it('accepts rate limits, overloaded and 5xx responses and connection errors', () => {
+    expect(isModelUnavailableError(Object.assign(new Error('Rate limit reached'), { status: 429 }))).toBe(true);
+    expect(isModelUnavailableError(Object.assign(new Error('Overloaded'), { status: 529 }))).toBe(true);
+    expect(isModelUnavailableError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(true);
+    expect(isModelUnavailableError(Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' }))).toBe(true);
+    expect(isModelUnavailableError(new Error('The server is overloaded'))).toBe(true);
+  });
+
+  it('rejects client errors and aborted calls', () => {
+    expect(isModelUnavailableError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe(false);
+    expect(isModelUnavailableError(Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' }))).toBe(false);
+    expect(isModelUnavailableError('rate limit')).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads retry-after-ms, Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(getRetryAfterMs({ headers: { 'retry-after-ms': '250', 'retry-after': '9' } }, now)).toBe(250);
+    expect(getRetryAfterMs({ headers: { 'retry-after': '2' } }, now)).toBe(2000);
+    expect(getRetryAfterMs({ headers: new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:05 GMT' }) }, now)).toBe(5000);
+  });
+
+  it('returns undefined without a usable header', () => {
+    expect(getRetryAfterMs(new Error('no headers'))).toBeUndefined();
+    expect(getRetryAfterMs({ headers: { 'retry-after': 'soon' } })).toBeUndefined();
+  });
+});
+
+describe('callToolWithRetry', () => {
+  it('only retries tools that opted in', () => {
+    const policy = { maxRetries: 3, retryableTools: ['get*'], toolOverrides: { search: 1 } };
+
+    expect(resolveToolRetries(policy, 'getOrder')).toBe(3);
+    expect(resolveToolRetries(policy, 'search')).toBe(1);
+    expect(resolveToolRetries(policy, 'createOrder')).toBe(0);
+    expect(resolveToolRetries({ maxRetries: 3 }, 'getOrder')).toBe(0);
+  });
+
+  it('honors per-tool overrides for non-idempotent tools', async () => {
+    const client = { callTool: vi.fn().mockRejectedValue(transientError()) } as any;
+    const policy = { maxRetries: 3, retryableTools: ['*'], toolOverrides: { createOrder: 0 } };
+
+    expect(resolveToolRetries(policy, 'createOrder')).toBe(0);
+    expect(resolveToolRetries(policy, 'getOrder')).toBe(3);
+    await expect(callToolWithRetry(client, 'createOrder', { id: 1 }, policy)).rejects.toThrow('ECONNRESET');
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewMessages, parseReviewVerdict } from '../../src/utils/review-helper.js';
+
+describe('review-helper', () => {
+  describe('buildReviewMessages', () => {
+    it('shows the reviewer the instructions, request, tool results and draft', () => {
+      const messages = buildReviewMessages([
+        { role: 'system', content: 'You are a travel agent.' },
+        { role: 'user', content: [{ type: 'text', text: 'Find a flight to Paris' }] },
+        { role: 'assistant', content: null, tool_calls: [{ id: '1', type: 'function', function: { name: 'searchFlights', arguments: '{}' } }] },
+        { role: 'tool', tool_call_id: '1', content: '{"flights":[]}' },
+      ], 'No flights found.');
+
+      expect(messages).toHaveLength(2);
+      expect(messages[1]?.content).toBe([
+        '## Agent instructions\nYou are a travel agent.',
+        '## User request\nFind a flight to Paris',
+        '## Tool results\n{"flights":[]}',
+        '## Draft answer\nNo flights found.',
+      ].join('\n\n'));
+    });
+
+    it('truncates long sections', () => {
+      const messages = buildReviewMessages([{ role: 'user', content: 'x'.repeat(7000) }], 'Draft');
+
+      expect(messages[1]?.content).toContain('[truncated]');
+      expect(messages[1]?.content).toContain('(no tools were called)');
+    });
+  });
+
+  describe('parseReviewVerdict', () => {
+    it('reads approvals and rejections with notes', () => {
+      expect(parseReviewVerdict('{"approved": true}')).toEqual({ approved: true });
+      expect(parseReviewVerdict('```json\n{"approved": false, "notes": " Cite the source "}\n```')).toEqual({ approved: false, notes: 'Cite the source' });
+    });
+
+    it('returns undefined for unreadable replies and rejections without notes', () => {
+      expect(parseReviewVerdict('Looks good to me')).toBeUndefined();
+      expect(parseReviewVerdict('{"approved": "yes"}')).toBeUndefined();
+      expect(parseReviewVerdict('{"approved": false}')).toBeUndefined();
+      expect(parseReviewVerdict(null)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSpeechSettings } from '../../src/utils/speech-helper.js';
+
+const openaiConfig = { apiKey: 'sk-test', model: 'gpt-4o' } as any;
+
+const requestWith = (metadata?: Record<string, unknown>) => ({
+  agent: { identifier: 'voice-agent', name: 'Voice', description: '', prompt: '' },
+  tools: [],
+  servers: [],
+  messages: [
+    { type: 'text', sender: { id: 'user-1' }, content: 'Hi', ...(metadata && { metadata }) },
+    { type: 'text', sender: { id: 'voice-agent' }, content: 'Hello', metadata: { speech: false } }
+  ]
+}) as any;
+
+describe('resolveSpeechSettings', () => {
+  it('stays text-only without a speech profile or request', () => {
+    expect(resolveSpeechSettings(requestWith(), undefined, openaiConfig)).toBeUndefined();
+  });
+
+  it('uses the agent profile, falling back to TTS defaults', () => {
+    const settings = resolveSpeechSettings(
+      requestWith(),
+      { enabled: true, mode: 'replace' },
+      { ...openaiConfig, ttsVoice: 'nova' }
+    );
+
+    expect(settings).toEqual({ voice: 'nova', format: 'mp3', mode: 'replace' });
+  });
+
+  it('lets the requester opt in or out through message metadata', () => {
+    expect(resolveSpeechSettings(requestWith({ speech: true }), undefined, openaiConfig))
+      .toEqual({ voice: 'alloy', format: 'mp3', mode: 'attach' });
+    expect(resolveSpeechSettings(requestWith({ speech: false }), { enabled: true, mode: 'attach' }, openaiConfig))
+      .toBeUndefined();
+  });
+
+  it('applies voice, format and mode overrides from metadata', () => {
+    const settings = resolveSpeechSettings(
+      requestWith({ speech: { voice: 'echo', format: 'opus' } }),
+      { enabled: true, voice: 'nova', mode: 'replace' },
+      openaiConfig
+    );
+
+    expect(settings).toEqual({ voice: 'echo', format: 'opus', mode: 'replace' });
+  });
+
+  it('ignores invalid metadata', () => {
+    expect(resolveSpeechSettings(requestWith({ speech: { format: 'ogg' } }), undefined, openaiConfig)).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { accumulateChatCompletionStream } from '../../src/utils/stream-helper.js';
+
+async function* toStream(chunks: any[]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+describe('accumulateChatCompletionStream', () => {
+  it('concatenates content deltas and forwards each one', async () => {
+    const onDelta = vi.fn();
+    const result = await accumulateChatCompletionStream(
+      toStream([
+        { choices: [{ delta: { content: 'Hel' } }] },
+        { choices: [{ delta: { content: 'lo' } }] },
+        { choices: [], usage: { total_tokens: 12, prompt_tokens: 8, completion_tokens: 4 } }
+      ]),
+      onDelta
+    );
+
+    expect(onDelta).toHaveBeenNthCalledWith(1, 'Hel');
+    expect(onDelta).toHaveBeenNthCalledWith(2, 'lo');
+    expect(result).toEqual({ content: 'Hello', usedTokens: 12, promptTokens: 8, completionTokens: 4 });
+  });
+
+  it('reports reasoning tokens from the final usage chunk', async () => {
+    const result = await accumulateChatCompletionStream(
+      toStream([
+        { choices: [{ delta: { content: 'ok' } }] },
+        { choices: [], usage: { total_tokens: 40, prompt_tokens: 10, completion_tokens: 30, completion_tokens_details: { reasoning_tokens: 25 } } }
+      ])
+    );
+
+    expect(result.reasoningTokens).toBe(25);
+  });
+
+  it('assembles tool call fragments by index', async () => {
+    const result = await accumulateChatCompletionStream(
+      toStream([
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'get', arguments: '' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'put', arguments: '{"y"' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"x":' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '1}' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: ':2}' } }] } }] },
+        { choices: [], usage: { total_tokens: 30 } }
+      ])
+    );
+
+    expect(result.content).toBeNull();
+    expect(result.usedTokens).toBe(30);
+    expect(result.toolCalls).toEqual([
+      { id: 'call_a', type: 'function', function: { name: 'get', arguments: '{"x":1}' } },
+      { id: 'call_b', type: 'function', function: { name: 'put', arguments: '{"y":2}' } }
+    ]);
+  });
+
+  it('returns zero tokens when the stream carries no usage', async () => {
+    const result = await accumulateChatCompletionStream(toStream([{ choices: [{ delta: { content: 'ok' } }] }]));
+    expect(result).toEqual({ content: 'ok', usedTokens: 0, promptTokens: 0, completionTokens: 0 });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions.js';
+import { estimateAudioTokens, estimateMessageTokens } from '../../src/utils/token-helper.js';
+
+function wavBase64(byteRate: number, totalBytes: number): string {
+  const data = Buffer.alloc(totalBytes);
+  data.write('RIFF', 0, 'ascii');
+  data.write('WAVE', 8, 'ascii');
+  data.writeUInt32LE(byteRate, 28);
+  return data.toString('base64');
+}
+
+describe('token-helper', () => {
+  describe('estimateMessageTokens', () => {
+    it('estimates input_audio parts by duration rather than by their base64 size', () => {
+      const audio = Buffer.alloc(1024 * 1024, 0xff).toString('base64');
+      const message: ChatCompletionMessageParam = {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What does this say?' },
+          { type: 'input_audio', input_audio: { data: audio, format: 'mp3' } }
+        ]
+      };
+
+      // About 65 seconds of 128 kbps mp3
+      const tokens = estimateMessageTokens(message);
+      expect(tokens).toBeGreaterThan(600);
+      expect(tokens).toBeLessThan(1000);
+    });
+  });
+
+  describe('estimateAudioTokens', () => {
+    it('uses the byte rate from a wav header', () => {
+      // One second of 44.1 kHz 16-bit stereo audio
+      expect(estimateAudioTokens(wavBase64(176400, 176400), 'wav')).toBe(10);
+    });
+
+    it('falls back to a typical byte rate for wav without a header', () => {
+      expect(estimateAudioTokens(Buffer.alloc(320000).toString('base64'), 'wav')).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, fingerprintToolBatch, fingerprintToolCall, isPingPong } from '../../src/utils/tool-loop-helper.js';
+
+describe('fingerprintToolCall', () => {
+  it('ignores argument key order and whitespace', () => {
+    expect(fingerprintToolCall('search', '{"q":"a","page":1}')).toBe(fingerprintToolCall('search', '{ "page": 1, "q": "a" }'));
+  });
+
+  it('distinguishes tools and argument values', () => {
+    expect(fingerprintToolCall('search', '{"q":"a"}')).not.toBe(fingerprintToolCall('search', '{"q":"b"}'));
+    expect(fingerprintToolCall('search', '{"q":"a"}')).not.toBe(fingerprintToolCall('lookup', '{"q":"a"}'));
+  });
+
+  it('falls back to the raw arguments when they are not JSON', () => {
+    expect(fingerprintToolCall('search', 'not json')).toBe('search:not json');
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts nested object keys and keeps array order', () => {
+    expect(canonicalJson({ b: [2, 1], a: { d: 1, c: null } })).toBe('{"a":{"c":null,"d":1},"b":[2,1]}');
+  });
+});
+
+describe('isPingPong', () => {
+  it('detects two batches alternating', () => {
+    expect(isPingPong(['x', 'a', 'b', 'a', 'b'])).toBe(true);
+  });
+
+  it('ignores repeats of a single batch and short histories', () => {
+    expect(isPingPong(['a', 'a', 'a', 'a'])).toBe(false);
+    expect(isPingPong(['a', 'b', 'a'])).toBe(false);
+    expect(isPingPong(['a', 'b', 'c', 'b'])).toBe(false);
+  });
+
+  it('compares batches regardless of call order', () => {
+    expect(fingerprintToolBatch(['b:{}', 'a:{}'])).toBe(fingerprintToolBatch(['a:{}', 'b:{}']));
+  });
+});
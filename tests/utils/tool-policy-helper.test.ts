@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { filterToolsByPolicy, getToolDenialReason, matchesToolPattern } from '../../src/utils/tool-policy-helper.js';
+
+const tool = (name: string) => ({ type: 'function' as const, function: { name, parameters: { type: 'object' } } });
+
+describe('matchesToolPattern', () => {
+  it('supports * and ? wildcards', () => {
+    expect(matchesToolPattern('billing_getInvoice', 'billing_*')).toBe(true);
+    expect(matchesToolPattern('getUser', 'get????')).toBe(true);
+    expect(matchesToolPattern('getUsers', 'get????')).toBe(false);
+  });
+
+  it('treats other characters literally', () => {
+    expect(matchesToolPattern('a.b', 'a.b')).toBe(true);
+    expect(matchesToolPattern('axb', 'a.b')).toBe(false);
+  });
+});
+
+describe('getToolDenialReason', () => {
+  it('allows everything without a policy', () => {
+    expect(getToolDenialReason('deleteUser')).toBeUndefined();
+  });
+
+  it('lets deny win over allow', () => {
+    const policy = { allow: ['*User'], deny: ['delete*'] };
+    expect(getToolDenialReason('getUser', policy)).toBeUndefined();
+    expect(getToolDenialReason('deleteUser', policy)).toBe('deleteUser is denied for this agent');
+    expect(getToolDenialReason('getOrder', policy)).toBe("getOrder is not in this agent's allowed tools");
+  });
+
+  it('limits read-only agents to tools marked read-only', () => {
+    const policy = { readOnly: true, readOnlyTools: ['get*', 'search*'] };
+    expect(getToolDenialReason('searchOrders', policy)).toBeUndefined();
+    expect(getToolDenialReason('createOrder', policy)).toContain('only use read-only tools');
+  });
+
+  it('applies the wrapped tool rules to summarizer tools', () => {
+    const policy = { allow: ['getLogs'], deny: ['purgeLogs'] };
+    expect(getToolDenialReason('summarize_getLogs', policy)).toBeUndefined();
+    expect(getToolDenialReason('summarize_purgeLogs', policy)).toBe('purgeLogs is denied for this agent');
+  });
+});
+
+describe('filterToolsByPolicy', () => {
+  it('keeps only permitted tools', () => {
+    const tools = [tool('getUser'), tool('deleteUser'), tool('memory_remember')];
+    const filtered = filterToolsByPolicy(tools, { deny: ['delete*', 'memory_*'] });
+    expect(filtered.map((t) => t.function.name)).toEqual(['getUser']);
+  });
+});